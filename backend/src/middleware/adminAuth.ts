@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express'
+import { timingSafeEqual } from 'crypto'
+import { logger } from '../utils/logger.js'
+import type { ApiResponse } from '../types/index.js'
+
+const keysMatch = (given: string, expected: string): boolean => {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// Only a local development or test run may leave the admin routes open, and
+// only when asked to; a staging or misconfigured deploy stays closed
+const isOpenLocally = (): boolean => {
+  return process.env.ADMIN_OPEN_LOCALLY === 'true' && ['development', 'test'].includes(process.env.NODE_ENV ?? '')
+}
+
+// Admin routes need the X-Admin-Key header to match ADMIN_API_KEY. Without a
+// key configured they are closed, unless ADMIN_OPEN_LOCALLY opens them locally.
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.ADMIN_API_KEY
+  if (!expected) {
+    if (isOpenLocally()) {
+      return next()
+    }
+    return res.status(503).json({
+      success: false,
+      error: 'Admin endpoints are disabled: ADMIN_API_KEY is not set',
+    } as ApiResponse<never>)
+  }
+
+  const given = req.get('X-Admin-Key')
+  if (!given || !keysMatch(given, expected)) {
+    logger.warn(`Rejected admin request to ${req.method} ${req.originalUrl}`, { ip: req.ip })
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or missing admin key',
+    } as ApiResponse<never>)
+  }
+
+  next()
+}
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express'
+import { logger } from '../utils/logger.js'
+import { inspectQuery } from '../services/intent/queryGuard.js'
+import type { ApiResponse } from '../types/index.js'
+
+// Checks the shopper text in req.body[field] before a route can put it into a
+// prompt. Refused text gets a 400 with a code (PROMPT_INJECTION,
+// ABUSIVE_QUERY, OFF_TOPIC_QUERY); personal details are removed in place and
+// the response is marked with X-Query-Guard: PII_REDACTED.
+export const guardQuery = (field: string) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const text = req.body?.[field]
+    // Missing or non-string fields are left to the route's validation
+    if (typeof text !== 'string') {
+      return next()
+    }
+
+    const result = inspectQuery(text)
+    if (!result.ok) {
+      // The text itself is not logged: it may be abusive or carry personal details
+      logger.warn(`Rejected ${field} on ${req.method} ${req.originalUrl}: ${result.code}`, { ip: req.ip })
+      return res.status(400).json({
+        success: false,
+        error: result.reason,
+        code: result.code,
+      } as ApiResponse<never>)
+    }
+
+    // Validation has passed by now, so nothing may be left of the text
+    if (result.text === '') {
+      return res.status(400).json({
+        success: false,
+        error: `The ${field} is empty once personal details are removed`,
+      } as ApiResponse<never>)
+    }
+
+    if (result.redacted.length > 0) {
+      logger.info(`Removed ${result.redacted.join(', ')} from ${field} on ${req.method} ${req.originalUrl}`)
+      res.setHeader('X-Query-Guard', 'PII_REDACTED')
+      res.setHeader('X-Query-Redacted', result.redacted.join(','))
+    }
+
+    req.body[field] = result.text
+    next()
+  }
+}
@@ -0,0 +1,54 @@
+import { Router } from 'express'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { requireAdmin } from '../middleware/adminAuth.js'
+import { getLlmUsageTracker } from '../services/llm/LlmUsageTracker.js'
+import { getPincodeDirectory, type PincodeDirectoryInfo } from '../services/pincode/PincodeDirectory.js'
+import { getPincodeCache } from '../services/cache/PincodeCache.js'
+import type { ApiResponse, LlmSpendSummary, PincodeCacheMetrics } from '../types/index.js'
+
+const router = Router()
+
+router.use(requireAdmin)
+
+// Tokens and estimated spend on the model, per day and for recent calls, and
+// whether today's cap has switched parsing to the rules
+router.get('/llm-usage', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: getLlmUsageTracker().getSummary(),
+  } as ApiResponse<LlmSpendSummary>)
+}))
+
+// Version and size of the loaded pincode directory
+router.get('/pincodes', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: getPincodeDirectory().getInfo(),
+  } as ApiResponse<PincodeDirectoryInfo>)
+}))
+
+// Hits, misses and size of the pincode cache, and the most looked-up pincodes
+router.get('/pincode-cache', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: getPincodeCache().getMetrics(),
+  } as ApiResponse<PincodeCacheMetrics>)
+}))
+
+// Re-reads the pincode directory file after `npm run pincodes:import`; the
+// current data stays in use if the new file is invalid
+router.post('/pincodes/reload', asyncHandler(async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: getPincodeDirectory().reload(),
+    } as ApiResponse<PincodeDirectoryInfo>)
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reload the pincode directory',
+    } as ApiResponse<never>)
+  }
+}))
+
+export default router
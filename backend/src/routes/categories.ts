@@ -0,0 +1,34 @@
+import { Router } from 'express'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { CategoryTaxonomy } from '../services/catalog/CategoryTaxonomy.js'
+import type { ApiResponse, CategoryFilters, CategoryNode } from '../types/index.js'
+
+const router = Router()
+const taxonomy = new CategoryTaxonomy()
+
+// The category tree, without attributes
+router.get('/', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: taxonomy.getTree(),
+  } as ApiResponse<CategoryNode[]>)
+}))
+
+// Attributes a category can be filtered by, including inherited ones; the
+// client builds its filter panel from these
+router.get('/:id/filters', asyncHandler(async (req, res) => {
+  const filters = taxonomy.getFilters(req.params.id)
+  if (!filters) {
+    return res.status(404).json({
+      success: false,
+      error: 'Category not found',
+    } as ApiResponse<never>)
+  }
+
+  res.json({
+    success: true,
+    data: filters,
+  } as ApiResponse<CategoryFilters>)
+}))
+
+export default router
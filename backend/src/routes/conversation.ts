@@ -0,0 +1,221 @@
+import { Router, type NextFunction, type Request, type Response } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { guardQuery } from '../middleware/queryGuard.js'
+import { ConversationService } from '../services/conversation/ConversationService.js'
+import { CategoryTaxonomy } from '../services/catalog/CategoryTaxonomy.js'
+import type { ApiResponse, ConversationReply, ConversationSession } from '../types/index.js'
+
+const router = Router()
+const conversations = new ConversationService()
+const taxonomy = new CategoryTaxonomy()
+
+// Validation middleware
+const validateStartRequest = [
+  body('pincode')
+    .isString()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Pincode must be a 6-digit number'),
+]
+
+const validateConversationId = [
+  param('id')
+    .isUUID()
+    .withMessage('Conversation id must be a UUID'),
+]
+
+// Answers 400 for a message the validators failed
+const rejectInvalidMessage = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  next()
+}
+
+// The query guard only sees validated text
+const validateMessageRequest = [
+  ...validateConversationId,
+  body('message')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Message must be a string between 1 and 500 characters'),
+  rejectInvalidMessage,
+  guardQuery('message'),
+]
+
+const validateFiltersRequest = [
+  ...validateConversationId,
+  body('filters')
+    .isObject()
+    .withMessage('Filters must be an object of attribute keys to values'),
+]
+
+// Start a conversation; the first message runs the first search
+router.post('/', validateStartRequest, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  try {
+    const session = await conversations.start(req.body.pincode)
+
+    res.status(201).json({
+      success: true,
+      data: session,
+    } as ApiResponse<ConversationSession>)
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start conversation',
+    } as ApiResponse<never>)
+  }
+}))
+
+// Send a message: a new search or a refinement of the previous one
+router.post('/:id/messages', validateMessageRequest, asyncHandler(async (req, res) => {
+  try {
+    const reply = await conversations.sendMessage(req.params.id, req.body.message)
+    if (!reply) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found or expired',
+      } as ApiResponse<never>)
+    }
+
+    res.json({
+      success: true,
+      data: reply,
+    } as ApiResponse<ConversationReply>)
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process message',
+    } as ApiResponse<never>)
+  }
+}))
+
+// Set filters from the category's attribute schema on the current search;
+// a null value clears that filter
+router.post('/:id/filters', validateFiltersRequest, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  const session = await conversations.get(req.params.id)
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      error: 'Conversation not found or expired',
+    } as ApiResponse<never>)
+  }
+
+  const category = session.state.intent?.category
+  if (!category) {
+    return res.status(400).json({
+      success: false,
+      error: 'The current search has no category to filter',
+    } as ApiResponse<never>)
+  }
+
+  const filters: Record<string, string | null> = req.body.filters
+  const issues = taxonomy.validateFilters(
+    category.id,
+    Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== null))
+  )
+  if (issues.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: issues.join('; '),
+    } as ApiResponse<never>)
+  }
+
+  try {
+    const reply = await conversations.applyFilters(req.params.id, filters)
+    if (!reply) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found or expired',
+      } as ApiResponse<never>)
+    }
+
+    res.json({
+      success: true,
+      data: reply,
+    } as ApiResponse<ConversationReply>)
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply filters',
+    } as ApiResponse<never>)
+  }
+}))
+
+// Get a conversation with its turns and current search
+router.get('/:id', validateConversationId, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  const session = await conversations.get(req.params.id)
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      error: 'Conversation not found or expired',
+    } as ApiResponse<never>)
+  }
+
+  res.json({
+    success: true,
+    data: session,
+  } as ApiResponse<ConversationSession>)
+}))
+
+// End a conversation
+router.delete('/:id', validateConversationId, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  const ended = await conversations.end(req.params.id)
+  if (!ended) {
+    return res.status(404).json({
+      success: false,
+      error: 'Conversation not found or expired',
+    } as ApiResponse<never>)
+  }
+
+  res.json({
+    success: true,
+    message: 'Conversation ended',
+  } as ApiResponse<never>)
+}))
+
+export default router
@@ -3,6 +3,9 @@ import intentRoutes from './intent.js'
 import searchRoutes from './search.js'
 import pincodeRoutes from './pincode.js'
 import feedbackRoutes from './feedback.js'
+import conversationRoutes from './conversation.js'
+import categoryRoutes from './categories.js'
+import adminRoutes from './admin.js'
 
 const router = Router()
 
@@ -11,6 +14,9 @@ router.use('/intent', intentRoutes)
 router.use('/search', searchRoutes)
 router.use('/pincode', pincodeRoutes)
 router.use('/feedback', feedbackRoutes)
+router.use('/conversation', conversationRoutes)
+router.use('/categories', categoryRoutes)
+router.use('/admin', adminRoutes)
 
 // API info endpoint
 router.get('/', (req, res) => {
@@ -23,8 +29,11 @@ router.get('/', (req, res) => {
       endpoints: {
         intent: '/api/intent - Natural language intent parsing',
         search: '/api/search - Product search across retailers',
-        pincode: '/api/pincode - Pincode validation and delivery info',
+        pincode: '/api/pincode - Pincode validation, delivery info, bulk checks and lookup by place name',
         feedback: '/api/feedback - User feedback collection',
+        conversation: '/api/conversation - Multi-turn search with follow-up refinements',
+        categories: '/api/categories - Category tree and per-category filters',
+        admin: '/api/admin - LLM spend, pincode directory and pincode cache status (needs X-Admin-Key)',
       },
     },
   })
@@ -1,8 +1,9 @@
 import { Router } from 'express'
 import { body, validationResult } from 'express-validator'
 import { asyncHandler } from '../middleware/errorHandler.js'
+import { guardQuery } from '../middleware/queryGuard.js'
 import { IntentParserService } from '../services/IntentParserService.js'
-import type { ApiResponse, ParsedIntent } from '../types/index.js'
+import type { ApiResponse, EntityExtractionResult, IntentParseResult } from '../types/index.js'
 
 const router = Router()
 const intentParser = new IntentParserService()
@@ -17,7 +18,7 @@ const validateParseRequest = [
 ]
 
 // Parse natural language query into structured intent
-router.post('/parse', validateParseRequest, asyncHandler(async (req, res) => {
+router.post('/parse', validateParseRequest, guardQuery('query'), asyncHandler(async (req, res) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -30,12 +31,14 @@ router.post('/parse', validateParseRequest, asyncHandler(async (req, res) => {
   const { query } = req.body
 
   try {
-    const parsedIntent = await intentParser.parseQuery(query)
+    // source says whether the model, a repair attempt or the keyword fallback
+    // answered; questions are set when the intent is too vague to search
+    const result = await intentParser.parse(query)
     
     res.json({
       success: true,
-      data: parsedIntent,
-    } as ApiResponse<ParsedIntent>)
+      data: result,
+    } as ApiResponse<IntentParseResult>)
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -45,7 +48,7 @@ router.post('/parse', validateParseRequest, asyncHandler(async (req, res) => {
 }))
 
 // Extract entities from text (for advanced use cases)
-router.post('/entities', validateParseRequest, asyncHandler(async (req, res) => {
+router.post('/entities', validateParseRequest, guardQuery('query'), asyncHandler(async (req, res) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -58,12 +61,12 @@ router.post('/entities', validateParseRequest, asyncHandler(async (req, res) =>
   const { query } = req.body
 
   try {
-    const entities = await intentParser.extractEntities(query)
+    const result = await intentParser.extract(query)
     
     res.json({
       success: true,
-      data: entities,
-    } as ApiResponse<any>)
+      data: result,
+    } as ApiResponse<EntityExtractionResult>)
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -1,11 +1,23 @@
 import { Router } from 'express'
-import { body, validationResult } from 'express-validator'
+import { body, query, validationResult } from 'express-validator'
 import { asyncHandler } from '../middleware/errorHandler.js'
 import { PincodeService } from '../services/PincodeService.js'
-import type { ApiResponse, PincodeValidationResult } from '../types/index.js'
+import { CategoryTaxonomy } from '../services/catalog/CategoryTaxonomy.js'
+import { RETAILER_NAMES } from '../services/retailers/retailerConfigs.js'
+import type {
+  ApiResponse,
+  BulkPincodeDelivery,
+  PincodeDeliveryInfo,
+  PincodeSuggestion,
+  PincodeValidationResult,
+} from '../types/index.js'
 
 const router = Router()
 const pincodeService = new PincodeService()
+const taxonomy = new CategoryTaxonomy()
+
+// Most pincodes checked in one bulk request
+const MAX_BULK_PINCODES = 50
 
 // Validation middleware
 const validatePincodeRequest = [
@@ -70,7 +82,7 @@ router.post('/delivery', [
     res.json({
       success: true,
       data: deliveryInfo,
-    } as ApiResponse<any>)
+    } as ApiResponse<PincodeDeliveryInfo>)
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -79,4 +91,75 @@ router.post('/delivery', [
   }
 }))
 
-export default router
\ No newline at end of file
+// Check many pincodes against every retailer, or the listed ones, in one
+// request; invalid pincodes are reported per entry
+router.post('/delivery/bulk', [
+  body('pincodes')
+    .isArray({ min: 1, max: MAX_BULK_PINCODES })
+    .withMessage(`Pincodes must be a list of 1 to ${MAX_BULK_PINCODES} pincodes`),
+  body('pincodes.*')
+    .isString()
+    .trim()
+    .withMessage('Each pincode must be a string'),
+  body('retailers')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Retailers must be a non-empty list'),
+  body('retailers.*')
+    .isIn(RETAILER_NAMES)
+    .withMessage(`Retailers must be among: ${RETAILER_NAMES.join(', ')}`),
+  body('category')
+    .optional()
+    .isString()
+    .custom(id => taxonomy.get(id) !== null)
+    .withMessage('Category must be an id from /api/categories'),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  const { pincodes, retailers, category } = req.body
+  const results = await pincodeService.getBulkDeliveryInfo(pincodes, retailers, category)
+
+  res.json({
+    success: true,
+    data: results,
+  } as ApiResponse<BulkPincodeDelivery[]>)
+}))
+
+// Pincodes for a city, locality or post office name, for autocomplete
+router.get('/search', [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 60 })
+    .withMessage('Query must be 2 to 60 characters'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Limit must be between 1 and 20')
+    .toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    } as ApiResponse<never>)
+  }
+
+  const suggestions = pincodeService.searchPincodes(String(req.query.q), req.query.limit as number | undefined)
+
+  res.json({
+    success: true,
+    data: suggestions,
+  } as ApiResponse<PincodeSuggestion[]>)
+}))
+
+export default router
@@ -1,14 +1,29 @@
-import { Router } from 'express'
+import { Router, type NextFunction, type Request, type Response } from 'express'
 import { body, validationResult } from 'express-validator'
 import { asyncHandler } from '../middleware/errorHandler.js'
+import { guardQuery } from '../middleware/queryGuard.js'
 import { CrossRetailerEngine } from '../services/CrossRetailerEngine.js'
-import type { ApiResponse, ProductQuery, RetailerSearchResults } from '../types/index.js'
+import { ProductMatcher } from '../services/matching/ProductMatcher.js'
+import { CategoryTaxonomy } from '../services/catalog/CategoryTaxonomy.js'
+import { RETAILER_NAMES } from '../services/retailers/retailerConfigs.js'
+import type {
+  ApiResponse,
+  ProductGroup,
+  ProductQuery,
+  RetailerInsights,
+  RetailerResultEvent,
+  RetailerSearchResults,
+  SearchResult,
+  SearchSummaryEvent,
+} from '../types/index.js'
 
 const router = Router()
 const searchEngine = new CrossRetailerEngine()
+const productMatcher = new ProductMatcher()
+const taxonomy = new CategoryTaxonomy()
 
 // Validation middleware
-const validateSearchRequest = [
+const searchValidators = [
   body('description')
     .isString()
     .trim()
@@ -34,10 +49,70 @@ const validateSearchRequest = [
     .isNumeric()
     .isFloat({ min: 0, max: 1 })
     .withMessage('Confidence must be a number between 0 and 1'),
+  body('intent')
+    .optional()
+    .isObject()
+    .withMessage('Intent must be an object'),
+  body('intent.productType')
+    .if(body('intent').exists())
+    .isString()
+    .withMessage('Intent productType must be a string'),
+  body('paymentMethod')
+    .optional()
+    .isIn(['prepaid', 'cod'])
+    .withMessage('Payment method must be prepaid or cod'),
+  body('bank')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Bank must be a string of at most 50 characters'),
+  body('sortBy')
+    .optional()
+    .isIn(['relevance', 'effective_price'])
+    .withMessage('Sort order must be relevance or effective_price'),
+  body('retailers')
+    .optional()
+    .isArray()
+    .withMessage('Retailers must be an array'),
+  body('retailers.*')
+    .isIn(RETAILER_NAMES)
+    .withMessage(`Retailers must be among: ${RETAILER_NAMES.join(', ')}`),
+  body('filters')
+    .optional()
+    .isObject()
+    .withMessage('Filters must be an object'),
+  body('filters.excludeBrands')
+    .optional()
+    .isArray()
+    .withMessage('Excluded brands must be an array'),
+  body('filters.excludeBrands.*')
+    .isString()
+    .withMessage('Excluded brands must be strings'),
+  body('category')
+    .optional()
+    .isString()
+    .custom(id => taxonomy.get(id) !== null)
+    .withMessage('Category must be an id from /api/categories'),
+  // With a category, specification filters must fit its attribute schema
+  body('filters.specifications')
+    .optional()
+    .isObject()
+    .withMessage('Specifications must be an object')
+    .bail()
+    .if(body('category').exists())
+    .custom((specifications, { req }) => {
+      const issues = taxonomy.validateFilters(req.body.category, specifications)
+      if (issues.length > 0) {
+        throw new Error(issues.join('; '))
+      }
+      return true
+    })
+    .customSanitizer((specifications, { req }) => taxonomy.normalizeSpecifications(req.body.category, specifications)),
 ]
 
-// Search products across all retailers
-router.post('/products', validateSearchRequest, asyncHandler(async (req, res) => {
+// Answers 400 for a request the validators failed or whose budget is upside down
+const rejectInvalidSearch = (req: Request, res: Response, next: NextFunction) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -47,16 +122,24 @@ router.post('/products', validateSearchRequest, asyncHandler(async (req, res) =>
     } as ApiResponse<never>)
   }
 
-  const query: ProductQuery = req.body
-
-  // Validate budget range if provided
-  if (query.budget && query.budget.min > query.budget.max) {
+  const { budget } = req.body as ProductQuery
+  if (budget?.max !== undefined && budget.min > budget.max) {
     return res.status(400).json({
       success: false,
       error: 'Budget minimum cannot be greater than maximum',
     } as ApiResponse<never>)
   }
 
+  next()
+}
+
+// Shared by every search route; the query guard only sees validated text
+const validateSearchRequest = [...searchValidators, rejectInvalidSearch, guardQuery('description')]
+
+// Search products across all retailers
+router.post('/products', validateSearchRequest, asyncHandler(async (req, res) => {
+  const query: ProductQuery = req.body
+
   try {
     const results = await searchEngine.searchAllRetailers(query)
     
@@ -72,22 +155,85 @@ router.post('/products', validateSearchRequest, asyncHandler(async (req, res) =>
   }
 }))
 
-// Search products from a specific retailer
-router.post('/retailer/:retailer', validateSearchRequest, asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({
+// Search all retailers and group listings of the same item side by side
+router.post('/products/grouped', validateSearchRequest, asyncHandler(async (req, res) => {
+  const query: ProductQuery = req.body
+
+  try {
+    const results = await searchEngine.searchAllRetailers(query)
+    const groups = productMatcher.group(Object.values(results).flatMap(result => result.products))
+
+    res.json({
+      success: true,
+      data: { results, groups, insights: searchEngine.getInsights(results) },
+    } as ApiResponse<{ results: RetailerSearchResults; groups: ProductGroup[]; insights: RetailerInsights }>)
+  } catch (error) {
+    res.status(500).json({
       success: false,
-      error: 'Validation failed',
-      details: errors.array(),
+      error: error instanceof Error ? error.message : 'Failed to search products',
     } as ApiResponse<never>)
   }
+}))
+
+// Stream search results as Server-Sent Events: one `retailer` event per
+// retailer as soon as it finishes, then a `summary` event before closing.
+router.post('/products/stream', validateSearchRequest, asyncHandler(async (req, res) => {
+  const query: ProductQuery = req.body
 
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  })
+  res.flushHeaders()
+
+  let clientGone = false
+  // req 'close' fires once the body is read, so watch the response instead
+  res.on('close', () => {
+    clientGone = true
+  })
+
+  const send = (event: string, data: unknown) => {
+    if (!clientGone) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+  }
+
+  const startedAt = Date.now()
+
+  try {
+    const results = await searchEngine.searchAllRetailers(query, (retailer, result) => {
+      send('retailer', { retailer, result } as RetailerResultEvent)
+    })
+    const outcomes = Object.values(results)
+    const countStatus = (status: SearchResult['status']) => outcomes.filter(result => result.status === status).length
+
+    send('summary', {
+      results,
+      succeeded: countStatus('success'),
+      failed: countStatus('error'),
+      skipped: countStatus('skipped'),
+      notDeliverable: countStatus('not_deliverable'),
+      totalProducts: outcomes.reduce((total, result) => total + result.products.length, 0),
+      durationMs: Date.now() - startedAt,
+      insights: searchEngine.getInsights(results),
+    } as SearchSummaryEvent)
+  } catch (error) {
+    send('error', { error: error instanceof Error ? error.message : 'Failed to search products' })
+  }
+
+  res.end()
+}))
+
+// Search products from a specific retailer
+router.post('/retailer/:retailer', validateSearchRequest, asyncHandler(async (req, res) => {
   const { retailer } = req.params
   const query: ProductQuery = req.body
 
-  // Validate retailer name
-  const validRetailers = ['amazon', 'flipkart', 'myntra', 'meesho']
+  // Validate retailer name against the retailers that are currently enabled
+  const validRetailers: string[] = searchEngine.getEnabledRetailers()
   if (!validRetailers.includes(retailer)) {
     return res.status(400).json({
       success: false,
@@ -0,0 +1,58 @@
+import { readFileSync, renameSync, writeFileSync } from 'fs'
+import { logger } from '../utils/logger.js'
+import { buildPincodeDataset } from '../services/pincode/directoryImport.js'
+import { getPincodeDataPath } from '../services/pincode/PincodeDirectory.js'
+
+// Rebuilds data/pincodes.json from the India Post "All India Pincode
+// Directory" CSV published on data.gov.in:
+//
+//   npm run pincodes:import -- all_india_pincode.csv [--version 2026-10-01] [--out data/pincodes.json]
+//
+// A running server picks the new file up with POST /api/admin/pincodes/reload.
+
+const USAGE = 'Usage: npm run pincodes:import -- <csv file> [--version <version>] [--source <text>] [--out <path>]'
+
+const parseArgs = (args: string[]) => {
+  const options: Record<string, string> = {}
+  const files: string[] = []
+  for (let index = 0; index < args.length; index++) {
+    if (args[index].startsWith('--')) {
+      options[args[index].slice(2)] = args[++index] ?? ''
+    } else {
+      files.push(args[index])
+    }
+  }
+  return { file: files[0], options }
+}
+
+const main = () => {
+  const { file, options } = parseArgs(process.argv.slice(2))
+  if (!file) {
+    logger.error(USAGE)
+    process.exit(1)
+  }
+
+  const generatedAt = new Date().toISOString()
+  const { dataset, offices, skipped } = buildPincodeDataset(readFileSync(file, 'utf-8'), {
+    version: options.version || generatedAt.slice(0, 10),
+    source: options.source || 'India Post, All India Pincode Directory (data.gov.in)',
+    generatedAt,
+  })
+
+  const pincodes = Object.keys(dataset.pincodes).length
+  if (pincodes === 0) {
+    logger.error(`No pincodes found in ${file}; the existing directory was left unchanged`)
+    process.exit(1)
+  }
+
+  // Written next to the target and renamed, so a server reloading mid-write
+  // never reads half a file
+  const out = options.out || getPincodeDataPath()
+  writeFileSync(`${out}.tmp`, `${JSON.stringify(dataset, null, 2)}\n`)
+  renameSync(`${out}.tmp`, out)
+
+  logger.info(`Wrote ${pincodes} pincodes (${offices} post offices, ${skipped} rows skipped) ` +
+    `to ${out} as version ${dataset.version}`)
+}
+
+main()
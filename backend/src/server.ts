@@ -7,6 +7,13 @@ import rateLimit from 'express-rate-limit'
 import { errorHandler } from './middleware/errorHandler.js'
 import { logger } from './utils/logger.js'
 import routes from './routes/index.js'
+import { closeBrowserPool } from './services/retailers/BrowserPool.js'
+import { getRequestScheduler } from './services/retailers/RequestScheduler.js'
+import { getCircuitBreakers } from './services/retailers/CircuitBreaker.js'
+import { closeCacheStore } from './services/cache/CacheStore.js'
+import { getPincodeCache } from './services/cache/PincodeCache.js'
+import { PincodeService } from './services/PincodeService.js'
+import { getLlmProvider } from './services/llm/LlmProvider.js'
 
 // Load environment variables
 dotenv.config()
@@ -21,6 +28,8 @@ app.use(helmet())
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
+  // Set when personal details were removed from a query
+  exposedHeaders: ['X-Query-Guard', 'X-Query-Redacted'],
 }))
 
 // Rate limiting
@@ -50,6 +59,11 @@ app.get('/health', (req, res) => {
       status: 'healthy',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
+      // Outbound retailer request queues (only retailers that have been called)
+      requestQueues: getRequestScheduler().getStats(),
+      // closed = healthy, open = skipped until the next probe, half_open = probing
+      circuitBreakers: getCircuitBreakers().getStatuses(),
+      llm: { provider: getLlmProvider().name, model: getLlmProvider().model },
     },
   })
 })
@@ -73,23 +87,26 @@ const server = app.listen(PORT, () => {
   logger.info(`🚀 AI Retailer Bot Backend running on port ${PORT}`)
   logger.info(`📊 Health check available at http://localhost:${PORT}/health`)
   logger.info(`🔗 API endpoints available at http://localhost:${PORT}/api`)
+
+  // In the background; requests are served while the cache fills
+  new PincodeService().warmUp()
+    .catch(error => logger.warn('Pincode cache warm-up failed:', error))
 })
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully')
-  server.close(() => {
+const shutdown = (signal: string) => {
+  logger.info(`${signal} received, shutting down gracefully`)
+  server.close(async () => {
+    await closeBrowserPool()
+    // Before the store closes, so the next start warms the most-searched pincodes
+    await getPincodeCache().savePopular()
+    await closeCacheStore()
     logger.info('Process terminated')
     process.exit(0)
   })
-})
+}
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully')
-  server.close(() => {
-    logger.info('Process terminated')
-    process.exit(0)
-  })
-})
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
 
 export default app
\ No newline at end of file
@@ -1,17 +1,43 @@
 import { logger } from '../utils/logger.js'
+import { RetailerRegistry } from './retailers/RetailerRegistry.js'
+import { CircuitBreakerRegistry, getCircuitBreakers } from './retailers/CircuitBreaker.js'
+import { SearchResultCache } from './cache/SearchResultCache.js'
+import { MatchScorer, intentFromQuery } from './ranking/MatchScorer.js'
+import { HighlightCalculator } from './ranking/HighlightCalculator.js'
+import { LandedPriceCalculator } from './pricing/LandedPriceCalculator.js'
+import { normalizeBrand } from './matching/normalize.js'
+import { ServiceabilityMatrix } from './delivery/ServiceabilityMatrix.js'
 import type { 
   ProductQuery, 
   RetailerSearchResults, 
   Product, 
+  RetailerAdapter,
+  RetailerInsights,
   RetailerName,
   SearchResult 
 } from '../types/index.js'
 
 export class CrossRetailerEngine {
-  private readonly retailers: RetailerName[] = ['amazon', 'flipkart', 'myntra', 'meesho']
-  private readonly searchTimeout = 10000 // 10 seconds
-
-  async searchAllRetailers(query: ProductQuery): Promise<RetailerSearchResults> {
+  // Cache keys with a background refresh in flight
+  private readonly revalidating = new Set<string>()
+
+  constructor(
+    private readonly registry: RetailerRegistry = RetailerRegistry.fromConfigs(),
+    private readonly breakers: CircuitBreakerRegistry = getCircuitBreakers(),
+    private readonly cache: SearchResultCache = new SearchResultCache(),
+    private readonly scorer: MatchScorer = new MatchScorer(),
+    private readonly highlights: HighlightCalculator = new HighlightCalculator(),
+    private readonly pricing: LandedPriceCalculator = new LandedPriceCalculator(),
+    private readonly serviceability: ServiceabilityMatrix = new ServiceabilityMatrix()
+  ) {}
+
+  // onResult fires as soon as each enabled retailer finishes, so callers can
+  // stream partial results; the resolved value is the complete set, with
+  // highlights assigned across all retailers.
+  async searchAllRetailers(
+    query: ProductQuery,
+    onResult?: (retailer: RetailerName, result: SearchResult) => void
+  ): Promise<RetailerSearchResults> {
     logger.info(`Starting cross-retailer search for: "${query.description}"`)
 
     const results: RetailerSearchResults = {
@@ -21,57 +47,32 @@ export class CrossRetailerEngine {
       meesho: { status: 'loading', products: [] },
     }
 
-    // Create promises for parallel execution
-    const searchPromises = this.retailers.map(async (retailer) => {
-      try {
-        const products = await this.searchRetailer(retailer, query)
-        return { retailer, result: { status: 'success' as const, products } }
-      } catch (error) {
-        logger.error(`Error searching ${retailer}:`, error)
-        return { 
-          retailer, 
-          result: { 
-            status: 'error' as const, 
-            products: [], 
-            error: error instanceof Error ? error.message : 'Search failed' 
-          } 
-        }
+    // Disabled retailers are reported rather than left in the loading state
+    this.registry.getAll()
+      .filter(adapter => !adapter.config.enabled)
+      .forEach(adapter => {
+        results[adapter.name] = { status: 'error', products: [], error: 'Retailer is disabled' }
+      })
+
+    const selected = this.getEnabledRetailers().filter(retailer => {
+      if (query.retailers && !query.retailers.includes(retailer)) {
+        results[retailer] = { status: 'skipped', products: [] }
+        return false
       }
+      return true
     })
 
-    // Execute searches in parallel with timeout
-    try {
-      const searchResults = await Promise.allSettled(
-        searchPromises.map(promise => 
-          Promise.race([
-            promise,
-            new Promise((_, reject) => 
-              setTimeout(() => reject(new Error('Search timeout')), this.searchTimeout)
-            )
-          ])
-        )
-      )
-
-      // Process results
-      searchResults.forEach((result, index) => {
-        const retailer = this.retailers[index]
-        
-        if (result.status === 'fulfilled') {
-          const { result: searchResult } = result.value as { retailer: RetailerName, result: SearchResult }
-          results[retailer] = searchResult
-        } else {
-          logger.error(`Search failed for ${retailer}:`, result.reason)
-          results[retailer] = {
-            status: 'error',
-            products: [],
-            error: 'Search timeout or failed'
-          }
-        }
-      })
+    // Run searches in parallel, each bounded by its retailer's timeout;
+    // retailers that cannot deliver to the pincode are not searched
+    await Promise.all(selected.map(async (retailer) => {
+      const delivery = this.serviceability.check(retailer, query.pincode, query.category)
+      results[retailer] = delivery.serviceable
+        ? await this.searchWithCache(retailer, query)
+        : { status: 'not_deliverable', products: [], error: delivery.reason }
+      onResult?.(retailer, results[retailer])
+    }))
 
-    } catch (error) {
-      logger.error('Error in parallel search execution:', error)
-    }
+    const highlighted = this.highlights.apply(results)
 
     logger.info(`Cross-retailer search completed. Results: ${JSON.stringify(
       Object.fromEntries(
@@ -82,109 +83,124 @@ export class CrossRetailerEngine {
       )
     )}`)
 
-    return results
+    return highlighted
   }
 
   async searchRetailer(retailer: RetailerName, query: ProductQuery): Promise<Product[]> {
     logger.info(`Searching ${retailer} for: "${query.description}"`)
 
-    // For now, return mock data since actual scraping services will be implemented in later tasks
-    // This provides the foundation for the actual implementation
-    return this.getMockProducts(retailer, query)
+    const adapter = this.getAdapter(retailer)
+    // Fails fast while the retailer's circuit is open; retries transient errors
+    // while they can still finish within the search's time budget
+    const products = await this.breakers.get(retailer).execute(() => adapter.search(query), adapter.config.timeout)
+    return this.prepareProducts(products, query)
   }
 
-  async validateDelivery(pincode: string, retailer: RetailerName): Promise<boolean> {
+  async validateDelivery(pincode: string, retailer: RetailerName, category?: string): Promise<boolean> {
     logger.info(`Validating delivery for ${retailer} to pincode: ${pincode}`)
 
-    // Mock implementation - in real implementation, this would check retailer-specific delivery zones
-    // Most major retailers deliver to most Indian pincodes
-    const deliveryZones = {
-      amazon: ['110001', '400001', '560001', '600001', '700001'], // Major cities
-      flipkart: ['110001', '400001', '560001', '600001', '700001'],
-      myntra: ['110001', '400001', '560001', '600001'],
-      meesho: ['110001', '400001', '560001', '600001', '700001'],
-    }
-
-    // For demo purposes, assume delivery is available for major city pincodes
-    return deliveryZones[retailer]?.includes(pincode) || Math.random() > 0.2 // 80% delivery coverage
+    // Throws for a retailer that is not enabled
+    this.getAdapter(retailer)
+    return this.serviceability.check(retailer, pincode, category).serviceable
   }
 
-  private getMockProducts(retailer: RetailerName, query: ProductQuery): Product[] {
-    const baseProducts = [
-      {
-        name: `${query.description} - Premium Quality`,
-        brand: 'BrandA',
-        price: 2500,
-        originalPrice: 3000,
-        rating: 4.2,
-        reviewCount: 156,
-      },
-      {
-        name: `${query.description} - Best Value`,
-        brand: 'BrandB',
-        price: 1800,
-        rating: 4.0,
-        reviewCount: 89,
-      },
-      {
-        name: `${query.description} - Top Rated`,
-        brand: 'BrandC',
-        price: 3200,
-        originalPrice: 4000,
-        rating: 4.5,
-        reviewCount: 234,
-      },
-    ]
-
-    return baseProducts.map((product, index) => ({
-      id: `${retailer}-${Date.now()}-${index}`,
-      retailer,
-      name: product.name,
-      brand: product.brand,
-      price: product.price,
-      originalPrice: product.originalPrice,
-      currency: '₹',
-      image: `https://via.placeholder.com/300x300?text=${encodeURIComponent(product.name)}`,
-      description: `High-quality ${query.description} perfect for your needs`,
-      specifications: {
-        material: 'Premium',
-        warranty: '1 year',
-        origin: 'India',
-      },
-      availability: true,
-      deliveryInfo: {
-        available: true,
-        eta: this.getRandomDeliveryTime(),
-        cost: retailer === 'amazon' ? 0 : Math.floor(Math.random() * 100),
-      },
-      rating: product.rating,
-      reviewCount: product.reviewCount,
-      matchScore: Math.floor(Math.random() * 30) + 70, // 70-100% match
-      explanation: `Recommended because it matches your search for "${query.description}" and fits within your requirements.`,
-      highlights: this.generateHighlights(index),
-      retailerUrl: `https://${retailer}.com/product/${product.name.replace(/\s+/g, '-').toLowerCase()}`,
-      lastUpdated: new Date(),
-    }))
+  // Cheapest, fastest and widest-choice retailers for a finished search
+  getInsights(results: RetailerSearchResults): RetailerInsights {
+    return this.highlights.getInsights(results)
   }
 
-  private getRandomDeliveryTime(): string {
-    const options = ['1-2 days', '2-3 days', '3-5 days', '5-7 days', '1 week']
-    return options[Math.floor(Math.random() * options.length)]
+  getEnabledRetailers(): RetailerName[] {
+    return this.registry.getEnabled().map(adapter => adapter.name)
   }
 
-  private generateHighlights(index: number): Array<{ type: 'top_pick' | 'best_value' | 'fastest_delivery', reason: string }> {
-    const highlights = []
-    
-    if (index === 0) {
-      highlights.push({ type: 'top_pick' as const, reason: 'Highest rated with premium features' })
+  // Fresh cache hits are returned as-is; stale hits are returned immediately
+  // and refreshed in the background; misses run a live search.
+  private async searchWithCache(retailer: RetailerName, query: ProductQuery): Promise<SearchResult> {
+    const cached = await this.cache.get(this.getAdapter(retailer).config, query)
+
+    if (!cached) {
+      return this.searchAndCache(retailer, query)
     }
-    if (index === 1) {
-      highlights.push({ type: 'best_value' as const, reason: 'Great quality at affordable price' })
+
+    if (cached.stale) {
+      this.revalidate(retailer, query)
     }
-    if (index === 2) {
-      highlights.push({ type: 'fastest_delivery' as const, reason: 'Express delivery available' })
+
+    // Cache keys ignore the intent and payment details, so rank and price again for this request
+    return {
+      ...cached.result,
+      products: this.prepareProducts(cached.result.products, query),
+      cache: { hit: true, ageMs: cached.ageMs, stale: cached.stale },
     }
+  }
 
-    return highlights
+  // Match scores and landed prices for this query, in the requested order
+  private prepareProducts(products: Product[], query: ProductQuery): Product[] {
+    const excluded = new Set((query.filters?.excludeBrands ?? []).map(normalizeBrand))
+    const allowed = excluded.size > 0
+      ? products.filter(product => !excluded.has(normalizeBrand(product.brand)))
+      : products
+    const ranked = this.scorer.rank(allowed, intentFromQuery(query))
+    const priced = this.pricing.apply(ranked, {
+      pincode: query.pincode,
+      paymentMethod: query.paymentMethod,
+      bank: query.bank,
+    })
+    return query.sortBy === 'effective_price' ? this.pricing.sortByEffectivePrice(priced) : priced
+  }
+
+  private async searchAndCache(retailer: RetailerName, query: ProductQuery): Promise<SearchResult> {
+    const result = await this.searchWithTimeout(retailer, query)
+    await this.cache.set(this.getAdapter(retailer).config, query, result)
+
+    return { ...result, cache: { hit: false, ageMs: 0, stale: false } }
+  }
+
+  private revalidate(retailer: RetailerName, query: ProductQuery): void {
+    const key = SearchResultCache.buildKey(retailer, query)
+    if (this.revalidating.has(key)) {
+      return
+    }
+
+    this.revalidating.add(key)
+    logger.info(`Refreshing stale ${retailer} results for: "${query.description}"`)
+    this.searchAndCache(retailer, query)
+      .catch(error => logger.error(`Background refresh failed for ${retailer}:`, error))
+      .finally(() => this.revalidating.delete(key))
+  }
+
+  // config.timeout bounds each attempt; the search as a whole gets long enough
+  // for the circuit breaker's retries
+  private async searchWithTimeout(retailer: RetailerName, query: ProductQuery): Promise<SearchResult> {
+    const timeout = this.breakers.get(retailer).getTimeBudget(this.getAdapter(retailer).config.timeout)
+    let timer: NodeJS.Timeout | undefined
+
+    const search = this.searchRetailer(retailer, query)
+      .then(products => ({ status: 'success' as const, products }))
+      .catch((error): SearchResult => {
+        logger.error(`Error searching ${retailer}:`, error)
+        return {
+          status: 'error',
+          products: [],
+          error: error instanceof Error ? error.message : 'Search failed',
+        }
+      })
+
+    const timedOut = new Promise<SearchResult>(resolve => {
+      timer = setTimeout(() => {
+        logger.error(`Search timed out for ${retailer} after ${timeout}ms`)
+        resolve({ status: 'error', products: [], error: 'Search timeout or failed' })
+      }, timeout)
+    })
+
+    return Promise.race([search, timedOut]).finally(() => clearTimeout(timer))
+  }
+
+  private getAdapter(retailer: RetailerName): RetailerAdapter {
+    const adapter = this.registry.get(retailer)
+    if (!adapter || !adapter.config.enabled) {
+      throw new Error(`Retailer ${retailer} is not enabled`)
+    }
+    return adapter
   }
-}
\ No newline at end of file
+}
@@ -1,82 +1,64 @@
 import axios from 'axios'
 import { logger } from '../utils/logger.js'
-import type { PincodeValidationResult, RetailerName } from '../types/index.js'
+import { getPincodeDirectory, PincodeDirectory } from './pincode/PincodeDirectory.js'
+import { ServiceabilityMatrix } from './delivery/ServiceabilityMatrix.js'
+import { DeliveryEstimator } from './delivery/DeliveryEstimator.js'
+import { RETAILER_NAMES } from './retailers/retailerConfigs.js'
+import { getPincodeCache, PincodeCache } from './cache/PincodeCache.js'
+import type {
+  BulkPincodeDelivery,
+  DeliveryEstimate,
+  PincodeDeliveryInfo,
+  PincodeRecord,
+  PincodeSuggestion,
+  PincodeValidationResult,
+  RetailerDelivery,
+  RetailerName,
+} from '../types/index.js'
 
-export class PincodeService {
-  private readonly pincodeApiUrl = 'https://api.postalpincode.in/pincode'
-  private readonly cache = new Map<string, PincodeValidationResult>()
-  private readonly cacheTimeout = 24 * 60 * 60 * 1000 // 24 hours
+// What the postal API says about a pincode
+interface RemotePincode {
+  district: string
+  state: string
+  postOffices: string[]
+  deliverable: boolean
+}
 
-  async validatePincode(pincode: string): Promise<PincodeValidationResult> {
-    logger.info(`Validating pincode: ${pincode}`)
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase()
 
-    // Check cache first
-    const cacheKey = `pincode-${pincode}`
-    const cached = this.cache.get(cacheKey)
-    if (cached) {
-      logger.info(`Using cached result for pincode: ${pincode}`)
-      return cached
-    }
-
-    try {
-      // Validate format first
-      if (!/^\d{6}$/.test(pincode)) {
-        const result: PincodeValidationResult = {
-          valid: false,
-          error: 'Pincode must be a 6-digit number'
-        }
-        return result
-      }
-
-      // Call external API for validation
-      const response = await axios.get(`${this.pincodeApiUrl}/${pincode}`, {
-        timeout: 5000,
-      })
+export class PincodeService {
+  private readonly pincodeApiUrl = process.env.PINCODE_API_URL || 'https://api.postalpincode.in/pincode'
 
-      if (response.data && response.data[0]?.Status === 'Success') {
-        const postOffice = response.data[0].PostOffice[0]
-        const result: PincodeValidationResult = {
-          valid: true,
-          city: postOffice.District,
-          state: postOffice.State,
-        }
-
-        // Cache the result
-        this.cache.set(cacheKey, result)
-        setTimeout(() => this.cache.delete(cacheKey), this.cacheTimeout)
-
-        logger.info(`Pincode ${pincode} validated successfully: ${postOffice.District}, ${postOffice.State}`)
-        return result
-      } else {
-        const result: PincodeValidationResult = {
-          valid: false,
-          error: 'Invalid pincode or not found'
-        }
-        return result
-      }
+  constructor(
+    private readonly directory: PincodeDirectory = getPincodeDirectory(),
+    // PINCODE_REMOTE_CHECK=true asks the postal API too: to confirm local
+    // answers, and for pincodes the local directory does not have
+    private readonly remoteCheck: boolean = process.env.PINCODE_REMOTE_CHECK === 'true',
+    private readonly serviceability: ServiceabilityMatrix = new ServiceabilityMatrix(undefined, undefined, directory),
+    private readonly estimator: DeliveryEstimator = new DeliveryEstimator(undefined, undefined, serviceability, directory),
+    private readonly cache: PincodeCache = getPincodeCache()
+  ) {}
 
-    } catch (error) {
-      logger.error(`Error validating pincode ${pincode}:`, error)
-
-      // Fallback validation - basic format check
-      if (/^\d{6}$/.test(pincode)) {
-        const result: PincodeValidationResult = {
-          valid: true,
-          city: 'Unknown',
-          state: 'Unknown',
-        }
-        return result
-      }
+  async validatePincode(pincode: string): Promise<PincodeValidationResult> {
+    return this.validate(pincode, true)
+  }
 
-      const result: PincodeValidationResult = {
-        valid: false,
-        error: 'Unable to validate pincode at this time'
+  // Loads pincodes into the cache ahead of the first searches: by default the
+  // configured ones and the most searched. Returns how many were valid.
+  async warmUp(pincodes?: string[]): Promise<number> {
+    const list = pincodes ?? await this.cache.getWarmupPincodes()
+    let valid = 0
+    // One at a time, so a cold start does not flood the postal API
+    for (const pincode of list) {
+      if ((await this.validate(pincode, false)).valid) {
+        valid++
       }
-      return result
     }
+    logger.info(`Pincode cache warmed up with ${valid} of ${list.length} pincodes`)
+    return valid
   }
 
-  async getDeliveryInfo(pincode: string, retailer: RetailerName): Promise<any> {
+  async getDeliveryInfo(pincode: string, retailer: RetailerName, category?: string): Promise<PincodeDeliveryInfo> {
     logger.info(`Getting delivery info for ${retailer} to pincode: ${pincode}`)
 
     // First validate the pincode
@@ -85,80 +67,207 @@ export class PincodeService {
       throw new Error(validation.error || 'Invalid pincode')
     }
 
-    // Mock delivery information based on retailer and location
-    // In real implementation, this would integrate with retailer APIs
-    const deliveryInfo = {
-      available: true,
-      estimatedDays: this.getEstimatedDeliveryDays(retailer, pincode),
-      cost: this.getDeliveryCost(retailer, pincode),
-      options: this.getDeliveryOptions(retailer),
-      restrictions: this.getDeliveryRestrictions(retailer, pincode),
-    }
-
     return {
       pincode,
       retailer,
-      location: {
-        city: validation.city,
-        state: validation.state,
-      },
-      delivery: deliveryInfo,
+      location: { city: validation.city, state: validation.state },
+      delivery: this.getRetailerDelivery(pincode, retailer, validation, category),
     }
   }
 
-  private getEstimatedDeliveryDays(retailer: RetailerName, pincode: string): number {
-    // Mock logic based on retailer and location
-    const majorCityPincodes = ['110001', '400001', '560001', '600001', '700001']
-    const isMajorCity = majorCityPincodes.includes(pincode)
+  // Checks several pincodes, e.g. gift addresses, against each retailer in one
+  // go. Invalid pincodes are reported in place rather than failing the rest.
+  async getBulkDeliveryInfo(
+    pincodes: string[],
+    retailers: RetailerName[] = RETAILER_NAMES,
+    category?: string
+  ): Promise<BulkPincodeDelivery[]> {
+    logger.info(`Getting delivery info for ${pincodes.length} pincodes from ${retailers.join(', ')}`)
 
-    const deliveryTimes = {
-      amazon: isMajorCity ? 1 : 3,
-      flipkart: isMajorCity ? 2 : 4,
-      myntra: isMajorCity ? 2 : 5,
-      meesho: isMajorCity ? 3 : 7,
-    }
+    return Promise.all([...new Set(pincodes)].map(async (pincode): Promise<BulkPincodeDelivery> => {
+      const validation = await this.validatePincode(pincode)
+      if (!validation.valid) {
+        return { pincode, valid: false, error: validation.error || 'Invalid pincode' }
+      }
+
+      return {
+        pincode,
+        valid: true,
+        location: { city: validation.city, state: validation.state },
+        retailers: Object.fromEntries(retailers.map(retailer =>
+          [retailer, this.getRetailerDelivery(pincode, retailer, validation, category)])),
+      }
+    }))
+  }
 
-    return deliveryTimes[retailer] || 5
+  // Reverse lookup for pincode autocomplete
+  searchPincodes(query: string, limit?: number): PincodeSuggestion[] {
+    return this.directory.search(query, limit)
   }
 
-  private getDeliveryCost(retailer: RetailerName, pincode: string): number {
-    // Mock delivery cost logic
-    const majorCityPincodes = ['110001', '400001', '560001', '600001', '700001']
-    const isMajorCity = majorCityPincodes.includes(pincode)
+  // Standard delivery cost for the retailer at the pincode
+  getDeliveryCost(retailer: RetailerName, pincode: string): number {
+    return this.estimator.estimateStandard(retailer, pincode).cost
+  }
 
-    const baseCosts = {
-      amazon: 0, // Free delivery
-      flipkart: isMajorCity ? 0 : 40,
-      myntra: isMajorCity ? 0 : 50,
-      meesho: isMajorCity ? 30 : 60,
+  private getRetailerDelivery(
+    pincode: string,
+    retailer: RetailerName,
+    validation: PincodeValidationResult,
+    category?: string
+  ): RetailerDelivery {
+    const serviceability = this.serviceability.check(retailer, pincode, category)
+    const estimates = this.estimator.estimate(retailer, pincode)
+    const standard = this.estimator.estimateStandard(retailer, pincode)
+    const restrictions = this.getDeliveryRestrictions(retailer, estimates)
+    if (serviceability.reason) {
+      restrictions.unshift(serviceability.reason)
     }
 
-    return baseCosts[retailer] || 50
+    // Estimated from the retailer's hubs and delivery options; in a real
+    // implementation this would come from the retailer's APIs
+    return {
+      // Pincodes served only by non-delivery post offices get no doorstep delivery
+      available: validation.deliverable !== false && serviceability.serviceable,
+      zone: serviceability.zone,
+      estimatedDays: standard.maxDays,
+      window: standard.window,
+      orderBy: standard.orderBy,
+      cost: standard.cost,
+      options: estimates.filter(estimate => estimate.available).map(estimate => estimate.option),
+      estimates,
+      restrictions,
+    }
   }
 
-  private getDeliveryOptions(retailer: RetailerName): string[] {
-    const options = {
-      amazon: ['Standard', 'Prime', 'Same Day'],
-      flipkart: ['Standard', 'Express', 'Flipkart Plus'],
-      myntra: ['Standard', 'Express', 'Try & Buy'],
-      meesho: ['Standard', 'Express'],
+  // Warm-up lookups are not counted as searches, and only valid pincodes
+  // count towards the most searched
+  private async validate(pincode: string, counted: boolean): Promise<PincodeValidationResult> {
+    const result = await this.resolve(pincode, counted)
+    if (counted && result.valid) {
+      this.cache.countLookup(pincode)
     }
+    return result
+  }
+
+  private async resolve(pincode: string, counted: boolean): Promise<PincodeValidationResult> {
+    logger.info(`Validating pincode: ${pincode}`)
 
-    return options[retailer] || ['Standard']
+    // Validate format first
+    if (!/^\d{6}$/.test(pincode)) {
+      return {
+        valid: false,
+        error: 'Pincode must be a 6-digit number',
+      }
+    }
+
+    // Check cache first; unknown pincodes are cached too, for less time
+    const version = this.directory.version
+    const cached = await this.cache.get(pincode, version, counted)
+    if (cached) {
+      logger.info(`Using cached result for pincode: ${pincode}`)
+      return cached
+    }
+
+    const record = this.directory.lookup(pincode)
+    let result: PincodeValidationResult
+    if (record) {
+      result = this.fromRecord(record)
+      if (this.remoteCheck) {
+        result.crossCheck = await this.crossCheck(record)
+      }
+    } else if (this.remoteCheck) {
+      const remote = await this.fetchRemote(pincode).catch(error => {
+        logger.error(`Error validating pincode ${pincode} with the postal API:`, error)
+        return undefined
+      })
+      // Unavailable: not cached, so the next request asks again
+      if (remote === undefined) {
+        return { valid: false, error: 'Unable to validate pincode at this time' }
+      }
+      result = remote ? this.fromRemote(remote) : { valid: false, error: 'Invalid pincode or not found' }
+    } else {
+      result = { valid: false, error: 'Invalid pincode or not found' }
+    }
+
+    await this.cache.set(pincode, version, result)
+    if (result.valid) {
+      logger.info(`Pincode ${pincode} validated (${result.source}): ${result.district}, ${result.state}`)
+    }
+    return result
+  }
+
+  private fromRecord(record: PincodeRecord): PincodeValidationResult {
+    return {
+      valid: true,
+      city: record.district,
+      district: record.district,
+      state: record.state,
+      postOffices: record.offices.map(office => office.name),
+      deliverable: record.deliverable,
+      location: record.location,
+      source: 'local',
+      datasetVersion: this.directory.version ?? undefined,
+    }
   }
 
-  private getDeliveryRestrictions(retailer: RetailerName, pincode: string): string[] {
-    // Mock restrictions based on location and retailer
-    const restrictions: string[] = []
+  private fromRemote(remote: RemotePincode): PincodeValidationResult {
+    logger.warn(`Pincode directory ${this.directory.version ?? '(not loaded)'} is missing a pincode the postal API knows; ` +
+      'consider refreshing it')
+    return {
+      valid: true,
+      city: remote.district,
+      district: remote.district,
+      state: remote.state,
+      postOffices: remote.postOffices,
+      deliverable: remote.deliverable,
+      location: null,
+      source: 'remote',
+    }
+  }
 
-    // Remote area restrictions
-    if (!['110001', '400001', '560001', '600001', '700001'].includes(pincode)) {
-      restrictions.push('No same-day delivery')
-      
-      if (retailer === 'myntra') {
-        restrictions.push('Try & Buy not available')
+  // The local answer is kept either way; a mismatch means the directory or
+  // the API is out of date
+  private async crossCheck(record: PincodeRecord): Promise<PincodeValidationResult['crossCheck']> {
+    try {
+      const remote = await this.fetchRemote(record.pincode)
+      if (remote && sameName(remote.state, record.state) && sameName(remote.district, record.district)) {
+        return 'match'
       }
+      logger.warn(`Postal API disagrees on pincode ${record.pincode}: local ${record.district}, ${record.state}; ` +
+        `remote ${remote ? `${remote.district}, ${remote.state}` : 'not found'}`)
+      return 'mismatch'
+    } catch (error) {
+      logger.warn(`Postal API cross-check failed for pincode ${record.pincode}:`, error)
+      return 'unavailable'
+    }
+  }
+
+  // null when the API does not know the pincode; throws when it cannot be reached
+  private async fetchRemote(pincode: string): Promise<RemotePincode | null> {
+    const response = await axios.get(`${this.pincodeApiUrl}/${pincode}`, {
+      timeout: 5000,
+    })
+
+    const entry = response.data?.[0]
+    if (entry?.Status !== 'Success' || !Array.isArray(entry.PostOffice) || entry.PostOffice.length === 0) {
+      return null
+    }
+
+    const offices: Array<{ Name: string; District: string; State: string; DeliveryStatus?: string }> = entry.PostOffice
+    return {
+      district: offices[0].District,
+      state: offices[0].State,
+      postOffices: offices.map(office => office.Name),
+      deliverable: offices.some(office => !/^non/i.test(office.DeliveryStatus ?? 'Delivery')),
     }
+  }
+
+  private getDeliveryRestrictions(retailer: RetailerName, estimates: DeliveryEstimate[]): string[] {
+    // Options not offered at this pincode, and why
+    const restrictions = estimates
+      .filter(estimate => !estimate.available && estimate.reason)
+      .map(estimate => estimate.reason as string)
 
     // Retailer-specific restrictions
     if (retailer === 'meesho') {
@@ -167,4 +276,4 @@ export class PincodeService {
 
     return restrictions
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,306 @@
+import { CrossRetailerEngine } from '../CrossRetailerEngine.js'
+import { RetailerRegistry } from '../retailers/RetailerRegistry.js'
+import { CircuitBreakerRegistry } from '../retailers/CircuitBreaker.js'
+import { MemoryCacheStore } from '../cache/CacheStore.js'
+import { SearchResultCache } from '../cache/SearchResultCache.js'
+import { getRetailerConfigs } from '../retailers/retailerConfigs.js'
+import type {
+  DeliveryInfo,
+  Product,
+  ProductQuery,
+  RetailerAdapter,
+  RetailerConfig,
+} from '../../types/index.js'
+
+const query: ProductQuery = {
+  description: 'running shoes',
+  pincode: '110001',
+  confidence: 1,
+}
+
+const product = (id: string, brand: string): Product => ({
+  id,
+  retailer: 'amazon',
+  name: `Running shoes ${id}`,
+  brand,
+  price: 2000,
+  currency: '₹',
+  image: '',
+  description: '',
+  specifications: {},
+  availability: true,
+  deliveryInfo: { available: true, eta: '3-5 days', cost: 0 },
+  rating: 4,
+  reviewCount: 100,
+  matchScore: 0,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+})
+
+class StubAdapter implements RetailerAdapter {
+  constructor(
+    readonly config: RetailerConfig,
+    private readonly behaviour: { products?: Product[]; error?: Error; available?: boolean } = {}
+  ) {}
+
+  get name() {
+    return this.config.name
+  }
+
+  async search(): Promise<Product[]> {
+    if (this.behaviour.error) {
+      throw this.behaviour.error
+    }
+    return this.behaviour.products ?? []
+  }
+
+  async getProduct(): Promise<Product | null> {
+    return null
+  }
+
+  async checkDelivery(): Promise<DeliveryInfo> {
+    return { available: this.behaviour.available ?? true, eta: '2-3 days', cost: 0 }
+  }
+}
+
+const configFor = (name: RetailerConfig['name'], overrides: Partial<RetailerConfig> = {}) => ({
+  ...getRetailerConfigs().find(config => config.name === name)!,
+  ...overrides,
+})
+
+// Fresh breakers and cache per engine so tests never see each other's state
+const createEngine = (
+  registry: RetailerRegistry,
+  breakers = new CircuitBreakerRegistry(),
+  cache = new SearchResultCache(new MemoryCacheStore())
+) => new CrossRetailerEngine(registry, breakers, cache)
+
+const liveResult = { hit: false, ageMs: 0, stale: false }
+
+describe('CrossRetailerEngine', () => {
+  it('fans out over the enabled adapters only', async () => {
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon')),
+      new StubAdapter(configFor('flipkart')),
+      new StubAdapter(configFor('myntra', { enabled: false })),
+      new StubAdapter(configFor('meesho')),
+    ])
+    const amazonSearch = jest.spyOn(registry.get('amazon')!, 'search')
+    const myntraSearch = jest.spyOn(registry.get('myntra')!, 'search')
+
+    const engine = createEngine(registry)
+    const results = await engine.searchAllRetailers(query)
+
+    expect(amazonSearch).toHaveBeenCalledWith(query)
+    expect(myntraSearch).not.toHaveBeenCalled()
+    expect(results.amazon.status).toBe('success')
+    expect(results.myntra).toEqual({ status: 'error', products: [], error: 'Retailer is disabled' })
+  })
+
+  it('searches only the retailers the query asks for', async () => {
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon')),
+      new StubAdapter(configFor('flipkart')),
+      new StubAdapter(configFor('myntra')),
+      new StubAdapter(configFor('meesho')),
+    ])
+    const flipkartSearch = jest.spyOn(registry.get('flipkart')!, 'search')
+
+    const results = await createEngine(registry).searchAllRetailers({ ...query, retailers: ['amazon', 'myntra'] })
+
+    expect(flipkartSearch).not.toHaveBeenCalled()
+    expect(results.flipkart).toEqual({ status: 'skipped', products: [] })
+    expect(results.meesho).toEqual({ status: 'skipped', products: [] })
+    expect(results.amazon.status).toBe('success')
+  })
+
+  it('drops products from excluded brands', async () => {
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon'), { products: [product('a1', 'Nike'), product('a2', 'Puma')] }),
+    ])
+
+    const results = await createEngine(registry).searchAllRetailers({
+      ...query,
+      filters: { excludeBrands: ['nike'] },
+    })
+
+    expect(results.amazon.products.map(item => item.brand)).toEqual(['Puma'])
+  })
+
+  it('isolates a failing adapter from the others', async () => {
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon'), { error: new Error('Blocked') }),
+      new StubAdapter(configFor('flipkart')),
+      new StubAdapter(configFor('myntra')),
+      new StubAdapter(configFor('meesho')),
+    ])
+
+    const results = await createEngine(registry).searchAllRetailers(query)
+
+    expect(results.amazon).toEqual({ status: 'error', products: [], error: 'Blocked', cache: liveResult })
+    expect(results.flipkart.status).toBe('success')
+  })
+
+  it('reports each retailer as soon as it finishes', async () => {
+    const slow = new StubAdapter(configFor('flipkart'))
+    jest.spyOn(slow, 'search').mockImplementation(() => new Promise(resolve => setTimeout(() => resolve([]), 20)))
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon')),
+      slow,
+      new StubAdapter(configFor('myntra', { enabled: false })),
+    ])
+    const onResult = jest.fn()
+
+    const results = await createEngine(registry).searchAllRetailers(query, onResult)
+
+    expect(onResult.mock.calls.map(([retailer]) => retailer)).toEqual(['amazon', 'flipkart'])
+    expect(onResult).toHaveBeenCalledWith('flipkart', results.flipkart)
+  })
+
+  it('times out a retailer using its own configured timeout', async () => {
+    const slow = new StubAdapter(configFor('myntra', { timeout: 50 }))
+    jest.spyOn(slow, 'search').mockImplementation(() => new Promise(() => undefined))
+    const registry = new RetailerRegistry([
+      new StubAdapter(configFor('amazon')),
+      slow,
+    ])
+
+    // Without retries the search's time budget is the one attempt
+    const breakers = new CircuitBreakerRegistry({ failureThreshold: 2, resetTimeout: 60000, maxRetries: 0, baseDelay: 0, maxDelay: 0 })
+
+    const results = await createEngine(registry, breakers).searchAllRetailers(query)
+
+    expect(results.amazon.status).toBe('success')
+    expect(results.myntra).toEqual({ status: 'error', products: [], error: 'Search timeout or failed', cache: liveResult })
+  })
+
+  it('gives a retried search long enough for its retries', async () => {
+    const flaky = new StubAdapter(configFor('myntra', { timeout: 50 }))
+    jest.spyOn(flaky, 'search')
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValue([])
+    // The backoff alone outlasts one attempt's timeout
+    const breakers = new CircuitBreakerRegistry({ failureThreshold: 2, resetTimeout: 60000, maxRetries: 1, baseDelay: 80, maxDelay: 80 })
+
+    const results = await createEngine(new RetailerRegistry([flaky]), breakers).searchAllRetailers(query)
+
+    expect(results.myntra.status).toBe('success')
+  })
+
+  it('skips a retailer whose circuit is open', async () => {
+    const failing = new StubAdapter(configFor('amazon'), { error: new Error('Blocked') })
+    const search = jest.spyOn(failing, 'search')
+    const engine = createEngine(
+      new RetailerRegistry([failing]),
+      new CircuitBreakerRegistry({ failureThreshold: 2, resetTimeout: 60000, maxRetries: 0, baseDelay: 0, maxDelay: 0 })
+    )
+
+    await engine.searchAllRetailers(query)
+    await engine.searchAllRetailers(query)
+    const results = await engine.searchAllRetailers(query)
+
+    expect(search).toHaveBeenCalledTimes(2)
+    expect(results.amazon).toEqual({ status: 'error', products: [], error: 'amazon is temporarily unavailable', cache: liveResult })
+  })
+
+  it('serves repeated queries from the cache and reports their age', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T10:00:00Z') })
+    try {
+      const adapter = new StubAdapter(configFor('amazon', { cacheTtl: 60000 }), { products: [] })
+      const search = jest.spyOn(adapter, 'search')
+      const engine = createEngine(new RetailerRegistry([adapter]))
+
+      await engine.searchAllRetailers(query)
+      jest.setSystemTime(new Date('2024-01-01T10:00:30Z'))
+      const results = await engine.searchAllRetailers({ ...query, description: '  Running   SHOES ' })
+
+      expect(search).toHaveBeenCalledTimes(1)
+      expect(results.amazon.cache).toEqual({ hit: true, ageMs: 30000, stale: false })
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('returns stale results immediately and refreshes them in the background', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T10:00:00Z') })
+    try {
+      const adapter = new StubAdapter(configFor('flipkart', { cacheTtl: 60000 }), { products: [] })
+      const search = jest.spyOn(adapter, 'search')
+      const engine = createEngine(new RetailerRegistry([adapter]))
+
+      await engine.searchAllRetailers(query)
+      jest.setSystemTime(new Date('2024-01-01T10:02:00Z'))
+      const stale = await engine.searchAllRetailers(query)
+      await new Promise(resolve => jest.requireActual('timers').setImmediate(resolve))
+      const refreshed = await engine.searchAllRetailers(query)
+
+      expect(stale.flipkart.cache).toEqual({ hit: true, ageMs: 120000, stale: true })
+      expect(search).toHaveBeenCalledTimes(2)
+      expect(refreshed.flipkart.cache).toEqual({ hit: true, ageMs: 0, stale: false })
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('does not cache failed searches', async () => {
+    const adapter = new StubAdapter(configFor('amazon'), { error: new Error('Blocked') })
+    const search = jest.spyOn(adapter, 'search')
+    const engine = createEngine(new RetailerRegistry([adapter]))
+
+    await engine.searchAllRetailers(query)
+    await engine.searchAllRetailers(query)
+
+    expect(search).toHaveBeenCalledTimes(2)
+  })
+
+  it('checks delivery against the serviceability matrix, the same way every time', async () => {
+    const engine = createEngine(new RetailerRegistry([new StubAdapter(configFor('meesho'), { available: false })]))
+
+    await expect(engine.validateDelivery('110001', 'meesho')).resolves.toBe(true)
+    await expect(engine.validateDelivery('110001', 'meesho')).resolves.toBe(true)
+    await expect(engine.validateDelivery('682555', 'meesho')).resolves.toBe(false)
+    await expect(engine.validateDelivery('110001', 'meesho', 'electronics.large-appliances')).resolves.toBe(false)
+  })
+
+  it('reports retailers that cannot deliver to the pincode as not deliverable without searching them', async () => {
+    const search = jest.fn().mockResolvedValue([product('a1', 'Nike')])
+    const amazon = new StubAdapter(configFor('amazon'))
+    const myntra = new StubAdapter(configFor('myntra'))
+    myntra.search = search
+    const engine = createEngine(new RetailerRegistry([amazon, myntra]))
+
+    const results = await engine.searchAllRetailers({ ...query, pincode: '744101' })
+
+    expect(results.myntra).toEqual({
+      status: 'not_deliverable',
+      products: [],
+      error: 'Does not deliver to Andaman and Nicobar Islands',
+    })
+    expect(results.amazon.status).toBe('success')
+    expect(search).not.toHaveBeenCalled()
+  })
+
+  it('applies category limits to the query\'s category', async () => {
+    const engine = createEngine(new RetailerRegistry([new StubAdapter(configFor('amazon'))]))
+
+    const results = await engine.searchAllRetailers({
+      ...query,
+      description: 'double door fridge',
+      pincode: '744101',
+      category: 'electronics.large-appliances',
+    })
+
+    expect(results.amazon).toMatchObject({
+      status: 'not_deliverable',
+      error: 'Large appliances are not delivered to remote areas',
+    })
+  })
+
+  it('rejects searches for retailers without an enabled adapter', async () => {
+    const engine = createEngine(new RetailerRegistry([]))
+
+    await expect(engine.searchRetailer('amazon', query)).rejects.toThrow('Retailer amazon is not enabled')
+  })
+})
@@ -1,4 +1,9 @@
 import { IntentParserService } from '../IntentParserService.js'
+import { OpenAIProvider } from '../llm/OpenAIProvider.js'
+import { getLlmConfig } from '../llm/LlmProvider.js'
+import { LlmUsageTracker } from '../llm/LlmUsageTracker.js'
+import { IntentCache } from '../cache/IntentCache.js'
+import { MemoryCacheStore } from '../cache/CacheStore.js'
 
 // Mock OpenAI
 jest.mock('openai', () => ({
@@ -15,13 +20,26 @@ jest.mock('openai', () => ({
 describe('IntentParserService', () => {
   let service: IntentParserService
   let mockOpenAI: any
+  let provider: OpenAIProvider
+  let tracker: LlmUsageTracker
+
+  const noUsage = { calls: 1, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
 
   beforeEach(() => {
     // Set up environment variable
     process.env.OPENAI_API_KEY = 'test-key'
     
-    service = new IntentParserService()
-    mockOpenAI = (service as any).openai
+    // A fresh cache and spend total per test, so no test sees another's queries
+    provider = new OpenAIProvider(getLlmConfig())
+    tracker = new LlmUsageTracker({ promptPer1K: 0.03, completionPer1K: 0.06 }, null)
+    service = new IntentParserService(
+      provider,
+      undefined,
+      undefined,
+      new IntentCache(new MemoryCacheStore()),
+      tracker
+    )
+    mockOpenAI = (service as any).provider.client
   })
 
   afterEach(() => {
@@ -48,12 +66,17 @@ describe('IntentParserService', () => {
 
       const result = await service.parseQuery('Running shoes under ₹3000 for daily jogging')
 
+      // A null brand is normalised away
       expect(result).toEqual({
         productType: 'running shoes',
         budget: { min: 0, max: 3000 },
         features: ['running', 'daily jogging'],
-        brand: null,
-        specifications: {}
+        specifications: {},
+        category: {
+          id: 'fashion.footwear.running-shoes',
+          name: 'Running Shoes',
+          path: ['Fashion', 'Footwear', 'Running Shoes'],
+        },
       })
 
       expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith({
@@ -74,7 +97,7 @@ describe('IntentParserService', () => {
 
       // Should use fallback parsing
       expect(result.productType).toBe('shoes')
-      expect(result.budget).toEqual({ min: 0, max: 3000 })
+      expect(result.budget).toEqual({ min: 0, max: 3000, confidence: 0.9 })
       expect(result.features).toContain('running')
     })
 
@@ -97,6 +120,177 @@ describe('IntentParserService', () => {
     })
   })
 
+  describe('structured output', () => {
+    const reply = (content: string) => ({ choices: [{ message: { content } }] })
+
+    it('accepts fenced JSON and coerces loose types', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply(
+        '```json\n{"productType": "kurta", "budget": {"min": "", "max": "1.5k"}, "features": "cotton", "brand": "null"}\n```'
+      ))
+
+      const result = await service.parse('cotton kurta under 1.5k')
+
+      expect(result).toEqual({
+        source: 'model',
+        intent: {
+          productType: 'kurta',
+          budget: { min: 0, max: 1500 },
+          features: ['cotton'],
+          specifications: {},
+          category: expect.objectContaining({ id: 'fashion.clothing.ethnic.kurtas' }),
+        },
+        confidence: 1,
+        questions: [],
+        cached: false,
+        usage: noUsage,
+      })
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('asks the model to repair an invalid answer once', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(reply('{"budget": "cheap"}'))
+        .mockResolvedValueOnce(reply('{"productType": "watch", "budget": null, "features": []}'))
+
+      const result = await service.parse('a cheap watch')
+
+      expect(result).toEqual({
+        source: 'repair',
+        intent: {
+          productType: 'watch',
+          budget: null,
+          features: [],
+          specifications: {},
+          category: expect.objectContaining({ id: 'fashion.accessories.watches' }),
+        },
+        confidence: 0.55,
+        questions: [],
+        cached: false,
+        usage: { ...noUsage, calls: 2 },
+      })
+      const repairMessages = mockOpenAI.chat.completions.create.mock.calls[1][0].messages
+      expect(repairMessages.slice(-2)).toEqual([
+        { role: 'assistant', content: '{"budget": "cheap"}' },
+        expect.objectContaining({ role: 'user', content: expect.stringContaining('productType: expected a non-empty string') }),
+      ])
+    })
+
+    it('falls back to rules when the repair is invalid too', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply('not json'))
+
+      const result = await service.parse('gaming laptop')
+
+      expect(result.source).toBe('fallback')
+      expect(result.intent.productType).toBe('laptop')
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2)
+    })
+
+    it('asks clarifying questions instead of guessing at a vague query', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply('{"productType": "gift", "budget": null, "features": []}'))
+
+      const result = await service.parse('something for my dad')
+
+      expect(result.confidence).toBe(0)
+      expect(result.questions.map(question => question.field)).toEqual(['category', 'budget', 'occasion'])
+      expect(result.questions[0].options.map(option => option.value)).toEqual(['watch', 'shirt', 'wallet', 'shoes'])
+    })
+
+    it('maps the intent to a category and its specifications to the category schema', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply(
+        '{"productType": "smartphone", "budget": null, "features": ["5g"], "specifications": {"memory": "8 gb", "camera": "good"}}'
+      ))
+
+      const { intent } = await service.parse('5g smartphone with 8 gb memory')
+
+      expect(intent.category).toEqual({
+        id: 'electronics.mobiles',
+        name: 'Mobile Phones',
+        path: ['Electronics', 'Mobile Phones'],
+      })
+      expect(intent.specifications).toEqual({ ram: '8GB', camera: 'good' })
+    })
+
+    it('reports the source for entity extraction', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply(
+        'Here you go: {"productType": "phone", "brand": "Apple", "features": [], "specifications": {"storage": 128}, "budget": "80000"}'
+      ))
+
+      await expect(service.extract('iphone 128gb')).resolves.toEqual({
+        source: 'model',
+        entities: {
+          productType: 'phone',
+          brand: 'Apple',
+          features: [],
+          specifications: { storage: '128' },
+          budget: { min: 0, max: 80000 },
+        },
+        usage: noUsage,
+      })
+    })
+  })
+
+  describe('cache and spend tracking', () => {
+    const reply = (content: string, promptTokens = 0, completionTokens = 0) => ({
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    })
+    const watch = '{"productType": "watch", "budget": null, "features": []}'
+
+    it('answers a repeated query from the cache without calling the model', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply(watch, 400, 50))
+
+      const first = await service.parse('Analog watch')
+      const second = await service.parse('  analog   WATCH? ')
+
+      expect(first).toMatchObject({ cached: false, source: 'model' })
+      expect(second).toEqual({ ...first, cached: true, usage: { ...noUsage, calls: 0 } })
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1)
+      expect(tracker.getSummary().today).toMatchObject({ calls: 1, cacheHits: 1 })
+    })
+
+    it('does not cache intents from the rule-based fallback', async () => {
+      mockOpenAI.chat.completions.create
+        .mockRejectedValueOnce(new Error('API Error'))
+        .mockResolvedValueOnce(reply(watch))
+
+      await expect(service.parse('analog watch')).resolves.toMatchObject({ source: 'fallback', cached: false })
+      await expect(service.parse('analog watch')).resolves.toMatchObject({ source: 'model', cached: false })
+    })
+
+    it('adds up the tokens and cost of a repaired answer', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(reply('{"budget": "cheap"}', 1000, 100))
+        .mockResolvedValueOnce(reply(watch, 1200, 50))
+
+      const result = await service.parse('a cheap watch')
+
+      expect(result.usage).toEqual({ calls: 2, promptTokens: 2200, completionTokens: 150, totalTokens: 2350, cost: 0.075 })
+      expect(tracker.getSummary().recent.map(record => record.cost)).toEqual([0.039, 0.036])
+    })
+
+    it('switches to rule-based parsing once the daily cap is spent', async () => {
+      tracker = new LlmUsageTracker({ promptPer1K: 0.03, completionPer1K: 0.06 }, 0.05)
+      service = new IntentParserService(
+        provider,
+        undefined,
+        undefined,
+        new IntentCache(new MemoryCacheStore()),
+        tracker
+      )
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply(watch, 2000, 0))
+
+      await service.parse('analog watch')
+      const capped = await service.parse('laptop under 50000')
+      const entities = await service.extract('laptop under 50000')
+
+      expect(capped).toMatchObject({ source: 'fallback', cached: false, usage: { calls: 0 } })
+      expect(capped.intent.productType).toBe('laptop')
+      expect(entities).toMatchObject({ source: 'fallback', entities: { productType: 'laptop', brand: null } })
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1)
+      expect(tracker.getSummary()).toMatchObject({ capReached: true, today: { cost: 0.06, cappedRequests: 2 } })
+    })
+  })
+
   describe('extractEntities', () => {
     it('should extract entities from text', async () => {
       const mockResponse = {
@@ -149,7 +343,7 @@ describe('IntentParserService', () => {
       const result = await service.parseQuery('laptop under ₹50000')
 
       expect(result.productType).toBe('laptop')
-      expect(result.budget).toEqual({ min: 0, max: 50000 })
+      expect(result.budget).toEqual({ min: 0, max: 50000, confidence: 0.9 })
     })
 
     it('should handle queries without budget', async () => {
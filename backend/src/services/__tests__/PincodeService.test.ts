@@ -0,0 +1,222 @@
+import axios from 'axios'
+import { PincodeService } from '../PincodeService.js'
+import { PincodeDirectory } from '../pincode/PincodeDirectory.js'
+import { PincodeCache, getPincodeCacheOptions } from '../cache/PincodeCache.js'
+import type { PincodeDataset } from '../../types/index.js'
+
+jest.mock('axios')
+const mockedGet = axios.get as jest.Mock
+
+const dataset: PincodeDataset = {
+  version: '2026-10-01',
+  source: 'test',
+  generatedAt: '2026-10-01T00:00:00.000Z',
+  pincodes: {
+    110001: {
+      district: 'New Delhi',
+      state: 'Delhi',
+      offices: [
+        { name: 'New Delhi G.P.O.', type: 'HO', delivery: true, location: { lat: 28.6358, lng: 77.2245 } },
+        { name: 'Parliament House SO', type: 'SO', delivery: false, location: null },
+      ],
+      deliverable: true,
+      location: { lat: 28.6358, lng: 77.2245 },
+    },
+    400038: {
+      district: 'Mumbai',
+      state: 'Maharashtra',
+      offices: [{ name: 'Mumbai Port Trust SO', type: 'SO', delivery: false, location: null }],
+      deliverable: false,
+      location: null,
+    },
+  },
+}
+
+const postalApiReply = (district: string, state: string) => ({
+  data: [{
+    Status: 'Success',
+    PostOffice: [{ Name: 'Andheri', District: district, State: state, DeliveryStatus: 'Delivery' }],
+  }],
+})
+
+const createService = (remoteCheck = false, cache = new PincodeCache(null)) =>
+  new PincodeService(new PincodeDirectory(() => dataset), remoteCheck, undefined, undefined, cache)
+
+describe('PincodeService.validatePincode', () => {
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('answers from the local directory without calling the postal API', async () => {
+    await expect(createService().validatePincode('110001')).resolves.toEqual({
+      valid: true,
+      city: 'New Delhi',
+      district: 'New Delhi',
+      state: 'Delhi',
+      postOffices: ['New Delhi G.P.O.', 'Parliament House SO'],
+      deliverable: true,
+      location: { lat: 28.6358, lng: 77.2245 },
+      source: 'local',
+      datasetVersion: '2026-10-01',
+    })
+    expect(mockedGet).not.toHaveBeenCalled()
+  })
+
+  it('rejects pincodes that are not in the directory, such as 000000', async () => {
+    const service = createService()
+
+    await expect(service.validatePincode('000000')).resolves.toEqual({ valid: false, error: 'Invalid pincode or not found' })
+    await expect(service.validatePincode('12345')).resolves.toEqual({ valid: false, error: 'Pincode must be a 6-digit number' })
+    expect(mockedGet).not.toHaveBeenCalled()
+  })
+
+  it('reports pincodes served only by non-delivery offices', async () => {
+    await expect(createService().validatePincode('400038')).resolves.toMatchObject({ valid: true, deliverable: false })
+  })
+
+  describe('with the postal API cross-check', () => {
+    it('confirms a local answer', async () => {
+      mockedGet.mockResolvedValue(postalApiReply('New Delhi', 'DELHI'))
+
+      await expect(createService(true).validatePincode('110001')).resolves.toMatchObject({
+        source: 'local',
+        district: 'New Delhi',
+        crossCheck: 'match',
+      })
+    })
+
+    it('keeps the local answer when the API disagrees or is down', async () => {
+      mockedGet.mockResolvedValueOnce(postalApiReply('Central Delhi', 'Delhi'))
+      mockedGet.mockRejectedValueOnce(new Error('timeout'))
+
+      await expect(createService(true).validatePincode('110001')).resolves.toMatchObject({
+        district: 'New Delhi',
+        crossCheck: 'mismatch',
+      })
+      await expect(createService(true).validatePincode('110001')).resolves.toMatchObject({
+        valid: true,
+        crossCheck: 'unavailable',
+      })
+    })
+
+    it('takes pincodes missing from the directory from the API', async () => {
+      mockedGet.mockResolvedValue(postalApiReply('Mumbai', 'Maharashtra'))
+
+      await expect(createService(true).validatePincode('400053')).resolves.toEqual({
+        valid: true,
+        city: 'Mumbai',
+        district: 'Mumbai',
+        state: 'Maharashtra',
+        postOffices: ['Andheri'],
+        deliverable: true,
+        location: null,
+        source: 'remote',
+      })
+    })
+
+    it('never accepts an unknown pincode because the API is down', async () => {
+      mockedGet.mockRejectedValueOnce(new Error('timeout'))
+      mockedGet.mockResolvedValueOnce({ data: [{ Status: 'Error', PostOffice: null }] })
+      const service = createService(true)
+
+      await expect(service.validatePincode('000000')).resolves.toEqual({
+        valid: false,
+        error: 'Unable to validate pincode at this time',
+      })
+      // The failure is not cached, so the next request asks again
+      await expect(service.validatePincode('000000')).resolves.toEqual({
+        valid: false,
+        error: 'Invalid pincode or not found',
+      })
+    })
+  })
+
+  describe('caching', () => {
+    it('answers repeat lookups, including unknown pincodes, from the cache', async () => {
+      mockedGet.mockResolvedValue({ data: [{ Status: 'Error', PostOffice: null }] })
+      const cache = new PincodeCache(null)
+      const service = createService(true, cache)
+
+      await service.validatePincode('110001')
+      await service.validatePincode('110001')
+      await service.validatePincode('999999')
+      await expect(service.validatePincode('999999')).resolves.toEqual({
+        valid: false,
+        error: 'Invalid pincode or not found',
+      })
+
+      // One cross-check for 110001 and one lookup for 999999
+      expect(mockedGet).toHaveBeenCalledTimes(2)
+      expect(cache.getMetrics()).toMatchObject({ hits: 2, negativeHits: 1, misses: 2, writes: 2 })
+    })
+
+    it('warms the cache with the given pincodes', async () => {
+      const cache = new PincodeCache(null, { ...getPincodeCacheOptions(), warmup: ['110001', '999999'] })
+      const service = createService(false, cache)
+
+      await expect(service.warmUp()).resolves.toBe(1)
+      await service.validatePincode('110001')
+
+      // Warm-up lookups are not searches
+      expect(cache.getMetrics()).toMatchObject({ hits: 1, misses: 0, writes: 2, topPincodes: [{ pincode: '110001', lookups: 1 }] })
+    })
+
+    it('counts only valid pincodes towards the most searched', async () => {
+      const cache = new PincodeCache(null, getPincodeCacheOptions())
+      const service = createService(false, cache)
+
+      await service.validatePincode('110001')
+      await service.validatePincode('999999')
+      await service.validatePincode('999999')
+
+      expect(cache.getMetrics().topPincodes).toEqual([{ pincode: '110001', lookups: 1 }])
+    })
+  })
+})
+
+describe('PincodeService.getDeliveryInfo', () => {
+  it('marks pincodes without a delivery office as unavailable', async () => {
+    const info = await createService().getDeliveryInfo('400038', 'amazon')
+
+    expect(info.delivery.available).toBe(false)
+    expect(info.location).toEqual({ city: 'Mumbai', state: 'Maharashtra' })
+  })
+
+  it('marks retailers that do not serve the pincode or category as unavailable, with the reason', async () => {
+    const info = await createService().getDeliveryInfo('110001', 'meesho', 'electronics.large-appliances')
+
+    expect(info.delivery).toMatchObject({ available: false, zone: 'metro' })
+    expect(info.delivery.restrictions[0]).toBe('Large appliances are not sold')
+  })
+
+  it('estimates dates and cost for each of the retailer\'s delivery options', async () => {
+    const info = await createService().getDeliveryInfo('110001', 'amazon')
+
+    expect(info.delivery.options).toEqual(['Standard', 'Prime', 'Same Day'])
+    expect(info.delivery.estimates).toHaveLength(3)
+    expect(info.delivery.window).toEqual(info.delivery.estimates[0].window)
+    expect(info.delivery.estimatedDays).toBe(info.delivery.estimates[0].maxDays)
+    expect(info.delivery.cost).toBe(0)
+  })
+})
+
+describe('PincodeService.getBulkDeliveryInfo', () => {
+  it('checks each pincode once against every retailer, reporting invalid ones in place', async () => {
+    const results = await createService().getBulkDeliveryInfo(['110001', '12345', '110001', '999999'])
+
+    expect(results.map(({ pincode, valid, error }) => ({ pincode, valid, error }))).toEqual([
+      { pincode: '110001', valid: true, error: undefined },
+      { pincode: '12345', valid: false, error: 'Pincode must be a 6-digit number' },
+      { pincode: '999999', valid: false, error: 'Invalid pincode or not found' },
+    ])
+    expect(Object.keys(results[0].retailers ?? {})).toEqual(['amazon', 'flipkart', 'myntra', 'meesho'])
+    expect(results[0].location).toEqual({ city: 'New Delhi', state: 'Delhi' })
+  })
+
+  it('limits the check to the listed retailers and applies the category', async () => {
+    const [result] = await createService().getBulkDeliveryInfo(['110001'], ['meesho'], 'electronics.large-appliances')
+
+    expect(Object.keys(result.retailers ?? {})).toEqual(['meesho'])
+    expect(result.retailers?.meesho).toMatchObject({ available: false, restrictions: expect.arrayContaining(['Large appliances are not sold']) })
+  })
+})
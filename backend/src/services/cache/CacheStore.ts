@@ -0,0 +1,165 @@
+import { createClient } from 'redis'
+import { logger } from '../../utils/logger.js'
+
+// String key/value storage with per-entry expiry, backed by Redis or memory
+export interface CacheStore {
+  readonly kind: 'redis' | 'memory'
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  close(): Promise<void>
+}
+
+const DEFAULT_MAX_ENTRIES = 500
+
+const getMaxEntries = (): number => {
+  const maxEntries = Number(process.env.CACHE_MAX_ENTRIES)
+  return Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES
+}
+
+// In-process LRU: a Map keeps insertion order, so re-inserting on read moves an
+// entry to the back and the first key is always the least recently used.
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory' as const
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>()
+
+  constructor(private readonly maxEntries = getMaxEntries()) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return null
+    }
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) {
+      return null
+    }
+
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+// Redis-backed store. While Redis is unreachable every call is served by the
+// in-memory fallback instead, so a missing cache server never fails a search.
+export class RedisCacheStore implements CacheStore {
+  readonly kind = 'redis' as const
+  private readonly client: ReturnType<typeof createClient>
+  private readonly connecting: Promise<boolean>
+
+  constructor(url: string, private readonly fallback: CacheStore = new MemoryCacheStore()) {
+    this.client = createClient({
+      url,
+      // Fail commands immediately while disconnected instead of queueing them
+      disableOfflineQueue: true,
+      socket: {
+        // Give up after a few attempts so connect() settles and the fallback takes over
+        reconnectStrategy: retries => (retries >= 3 ? new Error('Redis unreachable') : (retries + 1) * 500),
+      },
+    })
+    this.client.on('error', error => logger.warn('Redis cache error:', error))
+
+    this.connecting = this.client.connect().then(
+      () => {
+        logger.info('Connected to Redis cache')
+        return true
+      },
+      error => {
+        logger.warn('Redis cache unavailable, using in-memory cache:', error)
+        return false
+      }
+    )
+  }
+
+  async get(key: string): Promise<string | null> {
+    if (!(await this.isReady())) {
+      return this.fallback.get(key)
+    }
+
+    try {
+      return await this.client.get(key)
+    } catch (error) {
+      logger.warn(`Redis get failed for ${key}:`, error)
+      return this.fallback.get(key)
+    }
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    if (!(await this.isReady())) {
+      return this.fallback.set(key, value, ttlMs)
+    }
+
+    try {
+      await this.client.set(key, value, { PX: Math.max(1, Math.round(ttlMs)) })
+    } catch (error) {
+      logger.warn(`Redis set failed for ${key}:`, error)
+      await this.fallback.set(key, value, ttlMs)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.fallback.delete(key)
+    if (!(await this.isReady())) {
+      return
+    }
+
+    try {
+      await this.client.del(key)
+    } catch (error) {
+      logger.warn(`Redis delete failed for ${key}:`, error)
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.fallback.close()
+    if (await this.connecting) {
+      await this.client.quit().catch(() => undefined)
+    }
+  }
+
+  private async isReady(): Promise<boolean> {
+    return (await this.connecting) && this.client.isReady
+  }
+}
+
+let sharedStore: CacheStore | null = null
+
+// Redis when REDIS_URL is set, otherwise an in-process LRU
+export const getCacheStore = (): CacheStore => {
+  if (!sharedStore) {
+    sharedStore = process.env.REDIS_URL
+      ? new RedisCacheStore(process.env.REDIS_URL)
+      : new MemoryCacheStore()
+  }
+  return sharedStore
+}
+
+export const closeCacheStore = async (): Promise<void> => {
+  if (sharedStore) {
+    const store = sharedStore
+    sharedStore = null
+    await store.close()
+  }
+}
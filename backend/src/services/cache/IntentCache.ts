@@ -0,0 +1,71 @@
+import { createHash } from 'crypto'
+import { logger } from '../../utils/logger.js'
+import { getCacheStore, type CacheStore } from './CacheStore.js'
+import type { IntentSource, ParsedIntent } from '../../types/index.js'
+
+export interface CachedIntent {
+  intent: ParsedIntent
+  // How the intent was first produced
+  source: Exclude<IntentSource, 'fallback'>
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000 // 24 hours
+const KEY_VERSION = 'v1'
+
+const getTtl = (): number => {
+  const ttl = Number(process.env.INTENT_CACHE_TTL)
+  return process.env.INTENT_CACHE_TTL && Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL
+}
+
+// Case, spacing, full-width forms and closing punctuation do not change what
+// a shopper asked for, so "Running  Shoes under 3000?" shares an entry with
+// "running shoes under 3000"
+export const normalizeIntentQuery = (query: string): string => {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s.,;:!?।]+$/u, '')
+}
+
+// Caches intents the model produced, keyed by the normalised query. Intents
+// from the rule-based fallback are not cached, so a query parsed while the
+// model was down or over budget gets a model answer next time.
+export class IntentCache {
+  constructor(
+    private readonly store: CacheStore = getCacheStore(),
+    private readonly ttl: number = getTtl()
+  ) {}
+
+  static buildKey(query: string): string {
+    const hash = createHash('sha1').update(normalizeIntentQuery(query)).digest('hex')
+    return `intent:${KEY_VERSION}:${hash}`
+  }
+
+  async get(query: string): Promise<CachedIntent | null> {
+    if (this.ttl === 0) {
+      return null
+    }
+
+    try {
+      const raw = await this.store.get(IntentCache.buildKey(query))
+      return raw ? JSON.parse(raw) as CachedIntent : null
+    } catch (error) {
+      logger.warn('Intent cache read failed:', error)
+      return null
+    }
+  }
+
+  async set(query: string, entry: CachedIntent): Promise<void> {
+    if (this.ttl === 0) {
+      return
+    }
+
+    try {
+      await this.store.set(IntentCache.buildKey(query), JSON.stringify(entry), this.ttl)
+    } catch (error) {
+      logger.warn('Intent cache write failed:', error)
+    }
+  }
+}
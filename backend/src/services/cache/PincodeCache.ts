@@ -0,0 +1,266 @@
+import { logger } from '../../utils/logger.js'
+import { getCacheStore, MemoryCacheStore, type CacheStore } from './CacheStore.js'
+import type { PincodeCacheMetrics, PincodeValidationResult } from '../../types/index.js'
+
+interface CacheStats {
+  hits: number
+  localHits: number
+  sharedHits: number
+  negativeHits: number
+  misses: number
+  writes: number
+}
+
+interface CacheEntry {
+  result: PincodeValidationResult
+  expiresAt: number
+}
+
+export interface PincodeCacheOptions {
+  // Valid pincodes; 0 turns the cache off
+  ttl: number
+  // Invalid and unknown pincodes, and valid ones the postal API could not confirm
+  negativeTtl: number
+  maxEntries: number
+  // Loaded at startup, along with the warmupTop most-searched pincodes
+  warmup: string[]
+  warmupTop: number
+}
+
+const KEY_VERSION = 'v1'
+const POPULAR_KEY = `pincode:${KEY_VERSION}:popular`
+const POPULAR_TTL = 30 * 24 * 60 * 60 * 1000 // 30 days
+// Pincodes whose lookup counts are kept, and how many are saved for warm-up
+const MAX_TRACKED = 1000
+const MAX_POPULAR = 100
+const SAVE_POPULAR_EVERY = 200
+// Counts are halved this often (in lookups), so older searches weigh less
+const DECAY_EVERY = 5000
+const TOP_PINCODES = 10
+
+// Head post offices of the metros
+const DEFAULT_WARMUP = ['110001', '400001', '560001', '600001', '700001', '500001', '411001', '380001']
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+// PINCODE_CACHE_WARMUP lists pincodes to load at startup, comma separated;
+// empty loads none
+const readWarmup = (): string[] => {
+  const configured = process.env.PINCODE_CACHE_WARMUP
+  if (configured === undefined) {
+    return DEFAULT_WARMUP
+  }
+  return configured.split(',').map(pincode => pincode.trim()).filter(pincode => /^\d{6}$/.test(pincode))
+}
+
+export const getPincodeCacheOptions = (): PincodeCacheOptions => ({
+  ttl: readNumber('PINCODE_CACHE_TTL', 24 * 60 * 60 * 1000),
+  negativeTtl: readNumber('PINCODE_NEGATIVE_CACHE_TTL', 60 * 60 * 1000),
+  maxEntries: Math.max(1, Math.floor(readNumber('PINCODE_CACHE_MAX_ENTRIES', 5000))),
+  warmup: readWarmup(),
+  warmupTop: Math.floor(readNumber('PINCODE_CACHE_WARMUP_TOP', 20)),
+})
+
+// Pincode validation results in a bounded in-process LRU, backed by Redis
+// when REDIS_URL is set so entries survive restarts and are shared between
+// instances. Invalid pincodes are cached too, for a shorter time. Keys carry
+// the directory version, so reloading the directory starts afresh.
+export class PincodeCache {
+  private readonly local: MemoryCacheStore
+  private readonly counts = new Map<string, number>()
+  private lookups = 0
+  private readonly stats: CacheStats = { hits: 0, localHits: 0, sharedHits: 0, negativeHits: 0, misses: 0, writes: 0 }
+
+  constructor(
+    private readonly shared: CacheStore | null = process.env.REDIS_URL ? getCacheStore() : null,
+    private readonly options: PincodeCacheOptions = getPincodeCacheOptions()
+  ) {
+    this.local = new MemoryCacheStore(options.maxEntries)
+  }
+
+  static buildKey(pincode: string, version: string | null): string {
+    return `pincode:${KEY_VERSION}:${version ?? 'none'}:${pincode}`
+  }
+
+  // Warm-up reads pass counted = false, so they do not count in the hit rate
+  async get(pincode: string, version: string | null, counted = true): Promise<PincodeValidationResult | null> {
+    if (this.options.ttl === 0) {
+      return null
+    }
+
+    // Unrecorded reads update a throwaway copy
+    const stats: CacheStats = counted ? this.stats : { ...this.stats }
+
+    const key = PincodeCache.buildKey(pincode, version)
+    const local = await this.read(this.local, key)
+    if (local) {
+      stats.localHits++
+      return this.hit(stats, local.result)
+    }
+
+    const shared = this.shared ? await this.read(this.shared, key) : null
+    if (shared) {
+      stats.sharedHits++
+      // Kept locally only for as long as the shared entry has left
+      await this.local.set(key, JSON.stringify(shared), shared.expiresAt - Date.now())
+      return this.hit(stats, shared.result)
+    }
+
+    stats.misses++
+    return null
+  }
+
+  async set(pincode: string, version: string | null, result: PincodeValidationResult): Promise<void> {
+    if (this.options.ttl === 0) {
+      return
+    }
+
+    // A failed remote cross-check is retried as soon as an unknown pincode would be
+    const confirmed = result.valid && result.crossCheck !== 'unavailable'
+    const ttl = confirmed ? this.options.ttl : this.options.negativeTtl
+    if (ttl === 0) {
+      return
+    }
+
+    const key = PincodeCache.buildKey(pincode, version)
+    const value = JSON.stringify({ result, expiresAt: Date.now() + ttl })
+    this.stats.writes++
+    await this.local.set(key, value, ttl)
+    try {
+      await this.shared?.set(key, value, ttl)
+    } catch (error) {
+      logger.warn(`Pincode cache write failed for ${pincode}:`, error)
+    }
+  }
+
+  // The configured pincodes and the most searched ones, as last saved to the
+  // shared store, or counted by this instance without one
+  async getWarmupPincodes(): Promise<string[]> {
+    let popular: Array<{ pincode: string }> = this.getTop(this.options.warmupTop)
+    if (this.shared && this.options.warmupTop > 0) {
+      try {
+        const raw = await this.shared.get(POPULAR_KEY)
+        if (raw) {
+          popular = (JSON.parse(raw) as typeof popular).slice(0, this.options.warmupTop)
+        }
+      } catch (error) {
+        logger.warn('Could not read the most-searched pincodes:', error)
+      }
+    }
+    return [...new Set([...this.options.warmup, ...popular.map(entry => entry.pincode)])]
+  }
+
+  // Saves this instance's most-searched pincodes for the next warm-up. The
+  // last instance to save wins; it is a hint, not an exact count.
+  async savePopular(): Promise<void> {
+    if (!this.shared || this.counts.size === 0) {
+      return
+    }
+    try {
+      await this.shared.set(POPULAR_KEY, JSON.stringify(this.getTop(MAX_POPULAR)), POPULAR_TTL)
+    } catch (error) {
+      logger.warn('Could not save the most-searched pincodes:', error)
+    }
+  }
+
+  getMetrics(): PincodeCacheMetrics {
+    const lookups = this.stats.hits + this.stats.misses
+    return {
+      ...this.stats,
+      hitRate: lookups > 0 ? Math.round((this.stats.hits / lookups) * 1000) / 1000 : 0,
+      size: this.local.size,
+      maxEntries: this.options.maxEntries,
+      store: this.shared?.kind ?? 'memory',
+      topPincodes: this.getTop(TOP_PINCODES),
+    }
+  }
+
+  private getTop(limit: number): Array<{ pincode: string; lookups: number }> {
+    return [...this.counts.entries()]
+      .sort(([a, left], [b, right]) => right - left || a.localeCompare(b))
+      .slice(0, limit)
+      .map(([pincode, lookups]) => ({ pincode, lookups }))
+  }
+
+  private hit(stats: CacheStats, result: PincodeValidationResult): PincodeValidationResult {
+    stats.hits++
+    if (!result.valid) {
+      stats.negativeHits++
+    }
+    return result
+  }
+
+  private async read(store: CacheStore, key: string): Promise<CacheEntry | null> {
+    try {
+      const raw = await store.get(key)
+      const entry = raw ? JSON.parse(raw) as CacheEntry : null
+      return entry && entry.expiresAt > Date.now() ? entry : null
+    } catch (error) {
+      logger.warn(`Pincode cache read failed for ${key}:`, error)
+      return null
+    }
+  }
+
+  // Counts a search for a valid pincode towards the most searched. Once the
+  // table is full, a new pincode takes the place of the least searched one.
+  countLookup(pincode: string): void {
+    if (!this.counts.has(pincode) && this.counts.size >= MAX_TRACKED) {
+      this.evictLeastSearched()
+    }
+    this.counts.set(pincode, (this.counts.get(pincode) ?? 0) + 1)
+
+    this.lookups++
+    if (this.lookups % DECAY_EVERY === 0) {
+      this.decay()
+    }
+    if (this.lookups % SAVE_POPULAR_EVERY === 0) {
+      // Failures are logged; a lookup never waits for the save
+      this.savePopular()
+    }
+  }
+
+  // The oldest pincode with the lowest count; a count of 1 cannot be beaten,
+  // so the scan usually stops early
+  private evictLeastSearched(): void {
+    let least: string | null = null
+    let leastCount = Infinity
+    for (const [pincode, count] of this.counts) {
+      if (count < leastCount) {
+        least = pincode
+        leastCount = count
+        if (count === 1) {
+          break
+        }
+      }
+    }
+    if (least !== null) {
+      this.counts.delete(least)
+    }
+  }
+
+  // Halves every count and forgets the pincodes left at zero, so older
+  // searches weigh less and pincodes searched once make way for new ones.
+  // Runs every DECAY_EVERY lookups, not per lookup.
+  private decay(): void {
+    this.counts.forEach((count, pincode) => {
+      const halved = Math.floor(count / 2)
+      if (halved === 0) {
+        this.counts.delete(pincode)
+      } else {
+        this.counts.set(pincode, halved)
+      }
+    })
+  }
+}
+
+let sharedCache: PincodeCache | null = null
+
+export const getPincodeCache = (): PincodeCache => {
+  if (!sharedCache) {
+    sharedCache = new PincodeCache()
+  }
+  return sharedCache
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto'
+import { logger } from '../../utils/logger.js'
+import { getCacheStore, type CacheStore } from './CacheStore.js'
+import type { ProductQuery, RetailerConfig, RetailerName, SearchResult } from '../../types/index.js'
+
+export interface CachedSearchResult {
+  result: SearchResult
+  ageMs: number
+  stale: boolean
+}
+
+interface CacheEntry {
+  result: SearchResult
+  cachedAt: number
+}
+
+const DEFAULT_TTL = 10 * 60 * 1000 // 10 minutes
+const DEFAULT_STALE_TTL = 30 * 60 * 1000 // 30 minutes
+const KEY_VERSION = 'v1'
+
+const getStaleTtl = (): number => {
+  const staleTtl = Number(process.env.SEARCH_CACHE_STALE_TTL)
+  return Number.isFinite(staleTtl) && staleTtl >= 0 ? staleTtl : DEFAULT_STALE_TTL
+}
+
+const normalizeList = (values: string[] = []): string[] => {
+  return [...new Set(values.map(value => value.trim().toLowerCase()).filter(Boolean))].sort()
+}
+
+const normalizeValue = (value?: string): string | null => {
+  const normalized = value?.trim().toLowerCase()
+  return normalized ? normalized : null
+}
+
+// Only the fields that change what a retailer returns, in a fixed shape, so
+// equivalent queries ("Red  Shoes" vs "red shoes") share a cache entry.
+export const normalizeQuery = (query: ProductQuery) => {
+  const specifications = Object.entries(query.filters?.specifications ?? {})
+    .map(([key, value]) => [key.trim().toLowerCase(), value.trim().toLowerCase()])
+    .sort(([a], [b]) => a.localeCompare(b))
+
+  return {
+    description: query.description.trim().toLowerCase().replace(/\s+/g, ' '),
+    pincode: query.pincode.trim(),
+    budget: query.budget ? { min: query.budget.min, max: query.budget.max ?? null } : null,
+    category: normalizeValue(query.category),
+    filters: {
+      brands: normalizeList(query.filters?.brands),
+      size: normalizeValue(query.filters?.size),
+      color: normalizeValue(query.filters?.color),
+      specifications,
+      excludeBrands: normalizeList(query.filters?.excludeBrands),
+    },
+  }
+}
+
+// Caches successful per-retailer search results. An entry is fresh for the
+// retailer's cacheTtl and may then be served stale for staleTtl more while the
+// caller refreshes it in the background.
+export class SearchResultCache {
+  constructor(
+    private readonly store: CacheStore = getCacheStore(),
+    private readonly staleTtl: number = getStaleTtl()
+  ) {}
+
+  static buildKey(retailer: RetailerName, query: ProductQuery): string {
+    const hash = createHash('sha1').update(JSON.stringify(normalizeQuery(query))).digest('hex')
+    return `search:${KEY_VERSION}:${retailer}:${hash}`
+  }
+
+  async get(config: RetailerConfig, query: ProductQuery): Promise<CachedSearchResult | null> {
+    const ttl = config.cacheTtl ?? DEFAULT_TTL
+    if (ttl === 0) {
+      return null
+    }
+
+    try {
+      const raw = await this.store.get(SearchResultCache.buildKey(config.name, query))
+      if (!raw) {
+        return null
+      }
+
+      const entry: CacheEntry = JSON.parse(raw)
+      const ageMs = Math.max(0, Date.now() - entry.cachedAt)
+      if (ageMs >= ttl + this.staleTtl) {
+        return null
+      }
+
+      return { result: entry.result, ageMs, stale: ageMs >= ttl }
+    } catch (error) {
+      logger.warn(`Search cache read failed for ${config.name}:`, error)
+      return null
+    }
+  }
+
+  async set(config: RetailerConfig, query: ProductQuery, result: SearchResult): Promise<void> {
+    const ttl = config.cacheTtl ?? DEFAULT_TTL
+    if (ttl === 0 || result.status !== 'success') {
+      return
+    }
+
+    // Cache metadata describes a response, not the stored entry
+    const stored: SearchResult = { ...result }
+    delete stored.cache
+    const entry: CacheEntry = { result: stored, cachedAt: Date.now() }
+
+    try {
+      await this.store.set(SearchResultCache.buildKey(config.name, query), JSON.stringify(entry), ttl + this.staleTtl)
+    } catch (error) {
+      logger.warn(`Search cache write failed for ${config.name}:`, error)
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { createClient } from 'redis'
+import { MemoryCacheStore, RedisCacheStore } from '../CacheStore.js'
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('expires entries after their ttl', async () => {
+    jest.useFakeTimers({ now: 0 })
+    const store = new MemoryCacheStore()
+
+    await store.set('key', 'value', 1000)
+    expect(await store.get('key')).toBe('value')
+
+    jest.setSystemTime(1000)
+    expect(await store.get('key')).toBeNull()
+    expect(store.size).toBe(0)
+  })
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore(2)
+
+    await store.set('a', '1', 60000)
+    await store.set('b', '2', 60000)
+    await store.get('a')
+    await store.set('c', '3', 60000)
+
+    expect(await store.get('a')).toBe('1')
+    expect(await store.get('b')).toBeNull()
+    expect(await store.get('c')).toBe('3')
+  })
+})
+
+describe('RedisCacheStore', () => {
+  const fakeClient = (overrides: Record<string, unknown> = {}) => ({
+    on: jest.fn(),
+    connect: jest.fn().mockResolvedValue(undefined),
+    quit: jest.fn().mockResolvedValue(undefined),
+    get: jest.fn().mockResolvedValue('from-redis'),
+    set: jest.fn().mockResolvedValue('OK'),
+    isReady: true,
+    ...overrides,
+  })
+
+  it('reads and writes through Redis with a millisecond expiry', async () => {
+    const client = fakeClient()
+    jest.mocked(createClient).mockReturnValueOnce(client as unknown as ReturnType<typeof createClient>)
+    const store = new RedisCacheStore('redis://localhost:6379')
+
+    await store.set('key', 'value', 1500)
+
+    expect(await store.get('key')).toBe('from-redis')
+    expect(client.set).toHaveBeenCalledWith('key', 'value', { PX: 1500 })
+  })
+
+  it('falls back to memory when Redis cannot be reached', async () => {
+    const client = fakeClient({ connect: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')), isReady: false })
+    jest.mocked(createClient).mockReturnValueOnce(client as unknown as ReturnType<typeof createClient>)
+    const store = new RedisCacheStore('redis://localhost:6379')
+
+    await store.set('key', 'value', 60000)
+
+    expect(await store.get('key')).toBe('value')
+    expect(client.get).not.toHaveBeenCalled()
+    expect(client.set).not.toHaveBeenCalled()
+  })
+})
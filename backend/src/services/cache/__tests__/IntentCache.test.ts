@@ -0,0 +1,64 @@
+import { MemoryCacheStore } from '../CacheStore.js'
+import { IntentCache, normalizeIntentQuery } from '../IntentCache.js'
+import type { CachedIntent } from '../IntentCache.js'
+
+const entry: CachedIntent = {
+  intent: { productType: 'watch', budget: null, features: [], specifications: {} },
+  source: 'model',
+}
+
+describe('normalizeIntentQuery', () => {
+  it('ignores casing, spacing, full-width forms and closing punctuation', () => {
+    expect(normalizeIntentQuery('  Running   SHOES under ３０００?! ')).toBe('running shoes under 3000')
+    expect(normalizeIntentQuery('लाल साड़ी।')).toBe('लाल साड़ी')
+  })
+
+  it('keeps punctuation inside the query', () => {
+    expect(normalizeIntentQuery('t-shirt, size M')).toBe('t-shirt, size m')
+  })
+})
+
+describe('IntentCache', () => {
+  it('shares an entry between equivalent queries', async () => {
+    const cache = new IntentCache(new MemoryCacheStore())
+
+    await cache.set('Analog watch', entry)
+
+    await expect(cache.get('analog  WATCH.')).resolves.toEqual(entry)
+    await expect(cache.get('digital watch')).resolves.toBeNull()
+  })
+
+  it('expires entries after the TTL', async () => {
+    jest.useFakeTimers({ now: 0 })
+    try {
+      const cache = new IntentCache(new MemoryCacheStore(), 1000)
+      await cache.set('analog watch', entry)
+
+      jest.setSystemTime(1000)
+
+      await expect(cache.get('analog watch')).resolves.toBeNull()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('stores nothing when the TTL is 0', async () => {
+    const store = new MemoryCacheStore()
+    const cache = new IntentCache(store, 0)
+
+    await cache.set('analog watch', entry)
+
+    expect(store.size).toBe(0)
+    await expect(cache.get('analog watch')).resolves.toBeNull()
+  })
+
+  it('treats a failing store as a miss', async () => {
+    const store = new MemoryCacheStore()
+    jest.spyOn(store, 'get').mockRejectedValue(new Error('connection lost'))
+    jest.spyOn(store, 'set').mockRejectedValue(new Error('connection lost'))
+    const cache = new IntentCache(store)
+
+    await expect(cache.set('analog watch', entry)).resolves.toBeUndefined()
+    await expect(cache.get('analog watch')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,160 @@
+import { MemoryCacheStore } from '../CacheStore.js'
+import { PincodeCache, type PincodeCacheOptions } from '../PincodeCache.js'
+import type { PincodeValidationResult } from '../../../types/index.js'
+
+const valid: PincodeValidationResult = { valid: true, city: 'New Delhi', state: 'Delhi', source: 'local' }
+const unknown: PincodeValidationResult = { valid: false, error: 'Invalid pincode or not found' }
+
+const options: PincodeCacheOptions = { ttl: 10_000, negativeTtl: 1000, maxEntries: 100, warmup: [], warmupTop: 5 }
+
+describe('PincodeCache', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('keeps unknown pincodes for the shorter negative TTL', async () => {
+    jest.useFakeTimers({ now: 0 })
+    const cache = new PincodeCache(null, options)
+    await cache.set('110001', 'v1', valid)
+    await cache.set('999999', 'v1', unknown)
+
+    jest.setSystemTime(1000)
+
+    await expect(cache.get('110001', 'v1')).resolves.toEqual(valid)
+    await expect(cache.get('999999', 'v1')).resolves.toBeNull()
+
+    jest.setSystemTime(10_000)
+
+    await expect(cache.get('110001', 'v1')).resolves.toBeNull()
+  })
+
+  it('keeps pincodes the postal API could not confirm for the negative TTL', async () => {
+    jest.useFakeTimers({ now: 0 })
+    const cache = new PincodeCache(null, options)
+    await cache.set('110001', 'v1', { ...valid, crossCheck: 'match' })
+    await cache.set('400001', 'v1', { ...valid, crossCheck: 'unavailable' })
+
+    jest.setSystemTime(1000)
+
+    await expect(cache.get('110001', 'v1')).resolves.toEqual({ ...valid, crossCheck: 'match' })
+    await expect(cache.get('400001', 'v1')).resolves.toBeNull()
+  })
+
+  it('keys entries by directory version', async () => {
+    const cache = new PincodeCache(null, options)
+    await cache.set('110001', 'v1', valid)
+
+    await expect(cache.get('110001', 'v2')).resolves.toBeNull()
+  })
+
+  it('drops the least recently used entries beyond its bound', async () => {
+    const cache = new PincodeCache(null, { ...options, maxEntries: 2 })
+    await cache.set('110001', 'v1', valid)
+    await cache.set('110002', 'v1', valid)
+    await cache.get('110001', 'v1')
+    await cache.set('110003', 'v1', valid)
+
+    await expect(cache.get('110002', 'v1')).resolves.toBeNull()
+    await expect(cache.get('110001', 'v1')).resolves.toEqual(valid)
+    expect(cache.getMetrics().size).toBe(2)
+  })
+
+  it('shares entries through the shared store, so a new instance starts warm', async () => {
+    const shared = new MemoryCacheStore()
+    await new PincodeCache(shared, options).set('110001', 'v1', valid)
+
+    const restarted = new PincodeCache(shared, options)
+
+    await expect(restarted.get('110001', 'v1')).resolves.toEqual(valid)
+    await expect(restarted.get('110001', 'v1')).resolves.toEqual(valid)
+    expect(restarted.getMetrics()).toMatchObject({ hits: 2, sharedHits: 1, localHits: 1, store: 'memory' })
+  })
+
+  it('treats a failing shared store as a miss', async () => {
+    const shared = new MemoryCacheStore()
+    jest.spyOn(shared, 'get').mockRejectedValue(new Error('connection lost'))
+    jest.spyOn(shared, 'set').mockRejectedValue(new Error('connection lost'))
+    const cache = new PincodeCache(shared, options)
+
+    await expect(cache.set('110001', 'v1', valid)).resolves.toBeUndefined()
+    await expect(cache.get('400001', 'v1')).resolves.toBeNull()
+    await expect(cache.get('110001', 'v1')).resolves.toEqual(valid)
+  })
+
+  it('stores nothing when the TTL is 0', async () => {
+    const cache = new PincodeCache(null, { ...options, ttl: 0 })
+    await cache.set('110001', 'v1', valid)
+
+    await expect(cache.get('110001', 'v1')).resolves.toBeNull()
+    expect(cache.getMetrics()).toMatchObject({ size: 0, hits: 0, misses: 0 })
+  })
+
+  it('reports hits, misses and the most looked-up pincodes', async () => {
+    const cache = new PincodeCache(null, options)
+    await cache.set('110001', 'v1', valid)
+    await cache.get('110001', 'v1')
+    await cache.get('110001', 'v1')
+    await cache.get('400001', 'v1')
+    cache.countLookup('110001')
+    cache.countLookup('110001')
+    cache.countLookup('400001')
+
+    expect(cache.getMetrics()).toEqual({
+      hits: 2,
+      localHits: 2,
+      sharedHits: 0,
+      negativeHits: 0,
+      misses: 1,
+      writes: 1,
+      hitRate: 0.667,
+      size: 1,
+      maxEntries: 100,
+      store: 'memory',
+      topPincodes: [{ pincode: '110001', lookups: 2 }, { pincode: '400001', lookups: 1 }],
+    })
+  })
+
+  it('warms up the configured pincodes and the most searched ones last saved', async () => {
+    const shared = new MemoryCacheStore()
+    const previous = new PincodeCache(shared, options)
+    previous.countLookup('560001')
+    previous.countLookup('560001')
+    previous.countLookup('600001')
+    await previous.savePopular()
+
+    const next = new PincodeCache(shared, { ...options, warmup: ['110001', '600001'], warmupTop: 1 })
+
+    await expect(next.getWarmupPincodes()).resolves.toEqual(['110001', '600001', '560001'])
+    await expect(new PincodeCache(shared, { ...options, warmupTop: 0 }).getWarmupPincodes()).resolves.toEqual([])
+  })
+
+  it('replaces the least searched pincode when full, keeping the other counts', () => {
+    const cache = new PincodeCache(null, options)
+    for (let index = 0; index < 1000; index++) {
+      cache.countLookup(String(200000 + index))
+      cache.countLookup(String(200000 + index))
+    }
+    cache.countLookup('200500')
+
+    cache.countLookup('110001')
+    cache.countLookup('110001')
+    cache.countLookup('110001')
+
+    const { topPincodes } = cache.getMetrics()
+    expect(topPincodes.slice(0, 2)).toEqual([
+      { pincode: '110001', lookups: 3 },
+      { pincode: '200500', lookups: 3 },
+    ])
+    expect(topPincodes.slice(2).every(({ lookups }) => lookups === 2)).toBe(true)
+  })
+
+  it('halves the counts on a schedule, so one-off pincodes are dropped', () => {
+    const cache = new PincodeCache(null, options)
+    cache.countLookup('400001')
+    for (let index = 0; index < 4999; index++) {
+      cache.countLookup('110001')
+    }
+
+    expect(cache.getMetrics().topPincodes).toEqual([{ pincode: '110001', lookups: 2499 }])
+  })
+})
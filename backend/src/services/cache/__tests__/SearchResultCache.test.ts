@@ -0,0 +1,93 @@
+import { MemoryCacheStore } from '../CacheStore.js'
+import { SearchResultCache } from '../SearchResultCache.js'
+import type { ProductQuery, RetailerConfig, SearchResult } from '../../../types/index.js'
+
+const config: RetailerConfig = {
+  name: 'myntra',
+  baseUrl: 'https://www.myntra.com',
+  searchPath: '/',
+  enabled: true,
+  timeout: 10000,
+  rateLimit: { requests: 5, window: 60000 },
+  cacheTtl: 60000,
+}
+
+const query: ProductQuery = {
+  description: 'Red Kurta',
+  pincode: '560001',
+  budget: { min: 500, max: 1500 },
+  filters: { brands: ['Biba', 'W'], size: 'M' },
+  confidence: 0.8,
+}
+
+const success: SearchResult = { status: 'success', products: [] }
+
+describe('SearchResultCache.buildKey', () => {
+  it('ignores casing, whitespace, filter order and confidence', () => {
+    const equivalent: ProductQuery = {
+      ...query,
+      description: '  red   KURTA ',
+      filters: { size: 'm ', brands: ['w', 'biba', 'Biba'] },
+      confidence: 0.3,
+    }
+
+    expect(SearchResultCache.buildKey('myntra', equivalent)).toBe(SearchResultCache.buildKey('myntra', query))
+  })
+
+  it('separates retailers, pincodes and budgets', () => {
+    const key = SearchResultCache.buildKey('myntra', query)
+
+    expect(SearchResultCache.buildKey('meesho', query)).not.toBe(key)
+    expect(SearchResultCache.buildKey('myntra', { ...query, pincode: '560002' })).not.toBe(key)
+    expect(SearchResultCache.buildKey('myntra', { ...query, budget: { min: 500, max: 2000 } })).not.toBe(key)
+  })
+})
+
+describe('SearchResultCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('marks entries stale after the retailer ttl and drops them after the stale window', async () => {
+    const cache = new SearchResultCache(new MemoryCacheStore(), 30000)
+    await cache.set(config, query, success)
+
+    jest.setSystemTime(59999)
+    expect(await cache.get(config, query)).toEqual({ result: success, ageMs: 59999, stale: false })
+
+    jest.setSystemTime(60000)
+    expect(await cache.get(config, query)).toMatchObject({ stale: true })
+
+    jest.setSystemTime(90000)
+    expect(await cache.get(config, query)).toBeNull()
+  })
+
+  it('only stores successful results', async () => {
+    const cache = new SearchResultCache(new MemoryCacheStore())
+
+    await cache.set(config, query, { status: 'error', products: [], error: 'Blocked' })
+
+    expect(await cache.get(config, query)).toBeNull()
+  })
+
+  it('does not store the cache metadata of a response', async () => {
+    const cache = new SearchResultCache(new MemoryCacheStore())
+
+    await cache.set(config, query, { ...success, cache: { hit: false, ageMs: 0, stale: false } })
+
+    expect((await cache.get(config, query))?.result).toEqual(success)
+  })
+
+  it('is disabled for a retailer with a zero ttl', async () => {
+    const cache = new SearchResultCache(new MemoryCacheStore())
+    const uncached = { ...config, cacheTtl: 0 }
+
+    await cache.set(uncached, query, success)
+
+    expect(await cache.get(uncached, query)).toBeNull()
+  })
+})
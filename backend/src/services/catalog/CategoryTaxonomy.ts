@@ -0,0 +1,203 @@
+import { CATEGORY_TREE, type CategoryDefinition } from './categoryTree.js'
+import type {
+  CategoryAttribute,
+  CategoryFilters,
+  CategoryNode,
+  CategoryRef,
+  ParsedIntent,
+} from '../../types/index.js'
+
+interface IndexedCategory {
+  ref: CategoryRef
+  depth: number
+  // Tokenized synonyms, including the category's own name
+  phrases: string[][]
+  attributes: CategoryAttribute[]
+  children: string[]
+}
+
+// "watches" and "dresses" lose "es", "shoes" and "sarees" just the "s"
+const stem = (token: string): string => {
+  if (/(?:ss|sh|ch|x)es$/.test(token)) {
+    return token.slice(0, -2)
+  }
+  return token.length > 3 && /[a-z]s$/.test(token) && !token.endsWith('ss') ? token.slice(0, -1) : token
+}
+
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem)
+}
+
+// "8 GB", "8gb" and "8-GB" compare equal
+const compact = (text: string): string => text.toLowerCase().replace(/[\s_-]+/g, '')
+
+// "9", "UK 9", "uk9", "9 UK", "size 9", "EU 42"
+const SIZE_VALUE = /^(?:size\s*)?([a-z]+)?\s*(\d{1,2}(?:\.5)?)\s*([a-z]+)?$/i
+
+// Maps intents onto the category tree and describes the attributes each
+// category can be filtered by. Attributes are inherited down the tree, so a
+// running shoe has a colour (Fashion) and a shoe size (Footwear).
+export class CategoryTaxonomy {
+  private readonly categories = new Map<string, IndexedCategory>()
+  private readonly roots: string[] = []
+
+  constructor(tree: CategoryDefinition[] = CATEGORY_TREE) {
+    tree.forEach(definition => this.roots.push(this.index(definition, null)))
+  }
+
+  get(id: string): CategoryRef | null {
+    return this.categories.get(id)?.ref ?? null
+  }
+
+  getTree(): CategoryNode[] {
+    const toNode = (id: string): CategoryNode => {
+      const category = this.categories.get(id)!
+      return { id, name: category.ref.name, children: category.children.map(toNode) }
+    }
+    return this.roots.map(toNode)
+  }
+
+  getFilters(id: string): CategoryFilters | null {
+    const category = this.categories.get(id)
+    return category ? { category: category.ref, filters: category.attributes } : null
+  }
+
+  // The most specific category whose synonym appears in the product type and
+  // features; longer synonyms win, then deeper categories
+  resolve(intent: Pick<ParsedIntent, 'productType' | 'features'>): CategoryRef | null {
+    const tokens = new Set(tokenize([intent.productType, ...intent.features].join(' ')))
+    let best: { category: IndexedCategory; length: number } | null = null
+
+    for (const category of this.categories.values()) {
+      for (const phrase of category.phrases) {
+        if (!phrase.every(token => tokens.has(token))) {
+          continue
+        }
+        if (
+          !best ||
+          phrase.length > best.length ||
+          (phrase.length === best.length && category.depth > best.category.depth)
+        ) {
+          best = { category, length: phrase.length }
+        }
+      }
+    }
+
+    return best?.category.ref ?? null
+  }
+
+  // Adds the category to the intent and rewrites its specifications in the
+  // category's terms ("memory: 8 gb" becomes "ram: 8GB")
+  classify(intent: ParsedIntent): ParsedIntent {
+    const category = this.resolve(intent)
+    if (!category) {
+      return intent
+    }
+
+    return {
+      ...intent,
+      category,
+      specifications: this.normalizeSpecifications(category.id, intent.specifications ?? {}),
+    }
+  }
+
+  // Known keys and values are put in their canonical form; anything the
+  // schema does not recognise is kept as it was
+  normalizeSpecifications(id: string, specifications: Record<string, string>): Record<string, string> {
+    const normalized: Record<string, string> = {}
+
+    Object.entries(specifications).forEach(([key, value]) => {
+      const attribute = this.findAttribute(id, key)
+      if (!attribute) {
+        normalized[key] = value
+        return
+      }
+      normalized[attribute.key] = this.normalizeValue(attribute, value) ?? value
+    })
+
+    return normalized
+  }
+
+  // Problems with filters sent for a category, empty when they all fit its schema
+  validateFilters(id: string, specifications: Record<string, unknown>): string[] {
+    const category = this.categories.get(id)
+    if (!category) {
+      return [`Unknown category "${id}"`]
+    }
+
+    return Object.entries(specifications).flatMap(([key, value]) => {
+      const attribute = this.findAttribute(id, key)
+      if (!attribute) {
+        return [`${category.ref.name} cannot be filtered by "${key}"`]
+      }
+      if (typeof value !== 'string' || this.normalizeValue(attribute, value) === null) {
+        return [`"${String(value)}" is not a valid ${attribute.label.toLowerCase()}`]
+      }
+      return []
+    })
+  }
+
+  findAttribute(id: string, key: string): CategoryAttribute | null {
+    const wanted = compact(key)
+    return this.categories.get(id)?.attributes.find(attribute =>
+      compact(attribute.key) === wanted || attribute.aliases?.some(alias => compact(alias) === wanted)
+    ) ?? null
+  }
+
+  // Canonical spelling of a value, or null when the attribute does not allow it
+  normalizeValue(attribute: CategoryAttribute, value: string): string | null {
+    if (attribute.kind === 'size') {
+      return this.normalizeSize(attribute, value)
+    }
+
+    const wanted = compact(value)
+    const exact = attribute.values?.find(option => compact(option) === wanted)
+    if (exact) {
+      return exact
+    }
+    const alias = Object.entries(attribute.valueAliases ?? {}).find(([spelling]) => compact(spelling) === wanted)
+    return alias ? alias[1] : null
+  }
+
+  private normalizeSize(attribute: CategoryAttribute, value: string): string | null {
+    const systems = attribute.sizeSystems ?? {}
+    const match = value.trim().match(SIZE_VALUE)
+    if (!match || (match[1] && match[3])) {
+      return null
+    }
+
+    // A bare number is read in the first system listed
+    const system = (match[1] ?? match[3] ?? Object.keys(systems)[0] ?? '').toUpperCase().replace(/^EURO?$/, 'EU')
+    return systems[system]?.includes(match[2]) ? `${system} ${match[2]}` : null
+  }
+
+  private index(definition: CategoryDefinition, parent: IndexedCategory | null): string {
+    const id = parent ? `${parent.ref.id}.${definition.id}` : definition.id
+    if (this.categories.has(id)) {
+      throw new Error(`Duplicate category id: ${id}`)
+    }
+
+    // A child's attribute replaces the parent's one with the same key
+    const attributes = [...(parent?.attributes ?? [])]
+    definition.attributes?.forEach(attribute => {
+      const inherited = attributes.findIndex(existing => existing.key === attribute.key)
+      if (inherited >= 0) {
+        attributes[inherited] = attribute
+      } else {
+        attributes.push(attribute)
+      }
+    })
+
+    const category: IndexedCategory = {
+      ref: { id, name: definition.name, path: [...(parent?.ref.path ?? []), definition.name] },
+      depth: parent ? parent.depth + 1 : 0,
+      phrases: [definition.name, ...(definition.synonyms ?? [])].map(tokenize).filter(phrase => phrase.length > 0),
+      attributes,
+      children: [],
+    }
+    this.categories.set(id, category)
+    category.children = (definition.children ?? []).map(child => this.index(child, category))
+
+    return id
+  }
+}
@@ -0,0 +1,135 @@
+import { CategoryTaxonomy } from '../CategoryTaxonomy.js'
+import type { ParsedIntent } from '../../../types/index.js'
+
+const intent = (productType: string, features: string[] = []): ParsedIntent => ({
+  productType,
+  budget: null,
+  features,
+})
+
+describe('CategoryTaxonomy', () => {
+  const taxonomy = new CategoryTaxonomy()
+
+  describe('resolve', () => {
+    it.each([
+      ['running shoes', [], 'fashion.footwear.running-shoes'],
+      ['shoes', ['running'], 'fashion.footwear.running-shoes'],
+      ['shoes', [], 'fashion.footwear'],
+      ['formal shirt', ['formal'], 'fashion.clothing.shirts'],
+      ['t-shirt', [], 'fashion.clothing.t-shirts'],
+      ['saree', ['wedding'], 'fashion.clothing.ethnic.sarees'],
+      ['watches', [], 'fashion.accessories.watches'],
+      ['smart watch', [], 'electronics.smartwatches'],
+      ['smartphone', ['good camera'], 'electronics.mobiles'],
+      ['laptop bag', [], 'fashion.accessories.bags'],
+    ])('maps "%s" %j to %s', (productType, features, expected) => {
+      expect(taxonomy.resolve(intent(productType, features))?.id).toBe(expected)
+    })
+
+    it('returns null for products outside the tree', () => {
+      expect(taxonomy.resolve(intent('product'))).toBeNull()
+      expect(taxonomy.resolve(intent('gift'))).toBeNull()
+    })
+
+    it('describes where the category sits', () => {
+      expect(taxonomy.resolve(intent('kurti'))).toEqual({
+        id: 'fashion.clothing.ethnic.kurtas',
+        name: 'Kurtas & Kurtis',
+        path: ['Fashion', 'Clothing', 'Ethnic Wear', 'Kurtas & Kurtis'],
+      })
+    })
+  })
+
+  describe('getFilters', () => {
+    it('inherits attributes from parent categories', () => {
+      const filters = taxonomy.getFilters('fashion.footwear.running-shoes')
+
+      expect(filters?.filters.map(attribute => attribute.key)).toEqual(['color', 'size'])
+      expect(filters?.filters[1]).toMatchObject({ kind: 'size', sizeSystems: { UK: expect.arrayContaining(['9']) } })
+    })
+
+    it('gives each category its own schema', () => {
+      const keys = (id: string) => taxonomy.getFilters(id)?.filters.map(attribute => attribute.key)
+
+      expect(keys('fashion.clothing.shirts')).toEqual(['color', 'size', 'fabric'])
+      expect(keys('electronics.mobiles')).toEqual(['ram', 'storage', 'network', 'color'])
+      expect(taxonomy.getFilters('fashion.clothing.shirts')?.filters[1]).toMatchObject({ kind: 'select' })
+    })
+
+    it('returns null for an unknown category', () => {
+      expect(taxonomy.getFilters('fashion.spaceships')).toBeNull()
+    })
+  })
+
+  describe('normalizeSpecifications', () => {
+    it('puts known keys and values in their canonical form', () => {
+      expect(taxonomy.normalizeSpecifications('fashion.footwear.running-shoes', {
+        'shoe size': '9',
+        colour: 'Black',
+      })).toEqual({ size: 'UK 9', color: 'black' })
+
+      expect(taxonomy.normalizeSpecifications('electronics.laptops', {
+        memory: '16 gb',
+        cpu: 'i5',
+      })).toEqual({ ram: '16GB', processor: 'Intel i5' })
+
+      expect(taxonomy.normalizeSpecifications('fashion.clothing.shirts', {
+        size: 'large',
+        material: 'Khadi',
+      })).toEqual({ size: 'L', fabric: 'cotton' })
+    })
+
+    it.each([
+      ['eu42', 'EU 42'],
+      ['42 EU', 'EU 42'],
+      ['US 10', 'US 10'],
+      ['size 7', 'UK 7'],
+    ])('reads the shoe size "%s" as %s', (value, expected) => {
+      expect(taxonomy.normalizeSpecifications('fashion.footwear', { size: value })).toEqual({ size: expected })
+    })
+
+    it('keeps what the schema does not recognise', () => {
+      expect(taxonomy.normalizeSpecifications('electronics.mobiles', {
+        camera: 'good',
+        ram: 'lots',
+      })).toEqual({ camera: 'good', ram: 'lots' })
+    })
+  })
+
+  describe('validateFilters', () => {
+    it('accepts filters that fit the schema', () => {
+      expect(taxonomy.validateFilters('fashion.footwear.running-shoes', { size: 'UK 9', color: 'grey' })).toEqual([])
+    })
+
+    it('reports unknown keys, invalid values and unknown categories', () => {
+      expect(taxonomy.validateFilters('fashion.footwear.running-shoes', {
+        ram: '8GB',
+        size: 'UK 30',
+        color: 7,
+      })).toEqual([
+        'Running Shoes cannot be filtered by "ram"',
+        '"UK 30" is not a valid shoe size',
+        '"7" is not a valid colour',
+      ])
+      expect(taxonomy.validateFilters('toys', {})).toEqual(['Unknown category "toys"'])
+    })
+  })
+
+  it('lists the tree without attributes', () => {
+    const [fashion, electronics] = taxonomy.getTree()
+
+    expect(fashion.children.map(child => child.id)).toEqual([
+      'fashion.footwear',
+      'fashion.clothing',
+      'fashion.accessories',
+    ])
+    expect(electronics).toMatchObject({ id: 'electronics', name: 'Electronics' })
+  })
+
+  it('rejects duplicate ids', () => {
+    expect(() => new CategoryTaxonomy([
+      { id: 'toys', name: 'Toys' },
+      { id: 'toys', name: 'Games' },
+    ])).toThrow('Duplicate category id: toys')
+  })
+})
@@ -0,0 +1,209 @@
+import type { CategoryAttribute } from '../../types/index.js'
+
+// A category as written here; ids of children are prefixed with their
+// parent's id when the tree is loaded ("fashion" > "footwear" becomes
+// "fashion.footwear").
+export interface CategoryDefinition {
+  id: string
+  name: string
+  // Product types that mean this category, e.g. "sports shoes" for running shoes
+  synonyms?: string[]
+  // Added to (or replacing, by key) the attributes inherited from the parent
+  attributes?: CategoryAttribute[]
+  children?: CategoryDefinition[]
+}
+
+const range = (from: number, to: number, step = 1): string[] => {
+  const values: string[] = []
+  for (let value = from; value <= to; value += step) {
+    values.push(String(value))
+  }
+  return values
+}
+
+const COLOR: CategoryAttribute = {
+  key: 'color',
+  label: 'Colour',
+  kind: 'select',
+  values: ['black', 'white', 'blue', 'red', 'green', 'yellow', 'pink', 'brown', 'grey', 'beige'],
+  aliases: ['colour'],
+  valueAliases: { gray: 'grey', navy: 'blue', maroon: 'red', cream: 'beige' },
+}
+
+const FOOTWEAR_SIZE: CategoryAttribute = {
+  key: 'size',
+  label: 'Shoe size',
+  kind: 'size',
+  // The first system is assumed when a bare number is given
+  sizeSystems: {
+    UK: range(3, 12),
+    US: range(4, 13),
+    EU: range(36, 47),
+  },
+  aliases: ['shoe size', 'shoe_size'],
+}
+
+const APPAREL_SIZE: CategoryAttribute = {
+  key: 'size',
+  label: 'Size',
+  kind: 'select',
+  values: ['XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL'],
+  valueAliases: {
+    'extra small': 'XS',
+    small: 'S',
+    medium: 'M',
+    large: 'L',
+    'extra large': 'XL',
+    '2xl': 'XXL',
+    '3xl': 'XXXL',
+  },
+}
+
+const FABRIC: CategoryAttribute = {
+  key: 'fabric',
+  label: 'Fabric',
+  kind: 'select',
+  values: ['cotton', 'linen', 'silk', 'polyester', 'rayon', 'denim', 'wool', 'georgette', 'chiffon'],
+  aliases: ['material'],
+  valueAliases: { khadi: 'cotton', 'pure cotton': 'cotton', resham: 'silk' },
+}
+
+const RAM = (values: string[]): CategoryAttribute => ({
+  key: 'ram',
+  label: 'RAM',
+  kind: 'select',
+  values,
+  aliases: ['memory'],
+})
+
+const STORAGE = (values: string[]): CategoryAttribute => ({
+  key: 'storage',
+  label: 'Storage',
+  kind: 'select',
+  values,
+  aliases: ['rom', 'internal storage', 'ssd', 'capacity'],
+})
+
+export const CATEGORY_TREE: CategoryDefinition[] = [
+  {
+    id: 'fashion',
+    name: 'Fashion',
+    attributes: [COLOR],
+    children: [
+      {
+        id: 'footwear',
+        name: 'Footwear',
+        synonyms: ['shoes', 'footwear'],
+        attributes: [FOOTWEAR_SIZE],
+        children: [
+          {
+            id: 'running-shoes',
+            name: 'Running Shoes',
+            synonyms: ['running shoes', 'sports shoes', 'jogging shoes', 'training shoes', 'gym shoes'],
+          },
+          { id: 'casual-shoes', name: 'Casual Shoes', synonyms: ['casual shoes', 'sneakers'] },
+          { id: 'formal-shoes', name: 'Formal Shoes', synonyms: ['formal shoes', 'office shoes', 'oxford shoes'] },
+          { id: 'sandals', name: 'Sandals & Slippers', synonyms: ['sandals', 'slippers', 'flip flops', 'chappal'] },
+        ],
+      },
+      {
+        id: 'clothing',
+        name: 'Clothing',
+        synonyms: ['clothes', 'clothing'],
+        attributes: [APPAREL_SIZE, FABRIC],
+        children: [
+          { id: 'shirts', name: 'Shirts', synonyms: ['shirt'] },
+          { id: 't-shirts', name: 'T-Shirts', synonyms: ['t-shirt', 'tshirt', 'tee'] },
+          { id: 'jeans', name: 'Jeans', synonyms: ['jeans', 'denims'] },
+          { id: 'trousers', name: 'Trousers', synonyms: ['trousers', 'pants', 'chinos'] },
+          { id: 'dresses', name: 'Dresses', synonyms: ['dress'] },
+          {
+            id: 'ethnic',
+            name: 'Ethnic Wear',
+            synonyms: ['ethnic wear'],
+            children: [
+              { id: 'kurtas', name: 'Kurtas & Kurtis', synonyms: ['kurta', 'kurti'] },
+              { id: 'sarees', name: 'Sarees', synonyms: ['saree', 'sari'] },
+              { id: 'lehengas', name: 'Lehengas', synonyms: ['lehenga'] },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'accessories',
+        name: 'Accessories',
+        synonyms: ['accessories'],
+        children: [
+          {
+            id: 'watches',
+            name: 'Watches',
+            synonyms: ['watch', 'wrist watch'],
+            attributes: [
+              { key: 'display', label: 'Display', kind: 'select', values: ['analog', 'digital'] },
+              { key: 'strap', label: 'Strap', kind: 'select', values: ['leather', 'metal', 'silicone', 'fabric'], aliases: ['strap material', 'band'] },
+            ],
+          },
+          { id: 'bags', name: 'Bags', synonyms: ['bag', 'handbag', 'backpack', 'school bag'] },
+          { id: 'wallets', name: 'Wallets', synonyms: ['wallet'] },
+          { id: 'sunglasses', name: 'Sunglasses', synonyms: ['sunglasses', 'shades'] },
+          { id: 'caps', name: 'Caps & Hats', synonyms: ['cap', 'hat'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'electronics',
+    name: 'Electronics',
+    children: [
+      {
+        id: 'mobiles',
+        name: 'Mobile Phones',
+        synonyms: ['phone', 'mobile', 'smartphone', 'mobile phone'],
+        attributes: [
+          RAM(['4GB', '6GB', '8GB', '12GB', '16GB']),
+          STORAGE(['64GB', '128GB', '256GB', '512GB', '1TB']),
+          { key: 'network', label: 'Network', kind: 'select', values: ['4G', '5G'] },
+          COLOR,
+        ],
+      },
+      {
+        id: 'laptops',
+        name: 'Laptops',
+        synonyms: ['laptop', 'notebook'],
+        attributes: [
+          RAM(['8GB', '16GB', '32GB', '64GB']),
+          STORAGE(['256GB', '512GB', '1TB', '2TB']),
+          {
+            key: 'processor',
+            label: 'Processor',
+            kind: 'select',
+            values: ['Intel i3', 'Intel i5', 'Intel i7', 'Intel i9', 'Ryzen 3', 'Ryzen 5', 'Ryzen 7', 'Apple M'],
+            aliases: ['cpu', 'chip'],
+            valueAliases: { i3: 'Intel i3', i5: 'Intel i5', i7: 'Intel i7', i9: 'Intel i9' },
+          },
+        ],
+      },
+      {
+        id: 'audio',
+        name: 'Headphones & Earbuds',
+        synonyms: ['headphones', 'earphones', 'earbuds', 'tws', 'headset'],
+        attributes: [{ key: 'connectivity', label: 'Connectivity', kind: 'select', values: ['wired', 'wireless'] }],
+      },
+      {
+        id: 'smartwatches',
+        name: 'Smartwatches',
+        synonyms: ['smartwatch', 'smart watch', 'fitness band'],
+        attributes: [COLOR],
+      },
+      {
+        id: 'large-appliances',
+        name: 'Large Appliances',
+        synonyms: [
+          'refrigerator', 'fridge', 'washing machine', 'air conditioner', 'ac', 'split ac', 'window ac',
+          'television', 'tv', 'smart tv', 'led tv',
+        ],
+        attributes: [COLOR],
+      },
+    ],
+  },
+]
@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto'
+import { logger } from '../../utils/logger.js'
+import { CrossRetailerEngine } from '../CrossRetailerEngine.js'
+import { IntentParserService } from '../IntentParserService.js'
+import { getCacheStore, MemoryCacheStore, type CacheStore } from '../cache/CacheStore.js'
+import { scoreIntentConfidence } from '../intent/clarification.js'
+import { CategoryTaxonomy } from '../catalog/CategoryTaxonomy.js'
+import { applyRefinements, describeBudget, isNewSearch, parseRefinements } from './refinements.js'
+import type { RefinedState, Refinement } from './refinements.js'
+import type {
+  ClarifyingQuestion,
+  ConversationReply,
+  ConversationSession,
+  ConversationState,
+  ConversationTurn,
+  ConversationTurnKind,
+  ProductQuery,
+  RetailerSearchResults,
+} from '../../types/index.js'
+
+// v2 sessions keep a reference price instead of the latest results
+const KEY_PREFIX = 'conversation:v2:'
+const DEFAULT_TTL = 30 * 60 * 1000
+const DEFAULT_MAX_SESSIONS = 1000
+// Older turns are dropped so a long chat does not grow without bound
+const MAX_TURNS = 40
+// After this many rounds of questions we search with what we have
+const MAX_CLARIFY_ROUNDS = 2
+
+const getSessionTtl = (): number => Number(process.env.CONVERSATION_TTL) || DEFAULT_TTL
+
+const getMaxSessions = (): number => {
+  const maxSessions = Number(process.env.CONVERSATION_MAX_SESSIONS)
+  return Number.isInteger(maxSessions) && maxSessions > 0 ? maxSessions : DEFAULT_MAX_SESSIONS
+}
+
+let sessionStore: CacheStore | null = null
+
+// Redis when REDIS_URL is set, where sessions simply expire. Otherwise a
+// memory LRU of their own: in the one the search and intent caches share, a
+// burst of searches would evict live sessions long before CONVERSATION_TTL.
+const getSessionStore = (): CacheStore => {
+  if (!sessionStore) {
+    sessionStore = process.env.REDIS_URL ? getCacheStore() : new MemoryCacheStore(getMaxSessions())
+  }
+  return sessionStore
+}
+
+// Refinements that still apply when a message also starts a new search
+// ("running shoes, not on meesho"); the model's intent covers the rest.
+const SCOPE_REFINEMENTS = new Set(['exclude_brand', 'retailers', 'exclude_retailer', 'all_retailers'])
+
+const EMPTY_STATE: ConversationState = { intent: null, excludedBrands: [], retailers: null }
+
+export const toProductQuery = (state: ConversationState, pincode: string): ProductQuery => {
+  const intent = state.intent ?? { productType: '', budget: null, features: [] }
+  const color = intent.specifications?.color
+  const specifications = intent.specifications ?? {}
+
+  return {
+    description: [color, intent.brand, ...intent.features, intent.productType].filter(Boolean).join(' '),
+    pincode,
+    budget: intent.budget
+      ? { min: intent.budget.min, max: intent.budget.max ?? undefined }
+      : undefined,
+    filters: {
+      brands: intent.brand ? [intent.brand] : undefined,
+      color,
+      specifications: Object.keys(specifications).length > 0 ? specifications : undefined,
+      excludeBrands: state.excludedBrands.length > 0 ? state.excludedBrands : undefined,
+    },
+    confidence: scoreIntentConfidence(intent),
+    intent,
+    retailers: state.retailers ?? undefined,
+    category: intent.category?.id,
+  }
+}
+
+// Middle price of the latest results, what "cheaper" is measured against
+// when the shopper never gave a budget
+const medianPrice = (results: RetailerSearchResults): number | null => {
+  const prices = Object.values(results)
+    .flatMap(result => result.products)
+    .map(product => product.price)
+    .sort((a, b) => a - b)
+  return prices.length > 0 ? prices[Math.floor(prices.length / 2)] : null
+}
+
+const describeSearch = (state: ConversationState): string => {
+  const intent = state.intent
+  if (!intent) {
+    return 'products'
+  }
+  const parts = [intent.specifications?.color, intent.brand, ...intent.features, intent.productType]
+  const budget = intent.budget ? ` ${describeBudget(intent.budget)}` : ''
+  return `${parts.filter(Boolean).join(' ')}${budget}`
+}
+
+const summarize = (kind: ConversationTurnKind, state: ConversationState, changes: string[], results: RetailerSearchResults) => {
+  const outcomes = Object.values(results)
+  const total = outcomes.reduce((sum, result) => sum + result.products.length, 0)
+  const retailers = outcomes.filter(result => result.products.length > 0).length
+  const found = `Found ${total} products across ${retailers} retailers.`
+
+  if (kind === 'refine' && changes.length > 0) {
+    return `Updated your search (${changes.join(', ')}). ${found}`
+  }
+  return `Searching for ${describeSearch(state)}. ${found}`
+}
+
+// Multi-turn search sessions. Each message either starts a new search or
+// refines the previous one ("in black", "cheaper", "not Nike", "only on
+// Amazon"); sessions live in the cache store and expire after
+// CONVERSATION_TTL of inactivity.
+export class ConversationService {
+  constructor(
+    private readonly engine: CrossRetailerEngine = new CrossRetailerEngine(),
+    private readonly intentParser: IntentParserService = new IntentParserService(),
+    private readonly store: CacheStore = getSessionStore(),
+    private readonly ttlMs: number = getSessionTtl(),
+    private readonly taxonomy: CategoryTaxonomy = new CategoryTaxonomy()
+  ) {}
+
+  async start(pincode: string): Promise<ConversationSession> {
+    const now = Date.now()
+    const session: ConversationSession = {
+      id: randomUUID(),
+      pincode,
+      createdAt: now,
+      updatedAt: now,
+      state: EMPTY_STATE,
+      turns: [],
+      referencePrice: null,
+      clarifying: null,
+    }
+
+    await this.save(session)
+    logger.info(`Started conversation ${session.id} for pincode ${pincode}`)
+    return session
+  }
+
+  async get(id: string): Promise<ConversationSession | null> {
+    const raw = await this.store.get(KEY_PREFIX + id)
+    if (!raw) {
+      return null
+    }
+
+    try {
+      return JSON.parse(raw) as ConversationSession
+    } catch (error) {
+      logger.warn(`Ignoring unreadable conversation ${id}:`, error)
+      return null
+    }
+  }
+
+  async end(id: string): Promise<boolean> {
+    const exists = (await this.get(id)) !== null
+    await this.store.delete(KEY_PREFIX + id)
+    return exists
+  }
+
+  // null when the session does not exist or has expired
+  async sendMessage(id: string, message: string): Promise<ConversationReply | null> {
+    const session = await this.get(id)
+    if (!session) {
+      return null
+    }
+
+    const userTurn: ConversationTurn = { role: 'user', text: message, timestamp: Date.now() }
+    const refinements = parseRefinements(message)
+    const context = {
+      retailers: this.engine.getEnabledRetailers(),
+      referencePrice: session.referencePrice,
+    }
+
+    let kind: ConversationTurnKind
+    let refined: RefinedState
+    if (session.clarifying || isNewSearch(message, session.state, refinements)) {
+      // Answers to clarifying questions are read together with the vague query
+      const query = session.clarifying ? `${session.clarifying.query} ${message}` : message
+      const rounds = (session.clarifying?.rounds ?? 0) + 1
+      const parsed = await this.intentParser.parse(query)
+
+      if (parsed.questions.length > 0 && rounds <= MAX_CLARIFY_ROUNDS) {
+        return this.askClarifyingQuestions(session, userTurn, { query, rounds }, parsed.questions)
+      }
+
+      kind = 'search'
+      refined = applyRefinements(
+        { ...EMPTY_STATE, intent: parsed.intent },
+        refinements.filter(refinement => SCOPE_REFINEMENTS.has(refinement.type)),
+        context
+      )
+    } else {
+      kind = 'refine'
+      refined = applyRefinements(session.state, refinements, context)
+    }
+
+    return this.search(session, userTurn, kind, refined)
+  }
+
+  // Sets (or, with a null value, clears) filters from the category's schema
+  // on the current search. Keys and values are expected to have been checked
+  // against the schema already. null when the session does not exist.
+  async applyFilters(id: string, filters: Record<string, string | null>): Promise<ConversationReply | null> {
+    const session = await this.get(id)
+    if (!session) {
+      return null
+    }
+
+    const category = session.state.intent?.category
+    if (!category) {
+      throw new Error('The current search has no category to filter')
+    }
+
+    const refinements = Object.entries(filters).flatMap(([key, value]): Refinement[] => {
+      const attribute = this.taxonomy.findAttribute(category.id, key)
+      if (!attribute) {
+        return []
+      }
+      const normalized = value === null ? null : this.taxonomy.normalizeValue(attribute, value) ?? value
+      return [{ type: 'specification', key: attribute.key, label: attribute.label, value: normalized }]
+    })
+    const refined = applyRefinements(session.state, refinements, {
+      retailers: this.engine.getEnabledRetailers(),
+      referencePrice: session.referencePrice,
+    })
+    const userTurn: ConversationTurn = {
+      role: 'user',
+      text: `Filter: ${refined.changes.join(', ')}`,
+      timestamp: Date.now(),
+    }
+
+    return this.search(session, userTurn, 'refine', refined)
+  }
+
+  private async search(
+    session: ConversationSession,
+    userTurn: ConversationTurn,
+    kind: ConversationTurnKind,
+    refined: RefinedState
+  ): Promise<ConversationReply> {
+    logger.info(`Conversation ${session.id}: ${kind} ${JSON.stringify(refined.changes)}`)
+    const results = await this.engine.searchAllRetailers(toProductQuery(refined.state, session.pincode))
+
+    const now = Date.now()
+    const reply: ConversationTurn = {
+      role: 'assistant',
+      text: summarize(kind, refined.state, refined.changes, results),
+      timestamp: now,
+      kind,
+      state: refined.state,
+      changes: refined.changes,
+    }
+    const updated: ConversationSession = {
+      ...session,
+      updatedAt: now,
+      state: refined.state,
+      turns: [...session.turns, userTurn, reply].slice(-MAX_TURNS),
+      // Only the price is kept; the products themselves go back in the reply
+      referencePrice: medianPrice(results),
+      clarifying: null,
+    }
+
+    await this.save(updated)
+    return { session: updated, reply, results, insights: this.engine.getInsights(results) }
+  }
+
+  // Asks instead of running a weak search; the previous search is kept
+  private async askClarifyingQuestions(
+    session: ConversationSession,
+    userTurn: ConversationTurn,
+    clarifying: NonNullable<ConversationSession['clarifying']>,
+    questions: ClarifyingQuestion[]
+  ): Promise<ConversationReply> {
+    logger.info(`Conversation ${session.id}: clarify ${questions.map(question => question.field).join(', ')}`)
+
+    const now = Date.now()
+    const reply: ConversationTurn = {
+      role: 'assistant',
+      text: 'Could you tell me a little more so I can find the right products?',
+      timestamp: now,
+      kind: 'clarify',
+      questions,
+    }
+    const updated: ConversationSession = {
+      ...session,
+      updatedAt: now,
+      turns: [...session.turns, userTurn, reply].slice(-MAX_TURNS),
+      clarifying,
+    }
+
+    await this.save(updated)
+    return { session: updated, reply, results: null, insights: null }
+  }
+
+  private async save(session: ConversationSession): Promise<void> {
+    await this.store.set(KEY_PREFIX + session.id, JSON.stringify(session), this.ttlMs)
+  }
+}
@@ -0,0 +1,214 @@
+import { ConversationService } from '../ConversationService.js'
+import { CrossRetailerEngine } from '../../CrossRetailerEngine.js'
+import { IntentParserService } from '../../IntentParserService.js'
+import { MemoryCacheStore } from '../../cache/CacheStore.js'
+import { SearchResultCache } from '../../cache/SearchResultCache.js'
+import { IntentCache } from '../../cache/IntentCache.js'
+import { CircuitBreakerRegistry } from '../../retailers/CircuitBreaker.js'
+import { RetailerRegistry } from '../../retailers/RetailerRegistry.js'
+import { getRetailerConfigs } from '../../retailers/retailerConfigs.js'
+import { StubProvider } from '../../llm/StubProvider.js'
+import type { DeliveryInfo, Product, ProductQuery, RetailerAdapter, RetailerConfig } from '../../../types/index.js'
+
+const product = (id: string, brand: string, price: number): Product => ({
+  id,
+  retailer: 'amazon',
+  name: `Running shoes ${id}`,
+  brand,
+  price,
+  currency: '₹',
+  image: '',
+  description: '',
+  specifications: {},
+  availability: true,
+  deliveryInfo: { available: true, eta: '3-5 days', cost: 0 },
+  rating: 4,
+  reviewCount: 100,
+  matchScore: 0,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+})
+
+class StubAdapter implements RetailerAdapter {
+  readonly queries: ProductQuery[] = []
+
+  constructor(readonly config: RetailerConfig) {}
+
+  get name() {
+    return this.config.name
+  }
+
+  async search(query: ProductQuery): Promise<Product[]> {
+    this.queries.push(query)
+    return [product(`${this.name}-1`, 'Nike', 2000), product(`${this.name}-2`, 'Puma', 3000)]
+  }
+
+  async getProduct(): Promise<Product | null> {
+    return null
+  }
+
+  async checkDelivery(): Promise<DeliveryInfo> {
+    return { available: true, eta: '2-3 days', cost: 0 }
+  }
+}
+
+const createService = () => {
+  const adapters = getRetailerConfigs().map(config => new StubAdapter({ ...config, enabled: true }))
+  const engine = new CrossRetailerEngine(
+    new RetailerRegistry(adapters),
+    new CircuitBreakerRegistry(),
+    new SearchResultCache(new MemoryCacheStore())
+  )
+  // The stub provider answers with the keyword rules, so no network is needed
+  const parser = new IntentParserService(new StubProvider(), undefined, undefined, new IntentCache(new MemoryCacheStore()))
+  const service = new ConversationService(engine, parser, new MemoryCacheStore(), 60000)
+  return { service, amazon: adapters.find(adapter => adapter.name === 'amazon')! }
+}
+
+describe('ConversationService', () => {
+  it('runs the first message as a search', async () => {
+    const { service } = createService()
+    const session = await service.start('110001')
+
+    const reply = await service.sendMessage(session.id, 'running shoes under 3000')
+
+    expect(reply?.reply.kind).toBe('search')
+    expect(reply?.reply.state?.intent).toMatchObject({ productType: 'shoes', budget: { min: 0, max: 3000 } })
+    expect(reply?.session.turns.map(turn => turn.role)).toEqual(['user', 'assistant'])
+    expect(reply?.results?.amazon.products).toHaveLength(2)
+    // The session keeps the middle price, not every retailer's products
+    expect(reply?.session.referencePrice).toBe(3000)
+    expect(reply?.session).not.toHaveProperty('results')
+  })
+
+  it('refines the previous search and keeps what was not changed', async () => {
+    const { service, amazon } = createService()
+    const { id } = await service.start('110001')
+    await service.sendMessage(id, 'running shoes under 3000')
+
+    const reply = await service.sendMessage(id, 'in black, not nike')
+
+    expect(reply?.reply.kind).toBe('refine')
+    expect(reply?.reply.changes).toEqual(['Colour: black', 'Excluding Nike'])
+    expect(reply?.reply.state).toMatchObject({
+      intent: { productType: 'shoes', budget: { min: 0, max: 3000 }, specifications: { color: 'black' } },
+      excludedBrands: ['Nike'],
+    })
+    expect(amazon.queries.at(-1)?.filters).toMatchObject({ color: 'black', excludeBrands: ['Nike'] })
+    expect(reply?.results?.amazon.products.map(item => item.brand)).toEqual(['Puma'])
+  })
+
+  it('switches retailers and lowers the budget across turns', async () => {
+    const { service } = createService()
+    const { id } = await service.start('110001')
+    await service.sendMessage(id, 'running shoes under 3000')
+    await service.sendMessage(id, 'only on amazon')
+
+    const reply = await service.sendMessage(id, 'cheaper ones')
+
+    expect(reply?.reply.state?.retailers).toEqual(['amazon'])
+    expect(reply?.reply.state?.intent?.budget).toEqual({ min: 0, max: 2400 })
+    expect(reply?.results?.flipkart.status).toBe('skipped')
+    expect(reply?.session.turns).toHaveLength(6)
+  })
+
+  it('searches with a lower bound alone when the shopper asks for more expensive ones', async () => {
+    const { service, amazon } = createService()
+    const { id } = await service.start('110001')
+    await service.sendMessage(id, 'running shoes under 3000')
+
+    const reply = await service.sendMessage(id, 'above 5000')
+
+    expect(reply?.reply.state?.intent?.budget).toMatchObject({ min: 5000, max: null })
+    expect(amazon.queries.at(-1)?.budget).toEqual({ min: 5000 })
+  })
+
+  it('starts over when the shopper asks for something else', async () => {
+    const { service } = createService()
+    const { id } = await service.start('110001')
+    await service.sendMessage(id, 'running shoes under 3000')
+    await service.sendMessage(id, 'not on meesho')
+
+    const reply = await service.sendMessage(id, 'red shirt under 1000')
+
+    expect(reply?.reply.kind).toBe('search')
+    expect(reply?.reply.state).toMatchObject({
+      intent: { productType: 'shirt', budget: { min: 0, max: 1000 } },
+      excludedBrands: [],
+      retailers: null,
+    })
+  })
+
+  it('applies and clears filters from the category schema', async () => {
+    const { service, amazon } = createService()
+    const { id } = await service.start('110001')
+    const first = await service.sendMessage(id, 'running shoes under 3000')
+    expect(first?.reply.state?.intent?.category?.id).toBe('fashion.footwear.running-shoes')
+
+    const filtered = await service.applyFilters(id, { 'shoe size': '9', color: 'Black' })
+
+    expect(filtered?.reply.kind).toBe('refine')
+    expect(filtered?.reply.changes).toEqual(['Shoe size: UK 9', 'Colour: black'])
+    expect(filtered?.session.turns.at(-2)?.text).toBe('Filter: Shoe size: UK 9, Colour: black')
+    expect(amazon.queries.at(-1)).toMatchObject({
+      category: 'fashion.footwear.running-shoes',
+      filters: { color: 'black', specifications: { size: 'UK 9', color: 'black' } },
+    })
+
+    const cleared = await service.applyFilters(id, { size: null })
+
+    expect(cleared?.reply.changes).toEqual(['Shoe size: any'])
+    expect(cleared?.reply.state?.intent?.specifications).toEqual({ color: 'black' })
+  })
+
+  it('refuses filters before a categorised search', async () => {
+    const { service } = createService()
+    const { id } = await service.start('110001')
+
+    await expect(service.applyFilters(id, { size: '9' })).rejects.toThrow('no category to filter')
+    expect(await service.applyFilters('missing', { size: '9' })).toBeNull()
+  })
+
+  it('asks clarifying questions for a vague message and searches with the answer', async () => {
+    const { service, amazon } = createService()
+    const { id } = await service.start('110001')
+
+    const question = await service.sendMessage(id, 'something for my dad')
+
+    expect(question?.reply.kind).toBe('clarify')
+    expect(question?.reply.questions?.map(item => item.field)).toEqual(['category', 'budget', 'occasion'])
+    expect(question?.insights).toBeNull()
+    expect(amazon.queries).toHaveLength(0)
+
+    const answer = await service.sendMessage(id, 'watch')
+
+    expect(answer?.reply.kind).toBe('search')
+    expect(answer?.reply.state?.intent?.productType).toBe('watch')
+    expect(answer?.session.clarifying).toBeNull()
+    expect(amazon.queries).toHaveLength(1)
+  })
+
+  it('stops asking after two rounds of questions', async () => {
+    const { service } = createService()
+    const { id } = await service.start('110001')
+    await service.sendMessage(id, 'something for my dad')
+    const second = await service.sendMessage(id, 'under 1000')
+
+    expect(second?.reply.kind).toBe('clarify')
+    expect(second?.reply.questions?.map(item => item.field)).toEqual(['category', 'occasion'])
+
+    const third = await service.sendMessage(id, 'for a birthday')
+    expect(third?.reply.kind).toBe('search')
+  })
+
+  it('returns null for unknown or ended conversations', async () => {
+    const { service } = createService()
+    const { id } = await service.start('110001')
+
+    expect(await service.end(id)).toBe(true)
+    expect(await service.get(id)).toBeNull()
+    expect(await service.sendMessage(id, 'running shoes')).toBeNull()
+  })
+})
@@ -0,0 +1,108 @@
+import { applyRefinements, isNewSearch, parseRefinements } from '../refinements.js'
+import type { ConversationState, RetailerName } from '../../../types/index.js'
+
+const shoes: ConversationState = {
+  intent: { productType: 'shoes', budget: { min: 0, max: 3000 }, features: ['running'], specifications: {} },
+  excludedBrands: [],
+  retailers: null,
+}
+
+const retailers: RetailerName[] = ['amazon', 'flipkart', 'myntra', 'meesho']
+const refine = (message: string, state = shoes) =>
+  applyRefinements(state, parseRefinements(message), { retailers, referencePrice: 2500 })
+
+describe('parseRefinements', () => {
+  it.each([
+    ['show these in black', [{ type: 'color', color: 'black' }]],
+    ['kaala wala dikhao', [{ type: 'color', color: 'black' }]],
+    ['under 2000 please', [{ type: 'budget', budget: { min: 0, max: 2000, confidence: 0.9 } }]],
+    ['cheaper ones', [{ type: 'cheaper' }]],
+    ['thode saste dikhao', [{ type: 'cheaper' }]],
+    ['something more premium', [{ type: 'pricier' }]],
+    ['not nike', [{ type: 'exclude_brand', brand: 'Nike' }]],
+    ['puma nahi chahiye', [{ type: 'exclude_brand', brand: 'Puma' }]],
+    ['only boAt', [{ type: 'brand', brand: 'boAt' }]],
+    ['only on amazon', [{ type: 'retailers', retailers: ['amazon'] }]],
+    ['switch to flipkart or myntra', [{ type: 'retailers', retailers: ['flipkart', 'myntra'] }]],
+    ['not on meesho', [{ type: 'exclude_retailer', retailer: 'meesho' }]],
+    ['check all stores', [{ type: 'all_retailers' }]],
+  ])('reads %j', (message, expected) => {
+    expect(parseRefinements(message)).toEqual(expected)
+  })
+
+  it('reads several changes from one message', () => {
+    expect(parseRefinements('in blue, no more than 2500 and not nike')).toEqual([
+      { type: 'color', color: 'blue' },
+      { type: 'budget', budget: { min: 0, max: 2500, confidence: 0.9 } },
+      { type: 'exclude_brand', brand: 'Nike' },
+    ])
+  })
+
+  it('does not read filler words as brands', () => {
+    expect(parseRefinements('not too expensive')).toEqual([])
+    expect(parseRefinements('only black')).toEqual([{ type: 'color', color: 'black' }])
+  })
+})
+
+describe('isNewSearch', () => {
+  it('treats a message without refinements as a new search', () => {
+    expect(isNewSearch('wireless earbuds for the gym', shoes, parseRefinements('wireless earbuds for the gym'))).toBe(true)
+  })
+
+  it('starts over when a different product is named', () => {
+    const message = 'red shirt under 1000'
+    expect(isNewSearch(message, shoes, parseRefinements(message))).toBe(true)
+  })
+
+  it('refines when the message points back at the results', () => {
+    const message = 'same shoes in red'
+    expect(isNewSearch(message, shoes, parseRefinements(message))).toBe(false)
+  })
+
+  it('always starts with a search', () => {
+    const empty: ConversationState = { intent: null, excludedBrands: [], retailers: null }
+    expect(isNewSearch('in black', empty, parseRefinements('in black'))).toBe(true)
+  })
+})
+
+describe('applyRefinements', () => {
+  it('keeps the previous intent and changes only what was asked', () => {
+    const { state, changes } = refine('in black')
+
+    expect(state.intent).toEqual({
+      productType: 'shoes',
+      budget: { min: 0, max: 3000 },
+      features: ['running'],
+      specifications: { color: 'black' },
+    })
+    expect(changes).toEqual(['Colour: black'])
+    expect(shoes.intent?.specifications).toEqual({})
+  })
+
+  it('lowers the budget for "cheaper"', () => {
+    expect(refine('cheaper').state.intent?.budget).toEqual({ min: 0, max: 2400 })
+  })
+
+  it('measures "cheaper" against the results when no budget was given', () => {
+    const state = { ...shoes, intent: { ...shoes.intent!, budget: null } }
+    expect(refine('cheaper', state).state.intent?.budget).toEqual({ min: 0, max: 2000 })
+  })
+
+  it('excludes a brand and drops it as the chosen brand', () => {
+    const state = { ...shoes, intent: { ...shoes.intent!, brand: 'Nike' } }
+    const refined = refine('not nike', state)
+
+    expect(refined.state.excludedBrands).toEqual(['Nike'])
+    expect(refined.state.intent?.brand).toBeUndefined()
+    expect(refined.changes).toEqual(['Excluding Nike'])
+  })
+
+  it('narrows and widens the retailers', () => {
+    const withoutMeesho = refine('not on meesho')
+    expect(withoutMeesho.state.retailers).toEqual(['amazon', 'flipkart', 'myntra'])
+    expect(withoutMeesho.changes).toEqual(['Not on Meesho'])
+
+    expect(refine('only on amazon').state.retailers).toEqual(['amazon'])
+    expect(refine('all stores', withoutMeesho.state).state.retailers).toBeNull()
+  })
+})
@@ -0,0 +1,257 @@
+import { parseBudget } from '../intent/budgetGrammar.js'
+import { COLOUR_TERMS, FEATURE_TERMS, PRODUCT_TERMS } from '../intent/lexicon.js'
+import { findColourTerm, normalizeIndicText, tokenizeIndic } from '../intent/multilingual.js'
+import { parseIntentWithRules } from '../intent/ruleBasedIntent.js'
+import { normalizeBrand } from '../matching/normalize.js'
+import { formatRupees } from '../ranking/format.js'
+import type { BudgetRange, ConversationState, RetailerName } from '../../types/index.js'
+
+export type Refinement =
+  | { type: 'color'; color: string }
+  | { type: 'budget'; budget: BudgetRange }
+  | { type: 'cheaper' }
+  | { type: 'pricier' }
+  | { type: 'brand'; brand: string }
+  | { type: 'exclude_brand'; brand: string }
+  | { type: 'retailers'; retailers: RetailerName[] }
+  | { type: 'exclude_retailer'; retailer: RetailerName }
+  | { type: 'all_retailers' }
+  // From the filter panel; a null value clears the filter
+  | { type: 'specification'; key: string; label: string; value: string | null }
+
+export interface RefinementContext {
+  // Retailers a conversation can search, used when one is ruled out
+  retailers: RetailerName[]
+  // Price the shopper is reacting to when they ask for "cheaper"
+  referencePrice: number | null
+}
+
+export interface RefinedState {
+  state: ConversationState
+  // One short line per change, e.g. "Colour: black"
+  changes: string[]
+}
+
+const RETAILER_NAMES: RetailerName[] = ['amazon', 'flipkart', 'myntra', 'meesho']
+
+// "cheaper" asks for 80% of the price they were looking at
+const CHEAPER_STEP = 0.8
+
+const WORD = String.raw`([\p{L}\d][\p{L}\d&'-]*)`
+const NEGATION = String.raw`(?<![\p{L}\d])(?:not|no|without|except|excluding|avoid|skip|other\s+than|anything\s+but)`
+const HINDI_NEGATION = String.raw`(?:nahi|nahin|mat|नहीं|मत)`
+
+const EXCLUDE_RETAILER_BEFORE = new RegExp(`${NEGATION}\\s+(?:on\\s+|from\\s+|at\\s+)?(${RETAILER_NAMES.join('|')})`, 'gu')
+const EXCLUDE_RETAILER_AFTER = new RegExp(`(${RETAILER_NAMES.join('|')})\\s+(?:se\\s+|par\\s+|pe\\s+)?${HINDI_NEGATION}`, 'gu')
+const ALL_RETAILERS = /\b(?:all|every|any)\s+(?:retailers?|stores?|sites?|shops?)\b|\beverywhere\b/u
+
+const EXCLUDE_BRAND_BEFORE = new RegExp(`${NEGATION}\\s+(?:from\\s+|by\\s+)?${WORD}`, 'gu')
+const EXCLUDE_BRAND_AFTER = new RegExp(`${WORD}\\s+(?:${HINDI_NEGATION}|ke\\s+(?:alawa|alava|siva|siwa))`, 'gu')
+const ONLY_BRAND = new RegExp(`(?<![\\p{L}\\d])(?:only|just|sirf|brand)\\s+(?:from\\s+|by\\s+)?${WORD}|${WORD}\\s+(?:brand|only)\\b`, 'gu')
+
+const CHEAPER = /\b(?:cheaper|cheapest|cheap|less\s+expensive|lower\s+price|more\s+affordable|sast[aeiy]|kam\s+(?:daam|dam|price|keemat))\b|सस्त/u
+const PRICIER = /\b(?:costlier|pricier|more\s+expensive|premium|higher\s+end|better\s+quality|meh[e]?nga|meh[e]?nge|mehngi)\b|महंग/u
+
+// References to the previous results ("same in black", "show cheaper ones")
+const ANAPHORA = /\b(?:same|these|those|them|ones?|it|similar|instead|wahi|vahi|yahi|inme|isme|inmein|ismein)\b/u
+
+// Words that follow "not" or "only" without naming a brand
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'one', 'ones', 'too', 'so', 'very', 'more', 'less',
+  'over', 'above', 'under', 'below', 'sure', 'expensive', 'costly', 'cheap', 'cheaper', 'show', 'me', 'any',
+  'and', 'or', 'in', 'on', 'at', 'from', 'by', 'for', 'with', 'chahiye', 'hai', 'ye', 'yeh', 'wo', 'woh', 'koi',
+  'aur', 'kuch', 'mujhe', 'sasta', 'saste', 'mehenga', 'mehnga', 'budget', 'price', 'color', 'colour', 'size',
+])
+
+// English product words: "not shoes" or "only shirts" name no brand
+const PRODUCT_WORDS = new Set(Object.values(PRODUCT_TERMS).flatMap(term => [term, term.replace(/s$/, ''), `${term}s`]))
+
+const isBrandWord = (word: string): boolean => {
+  return !STOP_WORDS.has(word)
+    && !/^\d/.test(word)
+    && !(word in COLOUR_TERMS)
+    && !(word in FEATURE_TERMS)
+    && !(word in PRODUCT_TERMS)
+    && !PRODUCT_WORDS.has(word)
+    && !(RETAILER_NAMES as string[]).includes(word)
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+// Keeps the shopper's spelling ("BrandA", "boAt"); all-lowercase words are capitalized
+const displayBrand = (word: string, message: string): string => {
+  const index = message.toLowerCase().indexOf(word)
+  const original = index === -1 ? word : message.slice(index, index + word.length)
+  return original === word ? capitalize(word) : original
+}
+
+const collect = (text: string, patterns: RegExp[]): string[] => {
+  return patterns.flatMap(pattern => [...text.matchAll(pattern)].map(match => match.slice(1).find(Boolean) ?? ''))
+}
+
+// Reads a follow-up message ("in black", "not Nike", "only on Amazon",
+// "cheaper ones") as changes to the previous search. English, Hinglish and
+// Devanagari colour and budget words are understood.
+export const parseRefinements = (message: string): Refinement[] => {
+  const text = normalizeIndicText(message)
+  const refinements: Refinement[] = []
+
+  const color = findColourTerm(tokenizeIndic(message))
+  if (color) {
+    refinements.push({ type: 'color', color })
+  }
+
+  const budget = parseBudget(message)
+  if (budget) {
+    refinements.push({ type: 'budget', budget })
+  } else if (CHEAPER.test(text)) {
+    refinements.push({ type: 'cheaper' })
+  } else if (PRICIER.test(text)) {
+    refinements.push({ type: 'pricier' })
+  }
+
+  const excludedRetailers = new Set(collect(text, [EXCLUDE_RETAILER_BEFORE, EXCLUDE_RETAILER_AFTER]) as RetailerName[])
+  excludedRetailers.forEach(retailer => refinements.push({ type: 'exclude_retailer', retailer }))
+
+  const wantedRetailers = RETAILER_NAMES.filter(retailer => text.includes(retailer) && !excludedRetailers.has(retailer))
+  if (wantedRetailers.length > 0) {
+    refinements.push({ type: 'retailers', retailers: wantedRetailers })
+  } else if (ALL_RETAILERS.test(text)) {
+    refinements.push({ type: 'all_retailers' })
+  }
+
+  const excludedBrands = new Set(collect(text, [EXCLUDE_BRAND_BEFORE, EXCLUDE_BRAND_AFTER]).filter(isBrandWord))
+  excludedBrands.forEach(brand => refinements.push({ type: 'exclude_brand', brand: displayBrand(brand, message) }))
+
+  const brand = collect(text, [ONLY_BRAND]).find(word => isBrandWord(word) && !excludedBrands.has(word))
+  if (brand) {
+    refinements.push({ type: 'brand', brand: displayBrand(brand, message) })
+  }
+
+  return refinements
+}
+
+// A message starts over when nothing in it refines the previous search, or
+// when it names a different product without pointing back at the results
+// ("red shirt under 1000" after a shoe search).
+export const isNewSearch = (message: string, state: ConversationState, refinements: Refinement[]): boolean => {
+  if (!state.intent || refinements.length === 0) {
+    return true
+  }
+
+  const { productType } = parseIntentWithRules(message)
+  return productType !== 'product'
+    && !state.intent.productType.toLowerCase().includes(productType)
+    && !ANAPHORA.test(normalizeIndicText(message))
+}
+
+export const describeBudget = (budget: BudgetRange): string => {
+  if (budget.max === null) {
+    return `above ${formatRupees(budget.min)}`
+  }
+  return budget.min > 0 ? `${formatRupees(budget.min)}-${formatRupees(budget.max)}` : `under ${formatRupees(budget.max)}`
+}
+
+const describeRetailers = (retailers: RetailerName[]) => retailers.map(capitalize).join(', ')
+
+// Applies refinements in order to a copy of the state. Refinements that need
+// a previous search ("cheaper" with no price to go from) are skipped.
+export const applyRefinements = (
+  current: ConversationState,
+  refinements: Refinement[],
+  context: RefinementContext
+): RefinedState => {
+  const state: ConversationState = {
+    intent: current.intent
+      ? { ...current.intent, specifications: { ...current.intent.specifications } }
+      : null,
+    excludedBrands: [...current.excludedBrands],
+    retailers: current.retailers ? [...current.retailers] : null,
+  }
+  const changes: string[] = []
+  const intent = state.intent
+
+  refinements.forEach(refinement => {
+    switch (refinement.type) {
+      case 'color':
+        if (intent) {
+          intent.specifications = { ...intent.specifications, color: refinement.color }
+          changes.push(`Colour: ${refinement.color}`)
+        }
+        break
+      case 'budget':
+        if (intent) {
+          intent.budget = refinement.budget
+          changes.push(`Budget: ${describeBudget(refinement.budget)}`)
+        }
+        break
+      case 'cheaper': {
+        const reference = intent?.budget?.max ?? context.referencePrice
+        if (intent && reference) {
+          const max = Math.floor((reference * CHEAPER_STEP) / 100) * 100 || Math.round(reference * CHEAPER_STEP)
+          const min = intent.budget && intent.budget.min < max ? intent.budget.min : 0
+          intent.budget = { min, max }
+          changes.push(`Budget: ${describeBudget(intent.budget)}`)
+        }
+        break
+      }
+      case 'pricier': {
+        const reference = intent?.budget?.max ?? context.referencePrice
+        if (intent && reference) {
+          intent.budget = { min: reference, max: null }
+          changes.push(`Budget: ${describeBudget(intent.budget)}`)
+        }
+        break
+      }
+      case 'brand':
+        if (intent) {
+          intent.brand = refinement.brand
+          state.excludedBrands = state.excludedBrands.filter(brand => normalizeBrand(brand) !== normalizeBrand(refinement.brand))
+          changes.push(`Brand: ${intent.brand}`)
+        }
+        break
+      case 'exclude_brand': {
+        const excluded = normalizeBrand(refinement.brand)
+        if (!state.excludedBrands.some(brand => normalizeBrand(brand) === excluded)) {
+          state.excludedBrands.push(refinement.brand)
+        }
+        if (intent && normalizeBrand(intent.brand) === excluded) {
+          delete intent.brand
+        }
+        changes.push(`Excluding ${refinement.brand}`)
+        break
+      }
+      case 'retailers':
+        state.retailers = refinement.retailers
+        changes.push(`Only on ${describeRetailers(refinement.retailers)}`)
+        break
+      case 'exclude_retailer': {
+        const remaining = (state.retailers ?? context.retailers).filter(retailer => retailer !== refinement.retailer)
+        // Ruling out the last retailer would leave nothing to search
+        if (remaining.length > 0) {
+          state.retailers = remaining
+          changes.push(`Not on ${capitalize(refinement.retailer)}`)
+        }
+        break
+      }
+      case 'all_retailers':
+        state.retailers = null
+        changes.push('All retailers')
+        break
+      case 'specification':
+        if (intent) {
+          const specifications = { ...intent.specifications }
+          if (refinement.value === null) {
+            delete specifications[refinement.key]
+          } else {
+            specifications[refinement.key] = refinement.value
+          }
+          intent.specifications = specifications
+          changes.push(`${refinement.label}: ${refinement.value ?? 'any'}`)
+        }
+        break
+    }
+  })
+
+  return { state, changes }
+}
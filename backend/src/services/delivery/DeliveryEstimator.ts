@@ -0,0 +1,165 @@
+import { getPincodeDirectory, PincodeDirectory } from '../pincode/PincodeDirectory.js'
+import { ServiceabilityMatrix } from './ServiceabilityMatrix.js'
+import {
+  DELIVERY_CALENDAR,
+  FALLBACK_DISTANCE_KM,
+  RETAILER_LOGISTICS,
+  TRANSIT_DAYS,
+  ZONE_EXTRA_DAYS,
+  ZONE_SPREAD_DAYS,
+} from './deliveryRules.js'
+import type { DeliveryCalendar, DeliveryOptionRule, RetailerLogistics, WarehouseHub } from './deliveryRules.js'
+import type { DeliveryEstimate, DeliveryInfo, GeoPoint, RetailerName, ServiceZone } from '../../types/index.js'
+
+interface NearestHub {
+  hub: WarehouseHub
+  distanceKm: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+// India has one time zone and no daylight saving
+const IST_OFFSET_MS = 5.5 * HOUR_MS
+
+// Calendar days are counted as whole days since the epoch, in India time
+const toDay = (date: Date): number => Math.floor((date.getTime() + IST_OFFSET_MS) / DAY_MS)
+const toIsoDate = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10)
+
+const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = radians(b.lat - a.lat)
+  const dLng = radians(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.lat)) * Math.cos(radians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return Math.round(2 * 6371 * Math.asin(Math.sqrt(h)))
+}
+
+const formatEta = (minDays: number, maxDays: number): string => {
+  if (maxDays === 0) {
+    return 'Today'
+  }
+  if (minDays === maxDays) {
+    return maxDays === 1 ? 'Tomorrow' : `${maxDays} days`
+  }
+  return `${minDays}-${maxDays} days`
+}
+
+// The short form carried on products and adapter delivery checks
+export const toDeliveryInfo = (estimate: DeliveryEstimate): DeliveryInfo => ({
+  available: estimate.available,
+  eta: estimate.available ? estimate.eta : '',
+  cost: estimate.cost,
+  window: estimate.window,
+})
+
+// Works out when and for how much a retailer delivers to a pincode, for each
+// of its delivery options: distance from the nearest warehouse hub and the
+// pincode's zone set the transit time and cost; the order cut-off, handling
+// time, Sundays and holidays turn that into dates.
+export class DeliveryEstimator {
+  constructor(
+    private readonly logistics: Record<RetailerName, RetailerLogistics> = RETAILER_LOGISTICS,
+    private readonly calendar: DeliveryCalendar = DELIVERY_CALENDAR,
+    private readonly zones: ServiceabilityMatrix = new ServiceabilityMatrix(),
+    private readonly directory: PincodeDirectory = getPincodeDirectory(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  // One estimate per option the retailer has, including ones not offered here
+  estimate(retailer: RetailerName, pincode: string): DeliveryEstimate[] {
+    const logistics = this.logistics[retailer]
+    const zone = this.zones.getZone(pincode)
+    const nearest = this.findNearestHub(logistics.hubs, this.directory.lookup(pincode)?.location ?? null)
+    const distance = nearest.distanceKm ?? FALLBACK_DISTANCE_KM[zone]
+
+    return logistics.options.map(option => ({
+      option: option.name,
+      type: option.type,
+      ...this.availability(option, zone, distance, nearest),
+      ...this.schedule(logistics, option, zone, distance),
+      cost: this.cost(logistics, option, zone, distance),
+      hub: nearest.hub.city,
+      distanceKm: nearest.distanceKm,
+    }))
+  }
+
+  // The retailer's default option: its first standard one
+  estimateStandard(retailer: RetailerName, pincode: string): DeliveryEstimate {
+    const estimates = this.estimate(retailer, pincode)
+    return estimates.find(estimate => estimate.type === 'standard') ?? estimates[0]
+  }
+
+  private schedule(logistics: RetailerLogistics, option: DeliveryOptionRule, zone: ServiceZone, distance: number) {
+    const now = this.now()
+    const today = toDay(now)
+    const hour = ((now.getTime() + IST_OFFSET_MS) % DAY_MS) / HOUR_MS
+
+    const dispatch = this.isWorkingDay(today) && hour < option.cutoffHour ? today : this.addWorkingDays(today, 1)
+
+    const transit = (TRANSIT_DAYS.find(band => distance <= band.maxKm)?.days ?? 5) + ZONE_EXTRA_DAYS[zone]
+    // Same-day stock is held in the city hub, so it skips the seller's handling time
+    const [handling, minTransit, spread] = option.type === 'same_day'
+      ? [0, 0, 0]
+      : option.type === 'express'
+        ? [logistics.handlingDays, Math.max(1, transit - 1), 0]
+        : [logistics.handlingDays, transit, ZONE_SPREAD_DAYS[zone]]
+
+    const earliest = this.addWorkingDays(dispatch, handling + minTransit)
+    const latest = this.addWorkingDays(earliest, spread)
+    const cutoff = String(option.cutoffHour).padStart(2, '0')
+
+    return {
+      window: { earliest: toIsoDate(earliest), latest: toIsoDate(latest) },
+      minDays: earliest - today,
+      maxDays: latest - today,
+      eta: formatEta(earliest - today, latest - today),
+      orderBy: `${toIsoDate(dispatch)}T${cutoff}:00:00+05:30`,
+    }
+  }
+
+  private availability(option: DeliveryOptionRule, zone: ServiceZone, distance: number, nearest: NearestHub) {
+    if (!option.zones.includes(zone)) {
+      return { available: false, reason: `${option.name} is not offered in ${zone} areas` }
+    }
+    if (option.maxDistanceKm !== undefined && distance > option.maxDistanceKm) {
+      return {
+        available: false,
+        reason: `${option.name} needs a hub within ${option.maxDistanceKm} km; ` +
+          (nearest.distanceKm === null ? 'the pincode\'s location is not known' : `the nearest is ${nearest.hub.city}`),
+      }
+    }
+    return { available: true }
+  }
+
+  // The long-haul surcharge only applies to options that charge for delivery
+  private cost(logistics: RetailerLogistics, option: DeliveryOptionRule, zone: ServiceZone, distance: number): number {
+    const base = option.cost[zone]
+    return base > 0 ? base + Math.floor(distance / logistics.longHaulKm) * logistics.longHaulFee : 0
+  }
+
+  // Without coordinates the first hub stands in, at the zone's fallback distance
+  private findNearestHub(hubs: WarehouseHub[], location: GeoPoint | null): NearestHub {
+    if (!location) {
+      return { hub: hubs[0], distanceKm: null }
+    }
+    const [nearest] = hubs
+      .map(hub => ({ hub, distanceKm: distanceKm(hub.location, location) }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+    return nearest
+  }
+
+  private addWorkingDays(day: number, count: number): number {
+    let result = day
+    for (let added = 0; added < count;) {
+      result += 1
+      if (this.isWorkingDay(result)) {
+        added += 1
+      }
+    }
+    return result
+  }
+
+  private isWorkingDay(day: number): boolean {
+    const weekday = new Date(day * DAY_MS).getUTCDay()
+    return !this.calendar.nonWorkingWeekdays.includes(weekday) && !this.calendar.holidays.includes(toIsoDate(day))
+  }
+}
@@ -0,0 +1,71 @@
+import { getPincodeDirectory, PincodeDirectory } from '../pincode/PincodeDirectory.js'
+import { METRO_REGIONS, REMOTE_REGIONS, RETAILER_SERVICEABILITY } from './serviceabilityRules.js'
+import type { RetailerServiceability, ServiceRegion } from './serviceabilityRules.js'
+import type { RetailerName, ServiceabilityCheck, ServiceZone } from '../../types/index.js'
+
+export interface ZoneRules {
+  metro: ServiceRegion[]
+  remote: ServiceRegion[]
+}
+
+// Whether a category id is the given category or one of its children
+const inCategory = (category: string, parent: string): boolean => {
+  return category === parent || category.startsWith(`${parent}.`)
+}
+
+// Decides, the same way every time, whether a retailer delivers to a pincode:
+// the pincode must be in the retailer's serviceable regions, outside its
+// blocked ones, and the category must not be limited in the pincode's zone.
+export class ServiceabilityMatrix {
+  constructor(
+    private readonly rules: Record<RetailerName, RetailerServiceability> = RETAILER_SERVICEABILITY,
+    private readonly zones: ZoneRules = { metro: METRO_REGIONS, remote: REMOTE_REGIONS },
+    private readonly directory: PincodeDirectory = getPincodeDirectory()
+  ) {}
+
+  getZone(pincode: string): ServiceZone {
+    if (this.zones.remote.some(region => this.inRegion(pincode, region))) {
+      return 'remote'
+    }
+    if (this.zones.metro.some(region => this.inRegion(pincode, region))) {
+      return 'metro'
+    }
+    return 'standard'
+  }
+
+  // category is a category id such as "electronics.large-appliances"
+  check(retailer: RetailerName, pincode: string, category?: string): ServiceabilityCheck {
+    const rules = this.rules[retailer]
+    const zone = this.getZone(pincode)
+
+    if (rules.serviceable && !rules.serviceable.some(region => this.inRegion(pincode, region))) {
+      return { serviceable: false, zone, reason: `Does not deliver to ${pincode}` }
+    }
+
+    const blocked = rules.blocked.find(region => this.inRegion(pincode, region))
+    if (blocked) {
+      return { serviceable: false, zone, reason: `Does not deliver to ${blocked.label}` }
+    }
+
+    const limit = category
+      ? rules.categoryLimits.find(entry =>
+        entry.zones.includes(zone) && entry.categories.some(parent => inCategory(category, parent)))
+      : undefined
+    if (limit) {
+      return { serviceable: false, zone, reason: limit.reason }
+    }
+
+    return { serviceable: true, zone }
+  }
+
+  private inRegion(pincode: string, region: ServiceRegion): boolean {
+    if (region.ranges?.some(range => pincode >= range.from && pincode <= range.to)) {
+      return true
+    }
+    if (region.states) {
+      const state = this.directory.lookup(pincode)?.state.toLowerCase()
+      return state !== undefined && region.states.some(name => name.toLowerCase() === state)
+    }
+    return false
+  }
+}
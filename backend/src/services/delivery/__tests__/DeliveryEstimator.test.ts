@@ -0,0 +1,114 @@
+import { DeliveryEstimator, toDeliveryInfo } from '../DeliveryEstimator.js'
+import { ServiceabilityMatrix } from '../ServiceabilityMatrix.js'
+import { PincodeDirectory } from '../../pincode/PincodeDirectory.js'
+import { DELIVERY_CALENDAR } from '../deliveryRules.js'
+import type { DeliveryCalendar } from '../deliveryRules.js'
+import type { PincodeDataset } from '../../../types/index.js'
+
+const place = (district: string, state: string, lat: number | null, lng = 0) => ({
+  district,
+  state,
+  offices: [],
+  deliverable: true,
+  location: lat === null ? null : { lat, lng },
+})
+
+const directory = new PincodeDirectory((): PincodeDataset => ({
+  version: 'test',
+  source: 'test',
+  generatedAt: '',
+  pincodes: {
+    110001: place('New Delhi', 'Delhi', 28.6282, 77.2165),
+    302001: place('Jaipur', 'Rajasthan', 26.9124, 75.7873),
+    744101: place('South Andaman', 'Andaman and Nicobar Islands', 11.6234, 92.7265),
+    400038: place('Mumbai', 'Maharashtra', null),
+  },
+}))
+
+const NO_HOLIDAYS: DeliveryCalendar = { nonWorkingWeekdays: [0], holidays: [] }
+
+// Times are India time; 19 Oct 2026 is a Monday
+const createEstimator = (at: string, calendar = NO_HOLIDAYS) => new DeliveryEstimator(
+  undefined,
+  calendar,
+  new ServiceabilityMatrix(undefined, undefined, directory),
+  directory,
+  () => new Date(`${at}+05:30`)
+)
+
+describe('DeliveryEstimator', () => {
+  it('dates each option from the nearest hub, before the cut-off', () => {
+    const estimates = createEstimator('2026-10-19T10:00:00').estimate('amazon', '110001')
+
+    expect(estimates.map(({ option, available, window, eta, cost }) => ({ option, available, window, eta, cost })))
+      .toEqual([
+        { option: 'Standard', available: true, window: { earliest: '2026-10-20', latest: '2026-10-21' }, eta: '1-2 days', cost: 0 },
+        { option: 'Prime', available: true, window: { earliest: '2026-10-20', latest: '2026-10-20' }, eta: 'Tomorrow', cost: 0 },
+        { option: 'Same Day', available: true, window: { earliest: '2026-10-19', latest: '2026-10-19' }, eta: 'Today', cost: 99 },
+      ])
+    expect(estimates[0]).toMatchObject({ hub: 'Delhi NCR', orderBy: '2026-10-19T18:00:00+05:30', minDays: 1, maxDays: 2 })
+    expect(estimates[0].distanceKm).toBeLessThan(50)
+  })
+
+  it('dispatches the next working day after the cut-off, skipping Sunday', () => {
+    const lateMonday = createEstimator('2026-10-19T19:00:00').estimateStandard('amazon', '110001')
+    const lateSaturday = createEstimator('2026-10-24T19:00:00').estimateStandard('amazon', '110001')
+
+    expect(lateMonday).toMatchObject({
+      window: { earliest: '2026-10-21', latest: '2026-10-22' },
+      orderBy: '2026-10-20T18:00:00+05:30',
+    })
+    expect(lateSaturday).toMatchObject({
+      window: { earliest: '2026-10-27', latest: '2026-10-28' },
+      orderBy: '2026-10-26T18:00:00+05:30',
+      minDays: 3,
+      maxDays: 4,
+      eta: '3-4 days',
+    })
+  })
+
+  it('neither dispatches nor delivers on holidays', () => {
+    // Dussehra falls on 20 Oct 2026
+    const estimate = createEstimator('2026-10-19T10:00:00', DELIVERY_CALENDAR).estimateStandard('amazon', '110001')
+
+    expect(estimate.window).toEqual({ earliest: '2026-10-21', latest: '2026-10-22' })
+    expect(createEstimator('2026-10-20T10:00:00', DELIVERY_CALENDAR).estimateStandard('amazon', '110001').orderBy)
+      .toBe('2026-10-21T18:00:00+05:30')
+  })
+
+  it('adds the seller\'s handling time and transit by distance and zone', () => {
+    const jaipur = createEstimator('2026-10-19T10:00:00').estimateStandard('meesho', '302001')
+    const portBlair = createEstimator('2026-10-19T10:00:00').estimateStandard('meesho', '744101')
+
+    // Two handling days, then two days from the Delhi hub
+    expect(jaipur).toMatchObject({ hub: 'Delhi NCR', window: { earliest: '2026-10-23', latest: '2026-10-24' }, cost: 60 })
+    expect(portBlair.maxDays).toBeGreaterThan(jaipur.maxDays + 2)
+    expect(portBlair.cost).toBeGreaterThan(60)
+  })
+
+  it('explains options that are not offered at the pincode', () => {
+    const jaipur = createEstimator('2026-10-19T10:00:00').estimate('amazon', '302001')
+    const noCoordinates = createEstimator('2026-10-19T10:00:00').estimate('amazon', '400038')
+
+    expect(jaipur.find(estimate => estimate.option === 'Same Day')).toMatchObject({
+      available: false,
+      reason: 'Same Day is not offered in standard areas',
+    })
+    expect(noCoordinates.find(estimate => estimate.option === 'Same Day')).toMatchObject({
+      available: false,
+      reason: 'Same Day needs a hub within 50 km; the pincode\'s location is not known',
+      distanceKm: null,
+    })
+  })
+
+  it('shortens estimates to the delivery info carried on products', () => {
+    const estimate = createEstimator('2026-10-19T10:00:00').estimateStandard('flipkart', '302001')
+
+    expect(toDeliveryInfo(estimate)).toEqual({
+      available: true,
+      eta: '2-3 days',
+      cost: 40,
+      window: { earliest: '2026-10-21', latest: '2026-10-22' },
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { ServiceabilityMatrix } from '../ServiceabilityMatrix.js'
+import { PincodeDirectory } from '../../pincode/PincodeDirectory.js'
+import type { RetailerServiceability } from '../serviceabilityRules.js'
+import type { PincodeDataset, RetailerName } from '../../../types/index.js'
+
+const directory = new PincodeDirectory((): PincodeDataset => ({
+  version: 'test',
+  source: 'test',
+  generatedAt: '',
+  pincodes: {
+    171001: { district: 'Shimla', state: 'Himachal Pradesh', offices: [], deliverable: true, location: null },
+  },
+}))
+
+describe('ServiceabilityMatrix with the default rules', () => {
+  const matrix = new ServiceabilityMatrix(undefined, undefined, directory)
+
+  it('places pincodes in zones by range, or by state from the directory', () => {
+    expect(matrix.getZone('110001')).toBe('metro')
+    expect(matrix.getZone('560100')).toBe('metro')
+    expect(matrix.getZone('302001')).toBe('standard')
+    expect(matrix.getZone('744101')).toBe('remote')
+    expect(matrix.getZone('795001')).toBe('remote')
+    expect(matrix.getZone('171001')).toBe('remote')
+  })
+
+  it('blocks the regions a retailer does not ship to', () => {
+    expect(matrix.check('myntra', '682555')).toEqual({
+      serviceable: false,
+      zone: 'remote',
+      reason: 'Does not deliver to Lakshadweep',
+    })
+    expect(matrix.check('amazon', '682555')).toEqual({ serviceable: true, zone: 'remote' })
+  })
+
+  it('limits categories, including their children, by zone', () => {
+    expect(matrix.check('flipkart', '795001', 'electronics.large-appliances')).toMatchObject({
+      serviceable: false,
+      reason: 'Large appliances are not delivered to remote areas',
+    })
+    expect(matrix.check('flipkart', '110001', 'electronics.large-appliances').serviceable).toBe(true)
+    expect(matrix.check('myntra', '302001', 'electronics.mobiles').serviceable).toBe(false)
+    expect(matrix.check('myntra', '110001', 'electronics.mobiles').serviceable).toBe(true)
+    expect(matrix.check('myntra', '302001', 'fashion.footwear').serviceable).toBe(true)
+  })
+})
+
+describe('ServiceabilityMatrix with custom rules', () => {
+  const open: RetailerServiceability = { serviceable: null, blocked: [], categoryLimits: [] }
+  const rules: Record<RetailerName, RetailerServiceability> = {
+    amazon: open,
+    flipkart: open,
+    myntra: open,
+    meesho: { serviceable: [{ label: 'Delhi', ranges: [{ from: '110001', to: '110097' }] }], blocked: [], categoryLimits: [] },
+  }
+  const matrix = new ServiceabilityMatrix(rules, { metro: [], remote: [] }, directory)
+
+  it('serves only the listed regions when a retailer has them', () => {
+    expect(matrix.check('meesho', '110097').serviceable).toBe(true)
+    expect(matrix.check('meesho', '110098')).toEqual({
+      serviceable: false,
+      zone: 'standard',
+      reason: 'Does not deliver to 110098',
+    })
+    expect(matrix.check('amazon', '110098').serviceable).toBe(true)
+  })
+})
@@ -0,0 +1,126 @@
+import type { DeliveryOptionType, GeoPoint, RetailerName, ServiceZone } from '../../types/index.js'
+
+export interface WarehouseHub {
+  city: string
+  location: GeoPoint
+}
+
+export interface DeliveryOptionRule {
+  // The retailer's name for the option, as shown to buyers
+  name: string
+  type: DeliveryOptionType
+  zones: ServiceZone[]
+  // Orders placed after this hour, India time, are dispatched the next working day
+  cutoffHour: number
+  // Furthest the nearest hub may be; same-day needs a hub in the buyer's city
+  maxDistanceKm?: number
+  cost: Record<ServiceZone, number>
+}
+
+export interface RetailerLogistics {
+  hubs: WarehouseHub[]
+  // Working days between the order and the parcel leaving the hub
+  handlingDays: number
+  // Added to the cost for every full longHaulKm the hub is away, past the first
+  longHaulKm: number
+  longHaulFee: number
+  options: DeliveryOptionRule[]
+}
+
+export interface DeliveryCalendar {
+  // 0 = Sunday
+  nonWorkingWeekdays: number[]
+  // YYYY-MM-DD; couriers neither dispatch nor deliver
+  holidays: string[]
+}
+
+// Courier transit time from the hub, by road distance as the crow flies
+export const TRANSIT_DAYS: Array<{ maxKm: number; days: number }> = [
+  { maxKm: 50, days: 1 },
+  { maxKm: 500, days: 2 },
+  { maxKm: 1200, days: 3 },
+  { maxKm: 2000, days: 4 },
+  { maxKm: Infinity, days: 5 },
+]
+
+// Remote areas get a courier run only a few times a week
+export const ZONE_EXTRA_DAYS: Record<ServiceZone, number> = { metro: 0, standard: 0, remote: 2 }
+
+// Days added to the earliest date to give the latest
+export const ZONE_SPREAD_DAYS: Record<ServiceZone, number> = { metro: 1, standard: 1, remote: 2 }
+
+// Used when the directory has no coordinates for a pincode
+export const FALLBACK_DISTANCE_KM: Record<ServiceZone, number> = { metro: 300, standard: 800, remote: 2000 }
+
+export const DELIVERY_CALENDAR: DeliveryCalendar = {
+  nonWorkingWeekdays: [0],
+  // National holidays plus Holi, Dussehra and Diwali
+  holidays: [
+    '2026-01-26', '2026-03-04', '2026-08-15', '2026-10-02', '2026-10-20', '2026-11-08', '2026-12-25',
+    '2027-01-26', '2027-03-22', '2027-08-15', '2027-10-02', '2027-10-09', '2027-10-29', '2027-12-25',
+  ],
+}
+
+const hub = (city: string, lat: number, lng: number): WarehouseHub => ({ city, location: { lat, lng } })
+
+const HUBS = {
+  delhi: hub('Delhi NCR', 28.4595, 77.0266),
+  mumbai: hub('Mumbai', 19.2813, 73.0483),
+  bengaluru: hub('Bengaluru', 12.9716, 77.5946),
+  chennai: hub('Chennai', 13.0827, 80.2707),
+  kolkata: hub('Kolkata', 22.5726, 88.3639),
+  hyderabad: hub('Hyderabad', 17.385, 78.4867),
+  guwahati: hub('Guwahati', 26.1445, 91.7362),
+  surat: hub('Surat', 21.1702, 72.8311),
+}
+
+const ALL_ZONES: ServiceZone[] = ['metro', 'standard', 'remote']
+
+const flat = (amount: number): Record<ServiceZone, number> => ({ metro: amount, standard: amount, remote: amount })
+
+export const RETAILER_LOGISTICS: Record<RetailerName, RetailerLogistics> = {
+  amazon: {
+    hubs: [HUBS.delhi, HUBS.mumbai, HUBS.bengaluru, HUBS.chennai, HUBS.kolkata, HUBS.hyderabad, HUBS.guwahati],
+    handlingDays: 0,
+    longHaulKm: 1000,
+    longHaulFee: 0,
+    options: [
+      { name: 'Standard', type: 'standard', zones: ALL_ZONES, cutoffHour: 18, cost: flat(0) },
+      { name: 'Prime', type: 'express', zones: ['metro', 'standard'], cutoffHour: 15, maxDistanceKm: 1200, cost: flat(0) },
+      { name: 'Same Day', type: 'same_day', zones: ['metro'], cutoffHour: 12, maxDistanceKm: 50, cost: flat(99) },
+    ],
+  },
+  flipkart: {
+    hubs: [HUBS.delhi, HUBS.mumbai, HUBS.bengaluru, HUBS.kolkata, HUBS.hyderabad],
+    handlingDays: 0,
+    longHaulKm: 1000,
+    longHaulFee: 20,
+    options: [
+      { name: 'Standard', type: 'standard', zones: ALL_ZONES, cutoffHour: 17, cost: { metro: 0, standard: 40, remote: 40 } },
+      { name: 'Express', type: 'express', zones: ['metro', 'standard'], cutoffHour: 14, maxDistanceKm: 1200, cost: flat(70) },
+      { name: 'Flipkart Plus', type: 'standard', zones: ALL_ZONES, cutoffHour: 17, cost: flat(0) },
+    ],
+  },
+  myntra: {
+    hubs: [HUBS.bengaluru, HUBS.delhi, HUBS.mumbai],
+    handlingDays: 1,
+    longHaulKm: 1000,
+    longHaulFee: 20,
+    options: [
+      { name: 'Standard', type: 'standard', zones: ALL_ZONES, cutoffHour: 16, cost: { metro: 0, standard: 50, remote: 50 } },
+      { name: 'Express', type: 'express', zones: ['metro'], cutoffHour: 13, maxDistanceKm: 500, cost: flat(99) },
+      // A fitting service rather than a speed; the courier waits while the buyer tries the item on
+      { name: 'Try & Buy', type: 'standard', zones: ['metro'], cutoffHour: 16, cost: flat(0) },
+    ],
+  },
+  meesho: {
+    hubs: [HUBS.surat, HUBS.delhi, HUBS.bengaluru],
+    handlingDays: 2,
+    longHaulKm: 1000,
+    longHaulFee: 20,
+    options: [
+      { name: 'Standard', type: 'standard', zones: ALL_ZONES, cutoffHour: 15, cost: { metro: 30, standard: 60, remote: 60 } },
+      { name: 'Express', type: 'express', zones: ['metro', 'standard'], cutoffHour: 12, maxDistanceKm: 1200, cost: flat(90) },
+    ],
+  },
+}
@@ -0,0 +1,88 @@
+import type { RetailerName, ServiceZone } from '../../types/index.js'
+
+// Inclusive; six-digit pincodes compare correctly as strings
+export interface PincodeRange {
+  from: string
+  to: string
+}
+
+// A set of pincodes, by range or by state (states need the pincode directory)
+export interface ServiceRegion {
+  label: string
+  ranges?: PincodeRange[]
+  states?: string[]
+}
+
+export interface CategoryLimit {
+  // Category ids; a limit on "electronics.large-appliances" covers its children
+  categories: string[]
+  zones: ServiceZone[]
+  reason: string
+}
+
+export interface RetailerServiceability {
+  // Where the retailer ships; null means all of India
+  serviceable: ServiceRegion[] | null
+  blocked: ServiceRegion[]
+  categoryLimits: CategoryLimit[]
+}
+
+// The metro cities, plus Pune and Ahmedabad, which retailers serve the same way
+export const METRO_REGIONS: ServiceRegion[] = [
+  { label: 'Delhi', ranges: [{ from: '110001', to: '110097' }] },
+  { label: 'Mumbai', ranges: [{ from: '400001', to: '400104' }] },
+  { label: 'Bengaluru', ranges: [{ from: '560001', to: '560300' }] },
+  { label: 'Chennai', ranges: [{ from: '600001', to: '600130' }] },
+  { label: 'Kolkata', ranges: [{ from: '700001', to: '700160' }] },
+  { label: 'Hyderabad', ranges: [{ from: '500001', to: '500100' }] },
+  { label: 'Pune', ranges: [{ from: '411001', to: '411062' }] },
+  { label: 'Ahmedabad', ranges: [{ from: '380001', to: '380061' }] },
+]
+
+// Islands, the high Himalaya and the north-east, where couriers run a few
+// times a week
+export const REMOTE_REGIONS: ServiceRegion[] = [
+  { label: 'Andaman and Nicobar Islands', ranges: [{ from: '744101', to: '744304' }] },
+  { label: 'Lakshadweep', ranges: [{ from: '682551', to: '682559' }] },
+  { label: 'Ladakh', ranges: [{ from: '194101', to: '194404' }] },
+  { label: 'Sikkim', ranges: [{ from: '737101', to: '737139' }] },
+  { label: 'North-east', ranges: [{ from: '790001', to: '799999' }] },
+  { label: 'Himachal Pradesh', states: ['Himachal Pradesh'] },
+]
+
+const ISLANDS: ServiceRegion[] = REMOTE_REGIONS.filter(region =>
+  ['Andaman and Nicobar Islands', 'Lakshadweep'].includes(region.label))
+
+const LARGE_ITEMS_TO_REMOTE: CategoryLimit = {
+  categories: ['electronics.large-appliances'],
+  zones: ['remote'],
+  reason: 'Large appliances are not delivered to remote areas',
+}
+
+export const RETAILER_SERVICEABILITY: Record<RetailerName, RetailerServiceability> = {
+  amazon: {
+    serviceable: null,
+    blocked: [],
+    categoryLimits: [LARGE_ITEMS_TO_REMOTE],
+  },
+  flipkart: {
+    serviceable: null,
+    blocked: [],
+    categoryLimits: [LARGE_ITEMS_TO_REMOTE],
+  },
+  myntra: {
+    serviceable: null,
+    blocked: ISLANDS,
+    // Fashion only; electronics are sent through partners in the cities
+    categoryLimits: [
+      { categories: ['electronics'], zones: ['standard', 'remote'], reason: 'Electronics ship only to metro areas' },
+    ],
+  },
+  meesho: {
+    serviceable: null,
+    blocked: REMOTE_REGIONS.filter(region => region.label === 'Lakshadweep'),
+    categoryLimits: [
+      { categories: ['electronics.large-appliances'], zones: ['metro', 'standard', 'remote'], reason: 'Large appliances are not sold' },
+    ],
+  },
+}
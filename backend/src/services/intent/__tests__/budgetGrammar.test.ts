@@ -0,0 +1,75 @@
+import { findBudgetMatches, parseAmount, parseBudget } from '../budgetGrammar.js'
+
+describe('parseAmount', () => {
+  it.each([
+    ['1,50,000', undefined, 150000],
+    ['150,000', undefined, 150000],
+    ['15', 'k', 15000],
+    ['1.5', 'lakh', 150000],
+    ['2', 'cr', 20000000],
+    ['2.5', 'crore', 25000000],
+  ])('reads %s %s as %d', (digits, suffix, expected) => {
+    expect(parseAmount(digits, suffix)).toBe(expected)
+  })
+})
+
+describe('parseBudget', () => {
+  it.each([
+    // upper bounds
+    ['running shoes under 3000', { min: 0, max: 3000, confidence: 0.9 }],
+    ['laptop below ₹1,50,000', { min: 0, max: 150000, confidence: 0.9 }],
+    ['phone upto 25k', { min: 0, max: 25000, confidence: 0.9 }],
+    ['watch not more than Rs. 5,000/-', { min: 0, max: 5000, confidence: 0.9 }],
+    ['5000 ke andar joote', { min: 0, max: 5000, confidence: 0.9 }],
+    ['kurta 1500 or less', { min: 0, max: 1500, confidence: 0.85 }],
+    ['my budget is 40k', { min: 0, max: 40000, confidence: 0.8 }],
+    // ranges
+    ['between 2k and 4k', { min: 2000, max: 4000, confidence: 0.95 }],
+    ['2000-4000', { min: 2000, max: 4000, confidence: 0.9 }],
+    ['from ₹10,000 to ₹15,000', { min: 10000, max: 15000, confidence: 0.9 }],
+    ['2-4k', { min: 2000, max: 4000, confidence: 0.9 }],
+    ['10 to 15 lakh car', { min: 1000000, max: 1500000, confidence: 0.9 }],
+    ['1000 se 2000 ke beech', { min: 1000, max: 2000, confidence: 0.9 }],
+    // lower bounds
+    ['tv above 10000', { min: 10000, max: null, confidence: 0.85 }],
+    ['at least 1 lakh', { min: 100000, max: null, confidence: 0.85 }],
+    ['50k+ laptop', { min: 50000, max: null, confidence: 0.85 }],
+    ['20000 se zyada', { min: 20000, max: null, confidence: 0.85 }],
+    // approximations
+    ['around 15k', { min: 12750, max: 17250, confidence: 0.7 }],
+    ['lagbhag 2000', { min: 1700, max: 2300, confidence: 0.7 }],
+    // bare amounts and number words
+    ['₹2 crore flat', { min: 0, max: 20000000, confidence: 0.5 }],
+    ['800 rupees ki kurti', { min: 0, max: 800, confidence: 0.5 }],
+    ['paanch hazaar tak', { min: 0, max: 5000, confidence: 0.9 }],
+    ['दो हज़ार से कम', { min: 0, max: 2000, confidence: 0.9 }],
+  ])('parses %j', (query, expected) => {
+    expect(parseBudget(query)).toEqual(expected)
+  })
+
+  it('joins a lower and an upper bound into one range', () => {
+    expect(parseBudget('phone above 10k but under 20k')).toEqual({ min: 10000, max: 20000, confidence: 0.85 })
+  })
+
+  it('prefers the most confident phrase', () => {
+    expect(parseBudget('₹500 off coupon, shoes under 3000')).toEqual({ min: 0, max: 3000, confidence: 0.9 })
+  })
+
+  it.each([
+    'red kurta size 42',
+    'size 8-9 shoes',
+    'iphone 15 - 128gb',
+    '5kg dumbbells',
+  ])('finds no budget in %j', query => {
+    expect(parseBudget(query)).toBeNull()
+  })
+})
+
+describe('findBudgetMatches', () => {
+  it('reports every phrase in reading order', () => {
+    expect(findBudgetMatches('above 10k and ideally around 15k').map(match => [match.kind, match.text])).toEqual([
+      ['min', 'above 10000'],
+      ['approx', 'around 15000'],
+    ])
+  })
+})
@@ -0,0 +1,66 @@
+import { buildClarifyingQuestions, scoreIntentConfidence } from '../clarification.js'
+import { parseIntentWithRules } from '../ruleBasedIntent.js'
+import type { ParsedIntent } from '../../../types/index.js'
+
+const intent = (overrides: Partial<ParsedIntent> = {}): ParsedIntent => ({
+  productType: 'shoes',
+  budget: null,
+  features: [],
+  specifications: {},
+  ...overrides,
+})
+
+describe('scoreIntentConfidence', () => {
+  it.each([
+    ['a product, budget and detail', intent({ budget: { min: 0, max: 3000 }, features: ['running'] }), 1],
+    ['a product only', intent(), 0.55],
+    ['a product with a bare amount', intent({ budget: { min: 0, max: 800, confidence: 0.5 } }), 0.68],
+    ['a generic product with a budget', intent({ productType: 'gift', budget: { min: 0, max: 2000 } }), 0.25],
+    ['nothing specific', intent({ productType: 'product' }), 0],
+  ])('scores %s', (_, parsed, expected) => {
+    expect(scoreIntentConfidence(parsed)).toBe(expected)
+  })
+
+  it('scores vague queries below specific ones', () => {
+    const vague = scoreIntentConfidence(parseIntentWithRules('something for my dad'))
+    const specific = scoreIntentConfidence(parseIntentWithRules('black running shoes under 3000'))
+
+    expect(vague).toBeLessThan(0.5)
+    expect(specific).toBeGreaterThanOrEqual(0.5)
+  })
+})
+
+describe('buildClarifyingQuestions', () => {
+  it('asks for the category, budget and occasion a query left out', () => {
+    const questions = buildClarifyingQuestions(intent({ productType: 'product' }), 'something for my dad')
+
+    expect(questions.map(question => question.field)).toEqual(['category', 'budget', 'occasion'])
+    expect(questions[0].options).toEqual([
+      { label: 'Watch', value: 'watch' },
+      { label: 'Shirt', value: 'shirt' },
+      { label: 'Wallet', value: 'wallet' },
+      { label: 'Shoes', value: 'shoes' },
+    ])
+  })
+
+  it('suggests categories for the person the gift is for', () => {
+    const [category] = buildClarifyingQuestions(intent({ productType: 'product' }), 'maa ke liye kuch')
+    expect(category.options.map(option => option.value)).toContain('saree')
+  })
+
+  it('skips what the query already answers', () => {
+    const questions = buildClarifyingQuestions(
+      intent({ productType: 'gift', budget: { min: 0, max: 2000 } }),
+      'birthday gift under 2000'
+    )
+    expect(questions.map(question => question.field)).toEqual(['category'])
+  })
+
+  it('offers budget answers the budget grammar understands', () => {
+    const budget = buildClarifyingQuestions(intent(), 'shoes').find(question => question.field === 'budget')!
+
+    budget.options.forEach(option => {
+      expect(parseIntentWithRules(`shoes ${option.value}`).budget).not.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { coerceAmount, extractJson, parseEntitiesOutput, parseIntentOutput } from '../intentSchema.js'
+
+describe('extractJson', () => {
+  it.each([
+    ['```json\n{"a": 1}\n```', '{"a": 1}'],
+    ['```\n{"a": 1}\n```', '{"a": 1}'],
+    ['Sure! {"a": {"b": 2}} Hope this helps.', '{"a": {"b": 2}}'],
+    ['{"a": 1}', '{"a": 1}'],
+  ])('extracts the object from %j', (text, expected) => {
+    expect(extractJson(text)).toBe(expected)
+  })
+})
+
+describe('coerceAmount', () => {
+  it.each([
+    [3000, 3000],
+    ['3000', 3000],
+    ['3,000', 3000],
+    ['₹3,000', 3000],
+    ['Rs. 500', 500],
+    ['3k', 3000],
+    ['1.5K', 1500],
+    ['2 lakh', 200000],
+    ['1.2L', 120000],
+    ['500 rupees', 500],
+  ])('reads %j as %d', (value, expected) => {
+    expect(coerceAmount(value)).toBe(expected)
+  })
+
+  it.each([['cheap'], [-5], [NaN], [{}], ['3k-5k']])('rejects %j', value => {
+    expect(coerceAmount(value)).toBeNull()
+  })
+})
+
+describe('parseIntentOutput', () => {
+  it('normalises a valid answer', () => {
+    expect(parseIntentOutput('{"productType": " shoes ", "budget": null, "features": ["running"], "brand": "Nike"}')).toEqual({
+      ok: true,
+      value: { productType: 'shoes', budget: null, features: ['running'], brand: 'Nike', specifications: {} },
+    })
+  })
+
+  it('coerces budgets, lists and specification values', () => {
+    expect(parseIntentOutput({
+      productType: 'tv',
+      budget: { min: '50k', max: '30k' },
+      features: ['smart', 4],
+      specifications: { size: 55, hdr: true, panel: null },
+    })).toEqual({
+      ok: true,
+      value: {
+        productType: 'tv',
+        // min and max swapped back into order
+        budget: { min: 30000, max: 50000 },
+        features: ['smart', '4'],
+        specifications: { size: '55', hdr: 'true' },
+      },
+    })
+  })
+
+  it('treats a bare amount as the budget ceiling', () => {
+    const result = parseIntentOutput({ productType: 'watch', budget: '₹2k', features: [] })
+    expect(result.ok && result.value.budget).toEqual({ min: 0, max: 2000 })
+  })
+
+  it('lists every problem so the repair request can name them', () => {
+    expect(parseIntentOutput({ productType: '', budget: { max: 'cheap' }, features: [{}], specifications: [] })).toEqual({
+      ok: false,
+      issues: [
+        'productType: expected a non-empty string',
+        'budget.max: expected an amount, got "cheap"',
+        'features: expected an array of strings',
+        'specifications: expected an object of string values',
+      ],
+    })
+  })
+
+  it('rejects text that is not a JSON object', () => {
+    expect(parseIntentOutput('no idea')).toEqual({ ok: false, issues: ['Response is not valid JSON'] })
+    expect(parseIntentOutput('[1, 2]')).toEqual({ ok: false, issues: ['Response must be a JSON object'] })
+  })
+})
+
+describe('parseEntitiesOutput', () => {
+  it('keeps a null brand and fills missing lists', () => {
+    expect(parseEntitiesOutput('{"productType": "bag", "brand": null}')).toEqual({
+      ok: true,
+      value: { productType: 'bag', brand: null, features: [], specifications: {}, budget: null },
+    })
+  })
+})
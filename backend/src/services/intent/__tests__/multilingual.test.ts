@@ -0,0 +1,37 @@
+import { convertNumberWords, normalizeIndicText } from '../multilingual.js'
+import { parseIntentWithRules } from '../ruleBasedIntent.js'
+import corpus from './fixtures/multilingual-queries.json'
+
+describe('normalizeIndicText', () => {
+  it('converts Devanagari digits and drops the nukta', () => {
+    expect(normalizeIndicText('१५०० से ज़्यादा')).toBe('1500 से ज्यादा')
+  })
+})
+
+describe('convertNumberWords', () => {
+  it.each([
+    ['paanch hazaar', '5000'],
+    ['dedh lakh', '150000'],
+    ['saadhe teen hazaar', '3500'],
+    ['do hazaar paanch sau', '2500'],
+    ['₹2.5k', '₹2500'],
+    ['10 hazaar', '10000'],
+    ['पाँच हज़ार', '5000'],
+    ['ढाई लाख', '250000'],
+    ['2 crore', '20000000'],
+  ])('reads %j as %j', (text, expected) => {
+    expect(convertNumberWords(text)).toBe(expected)
+  })
+
+  it('leaves ordinary words and plain numbers alone', () => {
+    expect(convertNumberWords('do joote ek saath 500')).toBe('do joote ek saath 500')
+    expect(convertNumberWords('saadhe aur')).toBe('saadhe aur')
+  })
+})
+
+describe('parseIntentWithRules corpus', () => {
+  it.each(corpus.map(entry => [entry.query, entry.expected] as const))('parses %j', (query, expected) => {
+    // Budget confidence is covered by the budget grammar tests
+    expect(parseIntentWithRules(query)).toMatchObject({ specifications: {}, ...expected })
+  })
+})
@@ -0,0 +1,170 @@
+import { convertNumberWords, normalizeIndicText } from './multilingual.js'
+import type { BudgetRange } from '../../types/index.js'
+
+export type BudgetMatchKind = 'range' | 'max' | 'min' | 'approx' | 'amount'
+
+export interface BudgetMatch {
+  kind: BudgetMatchKind
+  min: number
+  // null for lower bounds such as "above 10000"
+  max: number | null
+  // How sure we are that this phrase is the shopper's budget (0-1)
+  confidence: number
+  // The matched text, after number words were turned into digits
+  text: string
+  index: number
+}
+
+const SUFFIXES: Record<string, number> = {
+  k: 1000,
+  thousand: 1000,
+  l: 100000,
+  lac: 100000,
+  lacs: 100000,
+  lakh: 100000,
+  lakhs: 100000,
+  cr: 10000000,
+  crore: 10000000,
+  crores: 10000000,
+}
+
+// "around 15k" covers 15% either side
+const APPROX_SPREAD = 0.15
+// "size 8-9" is not a price range
+const MIN_RANGE_AMOUNT = 100
+
+// ₹1,50,000 (Indian grouping), 150,000, 1.5 lakh, 15k, Rs. 500/-
+const NUMBER = String.raw`\d{1,3}(?:,\d{2})*,\d{3}|\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?`
+const SUFFIX = String.raw`k|thousand|lakhs?|lacs?|l|crores?|cr`
+const CURRENCY_BEFORE = String.raw`(?:₹|rs\.?|inr)\s*`
+const CURRENCY_AFTER = String.raw`\s*(?:\/-|rs\.?|rupees?|rupaye|rupay|inr|रुपये|रुपए|रुपया)`
+const AMOUNT = `(?:${CURRENCY_BEFORE})?(${NUMBER})\\s*(${SUFFIX})?(?![\\p{L}\\d])(?:${CURRENCY_AFTER})?`
+
+// Letters on either side would make "k" part of a word ("5kg") or glue an amount into a model name
+const END = String.raw`(?![\p{L}\p{M}])`
+
+interface Rule {
+  kind: BudgetMatchKind
+  pattern: RegExp
+  confidence: number
+}
+
+const rule = (kind: BudgetMatchKind, source: string, confidence: number): Rule => ({
+  kind,
+  pattern: new RegExp(source, 'giu'),
+  confidence,
+})
+
+// Ordered so that, where two rules cover the same words, the more specific wins
+const RULES: Rule[] = [
+  rule('range', `between\\s+${AMOUNT}\\s*(?:and|-|to|&)\\s*${AMOUNT}`, 0.95),
+  rule('range', `(?:from\\s+)?${AMOUNT}\\s*(?:-|–|to|se|से)\\s*${AMOUNT}(?:\\s*(?:ke\\s+(?:beech|bich)|के\\s+बीच|tak|तक)${END})?`, 0.9),
+  rule('max', `(?:under|below|less\\s+than|within|upto|up\\s+to|not\\s+more\\s+than|no\\s+more\\s+than|at\\s+most|max(?:imum)?|cheaper\\s+than)\\s*${AMOUNT}`, 0.9),
+  rule('max', `${AMOUNT}\\s*(?:ke\\s+(?:andar|andr|bhitar|under|neeche|niche)|se\\s+(?:kam|sasta|saste|sasti)|tak|के\\s+(?:अंदर|अन्दर|भीतर|नीचे)|से\\s+(?:कम|सस्ता|सस्ते|सस्ती)|तक)${END}`, 0.9),
+  rule('max', `${AMOUNT}\\s*(?:or\\s+less|and\\s+below|max(?:imum)?)${END}`, 0.85),
+  rule('min', `(?:above|over|more\\s+than|at\\s+least|min(?:imum)?|starting\\s+(?:from|at))\\s*${AMOUNT}`, 0.85),
+  rule('min', `${AMOUNT}\\s*(?:se\\s+(?:zyada|jyada|upar|adhik)|ke\\s+upar|से\\s+(?:ज्यादा|ऊपर|अधिक)|के\\s+ऊपर|and\\s+above|or\\s+more|plus|\\+)`, 0.85),
+  rule('approx', `(?:around|about|approx(?:imately|\\.)?|roughly|nearly|near|~|lagbhag|karib|kareeb|लगभग|करीब)\\s*${AMOUNT}`, 0.7),
+  rule('approx', `${AMOUNT}\\s*(?:ke\\s+(?:aas\\s*paas|aaspaas|around)|के\\s+आसपास|के\\s+आस\\s+पास|ish)${END}`, 0.7),
+  rule('max', `budget\\s*(?:of|is|:|-)?\\s*${AMOUNT}`, 0.8),
+  rule('amount', `${CURRENCY_BEFORE}(${NUMBER})\\s*(${SUFFIX})?${END}`, 0.5),
+  rule('amount', `(${NUMBER})\\s*(${SUFFIX})?${CURRENCY_AFTER}${END}`, 0.5),
+]
+
+export const parseAmount = (digits: string, suffix?: string): number => {
+  const value = Number(digits.replace(/,/g, ''))
+  return Math.round(value * (suffix ? SUFFIXES[suffix.toLowerCase()] ?? 1 : 1))
+}
+
+const toMatch = (kind: BudgetMatchKind, confidence: number, groups: string[], text: string, index: number): BudgetMatch | null => {
+  if (kind === 'range') {
+    const [lowDigits, lowSuffix, highDigits, highSuffix] = groups
+    const low = parseAmount(lowDigits, lowSuffix)
+    const high = parseAmount(highDigits, highSuffix)
+    if (Math.max(low, high) < MIN_RANGE_AMOUNT) {
+      return null
+    }
+    return { kind, min: Math.min(low, high), max: Math.max(low, high), confidence, text, index }
+  }
+
+  const amount = parseAmount(groups[0], groups[1])
+  if (amount <= 0) {
+    return null
+  }
+
+  switch (kind) {
+    case 'min':
+      return { kind, min: amount, max: null, confidence, text, index }
+    case 'approx':
+      return {
+        kind,
+        min: Math.round(amount * (1 - APPROX_SPREAD)),
+        max: Math.round(amount * (1 + APPROX_SPREAD)),
+        confidence,
+        text,
+        index,
+      }
+    default:
+      return { kind, min: 0, max: amount, confidence, text, index }
+  }
+}
+
+const SHARED_SUFFIX = new RegExp(
+  `(\\d[\\d,]*(?:\\.\\d+)?)\\s*(-|–|to|se|से)\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*(${SUFFIX}|hazaa?r|hajar|हजार|लाख|करोड)${END}`,
+  'giu'
+)
+
+// "2-4k" and "10 to 15 lakh": the suffix covers both ends of the range
+const spreadRangeSuffix = (text: string): string => {
+  return normalizeIndicText(text).replace(SHARED_SUFFIX, (whole, low: string, separator: string, high: string, suffix: string) =>
+    Number(low.replace(/,/g, '')) <= Number(high.replace(/,/g, ''))
+      ? `${low} ${suffix} ${separator} ${high} ${suffix}`
+      : whole
+  )
+}
+
+// Every budget phrase in the query, in reading order. Number words
+// ("paanch hazaar", "dedh lakh") are turned into digits first, and a phrase
+// claimed by an earlier rule is not matched again by a later one.
+export const findBudgetMatches = (query: string): BudgetMatch[] => {
+  const text = convertNumberWords(spreadRangeSuffix(query))
+  const claimed: Array<[number, number]> = []
+  const matches: BudgetMatch[] = []
+
+  RULES.forEach(({ kind, pattern, confidence }) => {
+    for (const found of text.matchAll(pattern)) {
+      const start = found.index ?? 0
+      const end = start + found[0].length
+      if (claimed.some(([from, to]) => start < to && end > from)) {
+        continue
+      }
+
+      const match = toMatch(kind, confidence, found.slice(1), found[0].trim(), start)
+      if (match) {
+        claimed.push([start, end])
+        matches.push(match)
+      }
+    }
+  })
+
+  return matches.sort((a, b) => a.index - b.index)
+}
+
+// The budget the query most likely means. "above 10k and under 20k" joins a
+// lower and an upper bound into one range; otherwise the most confident
+// phrase wins, the earlier one on a tie.
+export const parseBudget = (query: string): BudgetRange | null => {
+  const matches = findBudgetMatches(query)
+  if (matches.length === 0) {
+    return null
+  }
+
+  const lower = matches.find(match => match.kind === 'min')
+  const upper = matches.find(match => match.kind === 'max')
+  if (lower && upper && upper.max !== null && lower.min <= upper.max) {
+    return { min: lower.min, max: upper.max, confidence: Math.min(lower.confidence, upper.confidence) }
+  }
+
+  const best = [...matches].sort((a, b) => b.confidence - a.confidence || a.index - b.index)[0]
+  return { min: best.min, max: best.max, confidence: best.confidence }
+}
@@ -0,0 +1,131 @@
+import { tokenizeIndic } from './multilingual.js'
+import type { ClarifyingQuestion, ParsedIntent } from '../../types/index.js'
+
+// Below this the query is too vague to search, and we ask instead
+export const getConfidenceThreshold = (): number => Number(process.env.INTENT_CONFIDENCE_THRESHOLD) || 0.5
+
+// Weights add up to 1: knowing what to search for matters most
+const PRODUCT_WEIGHT = 0.55
+const BUDGET_WEIGHT = 0.25
+const DETAIL_WEIGHT = 0.2
+
+// Product types that name no category ("something for my dad")
+const GENERIC_PRODUCTS = new Set([
+  '', 'product', 'products', 'item', 'items', 'thing', 'things', 'something', 'anything', 'stuff',
+  'gift', 'gifts', 'present', 'accessory', 'accessories', 'cheez', 'saman', 'samaan', 'tohfa', 'uphaar',
+])
+
+type Recipient = 'man' | 'woman' | 'child'
+
+const RECIPIENTS: Record<string, Recipient> = {
+  dad: 'man',
+  father: 'man',
+  papa: 'man',
+  pitaji: 'man',
+  husband: 'man',
+  boyfriend: 'man',
+  brother: 'man',
+  bhai: 'man',
+  grandfather: 'man',
+  dada: 'man',
+  nana: 'man',
+  mom: 'woman',
+  mother: 'woman',
+  mummy: 'woman',
+  maa: 'woman',
+  wife: 'woman',
+  girlfriend: 'woman',
+  sister: 'woman',
+  behen: 'woman',
+  grandmother: 'woman',
+  dadi: 'woman',
+  nani: 'woman',
+  son: 'child',
+  daughter: 'child',
+  kid: 'child',
+  kids: 'child',
+  child: 'child',
+  baby: 'child',
+  beta: 'child',
+  beti: 'child',
+}
+
+const CATEGORY_SUGGESTIONS: Record<Recipient | 'anyone', string[]> = {
+  man: ['watch', 'shirt', 'wallet', 'shoes'],
+  woman: ['saree', 'handbag', 'kurti', 'watch'],
+  child: ['shoes', 't-shirt', 'school bag', 'watch'],
+  anyone: ['phone', 'shoes', 'watch', 'shirt'],
+}
+
+// Values are phrases the budget grammar reads, so an answer can be appended to the query
+const BUDGET_OPTIONS = [
+  { label: 'Under ₹1,000', value: 'under 1000' },
+  { label: '₹1,000-₹3,000', value: 'between 1000 and 3000' },
+  { label: '₹3,000-₹10,000', value: 'between 3000 and 10000' },
+  { label: 'Above ₹10,000', value: 'above 10000' },
+]
+
+const OCCASION_OPTIONS = [
+  { label: 'Birthday', value: 'for a birthday' },
+  { label: 'Wedding', value: 'for a wedding' },
+  { label: 'Festival', value: 'for a festival' },
+  { label: 'Daily use', value: 'for daily use' },
+]
+
+const OCCASION_WORDS = /\b(?:birthday|wedding|shaadi|anniversary|festival|diwali|rakhi|eid|christmas|party|office|daily|gym|travel)\b/i
+
+export const isGenericProduct = (productType: string): boolean => GENERIC_PRODUCTS.has(productType.trim().toLowerCase())
+
+// How sure we are that the intent is specific enough to search (0-1): a real
+// product category, a budget (as sure as its phrase), and any detail such as a
+// brand, colour or feature
+export const scoreIntentConfidence = (intent: ParsedIntent): number => {
+  const product = isGenericProduct(intent.productType) ? 0 : PRODUCT_WEIGHT
+  const budget = intent.budget ? BUDGET_WEIGHT * (intent.budget.confidence ?? 1) : 0
+  const hasDetail = Boolean(intent.brand)
+    || intent.features.length > 0
+    || Object.keys(intent.specifications ?? {}).length > 0
+  const detail = hasDetail ? DETAIL_WEIGHT : 0
+
+  return Math.round((product + budget + detail) * 100) / 100
+}
+
+const findRecipient = (query: string): Recipient | undefined => {
+  return tokenizeIndic(query).map(token => RECIPIENTS[token]).find(Boolean)
+}
+
+// Questions for whatever the query left out, each with answers the shopper
+// can pick. The category question suggests gifts for anyone the query names.
+export const buildClarifyingQuestions = (intent: ParsedIntent, query: string): ClarifyingQuestion[] => {
+  const questions: ClarifyingQuestion[] = []
+
+  if (isGenericProduct(intent.productType)) {
+    const suggestions = CATEGORY_SUGGESTIONS[findRecipient(query) ?? 'anyone']
+    questions.push({
+      field: 'category',
+      question: 'What kind of product are you looking for?',
+      options: suggestions.map(category => ({
+        label: category.charAt(0).toUpperCase() + category.slice(1),
+        value: category,
+      })),
+    })
+  }
+
+  if (!intent.budget) {
+    questions.push({
+      field: 'budget',
+      question: 'What is your budget?',
+      options: BUDGET_OPTIONS,
+    })
+  }
+
+  if (intent.features.length === 0 && !OCCASION_WORDS.test(query)) {
+    questions.push({
+      field: 'occasion',
+      question: 'What is the occasion?',
+      options: OCCASION_OPTIONS,
+    })
+  }
+
+  return questions
+}
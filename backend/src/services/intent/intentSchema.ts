@@ -0,0 +1,201 @@
+import type { ExtractedEntities, ParsedIntent } from '../../types/index.js'
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] }
+
+type Budget = ParsedIntent['budget']
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  thousand: 1000,
+  l: 100000,
+  lac: 100000,
+  lakh: 100000,
+  lakhs: 100000,
+  cr: 10000000,
+  crore: 10000000,
+  crores: 10000000,
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && /^\s*(null|none|n\/a)?\s*$/i.test(value))
+
+// Models wrap JSON in ```json fences or add a sentence around it; keep only
+// the outermost object.
+export const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const body = (fenced ? fenced[1] : text).trim()
+  const start = body.indexOf('{')
+  const end = body.lastIndexOf('}')
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body
+}
+
+// 3000, "1,50,000", "₹3000", "Rs. 3k", "1.5 lakh" -> rupees; null when unreadable
+export const coerceAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null
+  }
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const match = value
+    .toLowerCase()
+    .replace(/,/g, '')
+    .match(/^\s*(?:₹|rs\.?|inr)?\s*(\d+(?:\.\d+)?)\s*(k|thousand|lakhs?|lac|l|crores?|cr)?\s*(?:rupees?|rs)?\s*$/)
+  if (!match) {
+    return null
+  }
+  return Math.round(Number(match[1]) * (match[2] ? MULTIPLIERS[match[2]] : 1))
+}
+
+const coerceBudget = (value: unknown, issues: string[]): Budget => {
+  if (isBlank(value)) {
+    return null
+  }
+
+  // A bare amount is a ceiling
+  if (!isRecord(value)) {
+    const max = coerceAmount(value)
+    if (max === null) {
+      issues.push(`budget: expected {"min": number, "max": number} or null, got ${JSON.stringify(value)}`)
+      return null
+    }
+    return { min: 0, max }
+  }
+
+  const min = isBlank(value.min) ? 0 : coerceAmount(value.min)
+  if (min === null) {
+    issues.push(`budget.min: expected an amount, got ${JSON.stringify(value.min)}`)
+    return null
+  }
+
+  // Only a lower bound ("above 10000")
+  if (isBlank(value.max) && min > 0) {
+    return { min, max: null }
+  }
+
+  const max = coerceAmount(value.max)
+  if (max === null) {
+    issues.push(`budget.max: expected an amount, got ${JSON.stringify(value.max)}`)
+    return null
+  }
+  return min <= max ? { min, max } : { min: max, max: min }
+}
+
+const coerceStringList = (value: unknown, field: string, issues: string[]): string[] => {
+  if (isBlank(value)) {
+    return []
+  }
+  const list = Array.isArray(value) ? value : [value]
+  const invalid = list.filter(item => typeof item !== 'string' && typeof item !== 'number')
+  if (invalid.length > 0) {
+    issues.push(`${field}: expected an array of strings`)
+  }
+  return list
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(Boolean)
+}
+
+const coerceSpecifications = (value: unknown, issues: string[]): Record<string, string> => {
+  if (isBlank(value)) {
+    return {}
+  }
+  if (!isRecord(value)) {
+    issues.push('specifications: expected an object of string values')
+    return {}
+  }
+
+  const specifications: Record<string, string> = {}
+  Object.entries(value).forEach(([key, spec]) => {
+    if (typeof spec === 'string' || typeof spec === 'number' || typeof spec === 'boolean') {
+      const text = String(spec).trim()
+      if (text && !isBlank(text)) {
+        specifications[key] = text
+      }
+    } else if (!isBlank(spec)) {
+      issues.push(`specifications.${key}: expected a string`)
+    }
+  })
+  return specifications
+}
+
+const coerceProductType = (value: unknown, issues: string[]): string => {
+  const productType = typeof value === 'string' ? value.trim() : ''
+  if (!productType || isBlank(productType)) {
+    issues.push('productType: expected a non-empty string')
+  }
+  return productType
+}
+
+const coerceBrand = (value: unknown, issues: string[]): string | null => {
+  if (isBlank(value)) {
+    return null
+  }
+  if (typeof value !== 'string') {
+    issues.push('brand: expected a string or null')
+    return null
+  }
+  return value.trim()
+}
+
+const readObject = (input: unknown): SchemaResult<Record<string, unknown>> => {
+  let raw = input
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(extractJson(input))
+    } catch {
+      return { ok: false, issues: ['Response is not valid JSON'] }
+    }
+  }
+  return isRecord(raw) ? { ok: true, value: raw } : { ok: false, issues: ['Response must be a JSON object'] }
+}
+
+// Runtime check for model output (text or an already parsed value). Fixes
+// what it safely can, such as "3k" budgets or a single feature given as a
+// string, and reports everything else.
+export const parseIntentOutput = (input: unknown): SchemaResult<ParsedIntent> => {
+  const object = readObject(input)
+  if (!object.ok) {
+    return object
+  }
+
+  const raw = object.value
+  const issues: string[] = []
+  const intent: ParsedIntent = {
+    productType: coerceProductType(raw.productType, issues),
+    budget: coerceBudget(raw.budget, issues),
+    features: coerceStringList(raw.features, 'features', issues),
+    specifications: coerceSpecifications(raw.specifications, issues),
+  }
+  const brand = coerceBrand(raw.brand, issues)
+  if (brand) {
+    intent.brand = brand
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: intent }
+}
+
+export const parseEntitiesOutput = (input: unknown): SchemaResult<ExtractedEntities> => {
+  const object = readObject(input)
+  if (!object.ok) {
+    return object
+  }
+
+  const raw = object.value
+  const issues: string[] = []
+  const entities: ExtractedEntities = {
+    productType: coerceProductType(raw.productType, issues),
+    brand: coerceBrand(raw.brand, issues),
+    features: coerceStringList(raw.features, 'features', issues),
+    specifications: coerceSpecifications(raw.specifications, issues),
+    budget: coerceBudget(raw.budget, issues),
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: entities }
+}
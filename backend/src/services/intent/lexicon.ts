@@ -0,0 +1,151 @@
+// Hindi and Hinglish words mapped to the English terms the rest of the
+// parser uses. Devanagari keys are written without nukta, because
+// normalizeIndicText strips it (ज़ → ज, ड़ → ड) before lookups.
+
+export const PRODUCT_TERMS: Record<string, string> = {
+  joote: 'shoes',
+  jootey: 'shoes',
+  joota: 'shoes',
+  juta: 'shoes',
+  'जूते': 'shoes',
+  'जूता': 'shoes',
+  chappal: 'slippers',
+  chappals: 'slippers',
+  'चप्पल': 'slippers',
+  kameez: 'shirt',
+  'कमीज': 'shirt',
+  'शर्ट': 'shirt',
+  kurta: 'kurta',
+  'कुर्ता': 'kurta',
+  kurti: 'kurti',
+  'कुर्ती': 'kurti',
+  saree: 'saree',
+  sari: 'saree',
+  saadi: 'saree',
+  'साडी': 'saree',
+  lehenga: 'lehenga',
+  lehnga: 'lehenga',
+  'लहंगा': 'lehenga',
+  ghadi: 'watch',
+  ghari: 'watch',
+  'घडी': 'watch',
+  chashma: 'sunglasses',
+  chasma: 'sunglasses',
+  'चश्मा': 'sunglasses',
+  batua: 'wallet',
+  'बटुआ': 'wallet',
+  thaila: 'bag',
+  jhola: 'bag',
+  'थैला': 'bag',
+  'बैग': 'bag',
+  patloon: 'trousers',
+  pant: 'trousers',
+  'पैंट': 'trousers',
+  'जींस': 'jeans',
+  topi: 'cap',
+  'टोपी': 'cap',
+  mobile: 'phone',
+  'मोबाइल': 'phone',
+  'फोन': 'phone',
+  'लैपटॉप': 'laptop',
+}
+
+export const FEATURE_TERMS: Record<string, string> = {
+  running: 'running',
+  daudne: 'running',
+  daudne_wale: 'running',
+  'दौडने': 'running',
+  formal: 'formal',
+  office: 'formal',
+  daftar: 'formal',
+  'ऑफिस': 'formal',
+  'दफ्तर': 'formal',
+  casual: 'casual',
+  gaming: 'gaming',
+  'गेमिंग': 'gaming',
+  shaadi: 'wedding',
+  shadi: 'wedding',
+  'शादी': 'wedding',
+  party: 'party',
+  'पार्टी': 'party',
+  gym: 'gym',
+  'जिम': 'gym',
+}
+
+export const COLOUR_TERMS: Record<string, string> = {
+  red: 'red',
+  laal: 'red',
+  lal: 'red',
+  'लाल': 'red',
+  black: 'black',
+  kaala: 'black',
+  kala: 'black',
+  kaali: 'black',
+  'काला': 'black',
+  'काली': 'black',
+  blue: 'blue',
+  neela: 'blue',
+  nila: 'blue',
+  'नीला': 'blue',
+  'नीली': 'blue',
+  green: 'green',
+  hara: 'green',
+  'हरा': 'green',
+  white: 'white',
+  safed: 'white',
+  safaid: 'white',
+  'सफेद': 'white',
+  yellow: 'yellow',
+  peela: 'yellow',
+  'पीला': 'yellow',
+  pink: 'pink',
+  gulabi: 'pink',
+  'गुलाबी': 'pink',
+  brown: 'brown',
+  bhura: 'brown',
+  'भूरा': 'brown',
+}
+
+// Counted words only act as numbers before a multiplier ("do hazaar"), so
+// the Hinglish "do" and "ek" in ordinary sentences are left alone
+export const NUMBER_WORDS: Record<string, number> = {
+  ek: 1, 'एक': 1,
+  do: 2, 'दो': 2,
+  teen: 3, tin: 3, 'तीन': 3,
+  char: 4, chaar: 4, 'चार': 4,
+  paanch: 5, panch: 5, 'पांच': 5, 'पाँच': 5,
+  chhe: 6, chhah: 6, 'छह': 6, 'छः': 6,
+  saat: 7, 'सात': 7,
+  aath: 8, 'आठ': 8,
+  nau: 9, 'नौ': 9,
+  das: 10, dus: 10, 'दस': 10,
+  pandrah: 15, 'पंद्रह': 15,
+  bees: 20, 'बीस': 20,
+  pachees: 25, 'पच्चीस': 25,
+  tees: 30, 'तीस': 30,
+  chalis: 40, chaalis: 40, 'चालीस': 40,
+  pachas: 50, pachaas: 50, 'पचास': 50,
+  dedh: 1.5, 'डेढ': 1.5,
+  dhai: 2.5, dhaai: 2.5, 'ढाई': 2.5,
+}
+
+export const MULTIPLIER_WORDS: Record<string, number> = {
+  sau: 100,
+  'सौ': 100,
+  hazaar: 1000,
+  hazar: 1000,
+  hajar: 1000,
+  'हजार': 1000,
+  thousand: 1000,
+  k: 1000,
+  lakh: 100000,
+  lac: 100000,
+  lakhs: 100000,
+  'लाख': 100000,
+  crore: 10000000,
+  crores: 10000000,
+  'करोड': 10000000,
+}
+
+// "saadhe teen hazaar" = 3,500
+export const HALF_MORE_WORDS = new Set(['sadhe', 'saadhe', 'साढे'])
@@ -0,0 +1,117 @@
+import {
+  COLOUR_TERMS,
+  FEATURE_TERMS,
+  HALF_MORE_WORDS,
+  MULTIPLIER_WORDS,
+  NUMBER_WORDS,
+  PRODUCT_TERMS,
+} from './lexicon.js'
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९'
+
+// Lowercases, turns Devanagari digits into ASCII and drops the nukta so
+// "ज़्यादा" and "ज्यादा" compare equal
+export const normalizeIndicText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/\u093C/g, '')
+    .normalize('NFC')
+    .replace(/[०-९]/g, digit => String(DEVANAGARI_DIGITS.indexOf(digit)))
+    .toLowerCase()
+}
+
+// Words are split on whitespace and punctuation; Devanagari letters and
+// combining marks stay inside the word
+export const tokenizeIndic = (text: string): string[] => {
+  return normalizeIndicText(text).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean)
+}
+
+const DIGIT_TOKEN = /^(₹|rs\.?)?(\d[\d,]*(?:\.\d+)?)(k|l|cr)?$/
+const DIGIT_SUFFIXES: Record<string, number> = { k: 1000, l: 100000, cr: 10000000 }
+
+const formatAmount = (value: number) => String(Math.round(value))
+
+// "paanch hazaar" -> "5000", "2.5k" -> "2500", "saadhe teen lakh" -> "350000".
+// Digits keep any ₹ / rs prefix; other words pass through untouched.
+export const convertNumberWords = (text: string): string => {
+  const tokens = normalizeIndicText(text).split(/\s+/).filter(Boolean)
+  const output: string[] = []
+
+  let index = 0
+  while (index < tokens.length) {
+    let cursor = index
+    let prefix = ''
+    let total = 0
+    let current: number | null = null
+    let halfMore = false
+    let usedWords = false
+    let sawNumber = false
+
+    while (cursor < tokens.length) {
+      const token = tokens[cursor]
+      const digits = token.match(DIGIT_TOKEN)
+      const isCountWord = token in NUMBER_WORDS && (tokens[cursor + 1] ?? '') in MULTIPLIER_WORDS
+
+      if (HALF_MORE_WORDS.has(token) && current === null) {
+        halfMore = true
+        usedWords = true
+      } else if (digits && current === null) {
+        sawNumber = true
+        prefix = prefix || digits[1] || ''
+        current = Number(digits[2].replace(/,/g, ''))
+        if (digits[3]) {
+          total += current * DIGIT_SUFFIXES[digits[3]]
+          current = null
+          usedWords = true
+        }
+      } else if (isCountWord && current === null) {
+        current = NUMBER_WORDS[token] + (halfMore ? 0.5 : 0)
+        halfMore = false
+        usedWords = true
+        sawNumber = true
+      } else if (token in MULTIPLIER_WORDS && (current !== null || total > 0)) {
+        total += (current ?? 1) * MULTIPLIER_WORDS[token]
+        current = null
+        usedWords = true
+      } else {
+        break
+      }
+      cursor++
+    }
+
+    if (!sawNumber) {
+      output.push(tokens[index])
+      index++
+      continue
+    }
+
+    const value = total + (current ?? 0)
+    output.push(usedWords ? `${prefix}${formatAmount(value)}` : tokens.slice(index, cursor).join(' '))
+    if (halfMore) {
+      // a trailing "saadhe" that no number followed
+      output.push(tokens[cursor - 1])
+    }
+    index = cursor
+  }
+
+  return output.join(' ')
+}
+
+// Looks up single words and two-word phrases ("daudne wale" -> daudne_wale)
+const findTerms = (tokens: string[], terms: Record<string, string>): string[] => {
+  const found: string[] = []
+  tokens.forEach((token, index) => {
+    const pair = index + 1 < tokens.length ? `${token}_${tokens[index + 1]}` : ''
+    const term = terms[pair] ?? terms[token]
+    if (term && !found.includes(term)) {
+      found.push(term)
+    }
+  })
+  return found
+}
+
+export const findProductTerm = (tokens: string[]): string | undefined => findTerms(tokens, PRODUCT_TERMS)[0]
+
+export const findFeatureTerms = (tokens: string[]): string[] => findTerms(tokens, FEATURE_TERMS)
+
+export const findColourTerm = (tokens: string[]): string | undefined => findTerms(tokens, COLOUR_TERMS)[0]
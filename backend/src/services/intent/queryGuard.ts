@@ -0,0 +1,163 @@
+import type { PiiKind, QueryGuardResult, QueryRejectionCode } from '../../types/index.js'
+
+// Zero-width and bidi characters used to split words past a filter. ZWJ and
+// ZWNJ shape Indic scripts, so they are only dropped from the copy used for
+// matching.
+const INVISIBLE = /[\u200B\u2060\uFEFF\u202A-\u202E\u2066-\u2069]/g
+const JOINERS = /[\u200C\u200D]/g
+const CONTROL = /\p{Cc}/gu
+
+// "i g n o r e", "i.g.n.o.r.e"
+const SPACED_LETTERS = /(?<![\p{L}\d])(?:\p{L}[ .\-_*]){3,}\p{L}(?![\p{L}\d])/gu
+// "ign0re", "sh1t": digits and symbols standing in for letters inside a word
+const LEET = /(?<=\p{L})[0134578@$](?=\p{L})/gu
+const LEET_LETTERS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', $: 's',
+}
+
+const INJECTION_PATTERNS: RegExp[] = [
+  // "ignore all previous instructions", "disregard the rules above": the verb
+  // has to govern the instructions, and they have to be the assistant's, so
+  // "forget me not seeds with growing instructions" and "forget the rules
+  // board game" get through
+  /\b(?:ignore|disregard|forget|override|bypass)\s+(?:(?:the|of|my|all|any|every|your|these|those|previous|prior|above|earlier|preceding|original|system)\s+){0,3}(?:all|any|every|your|these|those|previous|prior|above|earlier|preceding|original|system)\s+(?:(?:the|of|my|all|any|every|your|these|those|previous|prior|above|earlier|preceding|original|system)\s+){0,3}(?:instructions?|prompts?|rules|guidelines|directions|system message)\b/u,
+  /\b(?:ignore|disregard|forget|override|bypass)\s+(?:(?:the|of|my)\s+){0,2}(?:instructions?|prompts?|rules|guidelines|directions|system message)(?=\s*(?:$|[,.;:!?]|(?:above|before|so far|and|then)\b))/u,
+  // Asking for the hidden prompt or credentials
+  /\b(?:reveal|show|print|repeat|leak|tell me)\b.{0,30}\b(?:system prompt|your instructions|your prompt|api key|secret key|(?:your|the) password)s?\b(?!\s*protected)/u,
+  // Role play that replaces the assistant's job
+  /\b(?:you are now|from now on,? (?:you|act)|pretend (?:to be|you are)|act as (?:an? )?(?:ai|assistant|chatbot|gpt|llm|admin|developer|system)|jailbreak|developer mode|dan mode|do anything now)\b/u,
+  // Chat-format markers and prompt delimiters. A "system:" prefix counts only
+  // when instructions follow it, not in "system: 5.1 home theatre".
+  /(?:^|[.!?]\s*)(?:system|assistant)\s*:\s*(?:you|ignore|disregard|forget|reply|respond|answer|output|return|print|reveal|act|pretend|always|never|do not|don't|from now)\b|<\|?\/?(?:system|assistant|im_start|im_end)\|?>|\[\/?inst\]|#{2,}\s*(?:instruction|system)/u,
+  // Dictating the answer instead of describing a product
+  /\b(?:respond|reply|answer|output)\b.{0,20}\b(?:only|exactly|just)\b.{0,30}\b(?:json|the word|the text|the following|yes|no)\b/u,
+  // Hinglish and Devanagari: "pichle saare instructions bhool jao"
+  /\b(?:instructions?|nirdesh|niyam|rules)\b.{0,20}\b(?:bhool|bhul|ignore kar|mat mano|mat maano)/u,
+  /(?:निर्देश|नियम).{0,20}(?:भूल|अनदेखा|मत मान)/u,
+]
+
+const PROFANITY = new Set([
+  'fuck', 'fucking', 'fucker', 'fck', 'shit', 'bitch', 'bastard', 'asshole', 'motherfucker', 'cunt',
+  'chutiya', 'chutiye', 'madarchod', 'bhenchod', 'behenchod', 'bhosdike', 'bsdk', 'gandu', 'gaandu', 'randi',
+])
+
+// Products named after a prohibited item ("glue gun", "bath bomb"); cut out
+// before PROHIBITED_PATTERNS are tried
+const HARMLESS_COMPOUNDS = /\b(?:(?:toy|water|glue|nail|massage|spray|nerf|paint|heat|soldering|bubble|foam|tattoo|staple|grease|caulking|temperature|barcode)\s+guns?|(?:bath|water|photo|seed|glitter|chocolate|cocoa)[\s-]*bombs?)\b/gu
+
+// Goods no retailer here may sell
+const PROHIBITED_PATTERNS: RegExp[] = [
+  /\b(?:cocaine|heroin|methamphetamine|mdma|lsd|ganja|charas|opium)\b/u,
+  // Only when the weapon is the item asked for: it ends the phrase ("buy a
+  // pistol under 20000") and is not what an accessory is for. "Top Gun
+  // aviator sunglasses", "pistol grip shower head", "rifle scope" and
+  // "holster for a pistol" get through.
+  /(?<!\bfor (?:a |an |my |the |your )?)\b(?:guns?|pistols?|revolvers?|rifles?|firearms?|bombs?)(?=\s*(?:$|[^\p{L}\s-]|(?:under|below|within|upto|for|with|and|or|online|near|in|from|at|price|cost|ke|ka|ki|chahiye|license|licence)\b))/u,
+  /\b(?:ammunition|ammo|explosives?|grenades?|detonators?|live (?:bullets|rounds|cartridges))\b/u,
+  /\b(?:fake|forged|counterfeit)\s+(?:notes?|currency|passports?|aadhaa?r|pan cards?|licen[cs]es?|degrees?|id cards?)\b/u,
+  /\b(?:hack(?:ing)?|spy on)\s+(?:someone|somebody|whatsapp|account|phone|instagram|facebook|my (?:wife|husband|girlfriend|boyfriend))\b/u,
+]
+
+// Tasks that are not shopping: writing, trivia, translation, homework, code
+const OFF_TOPIC_PATTERNS: RegExp[] = [
+  /^(?:please\s+|can you\s+|could you\s+)?(?:write|compose|generate|draft)\b(?:\s+[\p{L}]+){0,3}\s+(?:poem|essay|story|song|lyrics|code|program|script|letter|email|article|tweet|speech)\b/u,
+  /\b(?:tell|say)\s+(?:me\s+)?(?:a\s+)?joke\b/u,
+  /\bcapital of\b|\bweather (?:in|today|tomorrow)\b|\bwho (?:won|invented|discovered)\b/u,
+  /\btranslate\b.{0,40}\b(?:into|to)\s+(?:english|hindi|tamil|telugu|bengali|marathi|kannada|french|spanish)\b/u,
+  /\b(?:solve|integrate|differentiate)\b.{0,30}\b(?:equation|integral|homework|sum)s?\b|\b(?:do|finish)\s+my\s+homework\b/u,
+  /\b(?:python|javascript|java|sql|html|c\+\+)\s+(?:code|program|script|function)\b/u,
+]
+
+const PII_PATTERNS: Array<[PiiKind, RegExp]> = [
+  ['email', /[\p{L}\d.+_-]+@[\p{L}\d-]+(?:\.[\p{L}\d-]+)+/gu],
+  // 13-19 digits; only redacted when the Luhn check passes
+  ['card', /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g],
+  // Mobile numbers with an optional +91/0 prefix; spaced forms need the prefix
+  ['phone', /(?:\+91[\s-]?|(?<!\d)(?:0091[\s-]?|91[\s-]?|0)?)[6-9]\d{9}(?!\d)|(?:\+|(?<!\d)00)91[\s-]?[6-9]\d{4}[\s-]\d{5}(?!\d)/g],
+  // Grouped 4-4-4 and standing alone, or after the word Aadhaar/UID; a bare
+  // 12-digit number is more often a barcode someone pasted
+  ['aadhaar', /(?<!\d[\s-]?)[2-9]\d{3}([\s-])\d{4}\1\d{4}(?![\s-]?\d)|\b(?:aadhaa?r|uid)\b\D{0,15}\d{4}[\s-]?\d{4}[\s-]?\d{4}(?!\d)/giu],
+  ['pan', /\b[a-z]{5}\d{4}[a-z]\b/gi],
+  // "flat 402", "h.no 5-3-12", "plot 12, sector 5"
+  ['address', /\b(?:flat|house|h\.?\s?no|plot|door|apartment|apt)\b\.?\s*(?:no\.?|number)?\s*[:#-]?\s*\d+[a-z]?(?:[/-]\d+)?\b(?:,?\s*sector[\s-]?\d+\b)?/giu],
+  // A house number, the street's name and a street word ("12 Gandhi Nagar",
+  // "8 Cross Road"); "2 street style hoodies" has no name and is kept
+  ['address', /\b\d+(?:st|nd|rd|th|[a-z])?(?:\/\d+)?,?\s+(?:(?:\p{L}+\s+){1,3}(?:street|lane|marg|nagar|colony|layout)|(?:\p{L}+\s+){0,3}(?:main|cross) road)\b|\b\d+[a-z]?(?:\/\d+)?,\s*sector[\s-]?\d+\b/giu],
+]
+
+const REASONS: Record<QueryRejectionCode, string> = {
+  PROMPT_INJECTION: 'The query contains instructions for the assistant. Please describe only the product you want.',
+  ABUSIVE_QUERY: 'The query contains abusive language or asks for prohibited items.',
+  OFF_TOPIC_QUERY: 'This assistant can only help you find products to buy.',
+}
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// The copy patterns are matched against: compatibility forms folded
+// (full-width letters), invisible characters dropped, spaced-out and
+// leetspeak words put back together
+const foldForMatching = (text: string): string => {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(JOINERS, '')
+    .replace(SPACED_LETTERS, match => match.replace(/[ .\-_*]/g, ''))
+    .replace(LEET, character => LEET_LETTERS[character] ?? character)
+    .replace(/\s+/g, ' ')
+}
+
+const isAbusive = (folded: string): boolean => {
+  const words = folded.split(/[^\p{L}]+/u)
+  const goods = folded.replace(HARMLESS_COMPOUNDS, ' ')
+  return words.some(word => PROFANITY.has(word)) || PROHIBITED_PATTERNS.some(pattern => pattern.test(goods))
+}
+
+const reject = (code: QueryRejectionCode): QueryGuardResult => ({ ok: false, code, reason: REASONS[code] })
+
+// Checks shopper text before it is put into a prompt. Instruction injection,
+// abuse and requests that are not about shopping are refused; phone numbers,
+// emails, ID and card numbers and street addresses are cut out and the rest
+// of the query is kept.
+export const inspectQuery = (text: string): QueryGuardResult => {
+  const cleaned = text.replace(INVISIBLE, '').replace(CONTROL, ' ')
+  const folded = foldForMatching(cleaned)
+
+  if (INJECTION_PATTERNS.some(pattern => pattern.test(folded))) {
+    return reject('PROMPT_INJECTION')
+  }
+  if (isAbusive(folded)) {
+    return reject('ABUSIVE_QUERY')
+  }
+  if (OFF_TOPIC_PATTERNS.some(pattern => pattern.test(folded))) {
+    return reject('OFF_TOPIC_QUERY')
+  }
+
+  const redacted = new Set<PiiKind>()
+  const remaining = PII_PATTERNS.reduce((current, [kind, pattern]) => current.replace(pattern, match => {
+    if (kind === 'card' && !passesLuhn(match.replace(/\D/g, ''))) {
+      return match
+    }
+    redacted.add(kind)
+    return ' '
+  }), cleaned).replace(/\s+/g, ' ').replace(/\s+([,.;:!?])/g, '$1').trim()
+
+  // Nothing is left to search for once the personal details are gone
+  if (redacted.size > 0 && !/[\p{L}\d]/u.test(remaining)) {
+    return reject('OFF_TOPIC_QUERY')
+  }
+
+  return { ok: true, text: remaining, redacted: [...redacted] }
+}
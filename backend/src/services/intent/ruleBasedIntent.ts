@@ -0,0 +1,34 @@
+import { parseBudget } from './budgetGrammar.js'
+import {
+  findColourTerm,
+  findFeatureTerms,
+  findProductTerm,
+  normalizeIndicText,
+  tokenizeIndic,
+} from './multilingual.js'
+import type { ParsedIntent } from '../../types/index.js'
+
+const PRODUCT_KEYWORDS = ['shoes', 'shirt', 'laptop', 'phone', 'smartphone', 'jeans', 'dress', 'watch', 'bag']
+
+// Keyword-based intent used when no model answer is available. Understands
+// English, Hinglish ("5000 ke andar running joote") and Devanagari queries.
+export const parseIntentWithRules = (query: string): ParsedIntent => {
+  const text = normalizeIndicText(query)
+  const tokens = tokenizeIndic(query)
+
+  // Extract product type (English keywords first, then Hindi/Hinglish words)
+  const productType = PRODUCT_KEYWORDS.find(keyword => text.includes(keyword)) ?? findProductTerm(tokens) ?? 'product'
+
+  const specifications: Record<string, string> = {}
+  const color = findColourTerm(tokens)
+  if (color) {
+    specifications.color = color
+  }
+
+  return {
+    productType,
+    budget: parseBudget(query),
+    features: findFeatureTerms(tokens),
+    specifications,
+  }
+}
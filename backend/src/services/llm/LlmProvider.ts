@@ -0,0 +1,111 @@
+import { logger } from '../../utils/logger.js'
+import { OpenAIProvider } from './OpenAIProvider.js'
+import { StubProvider } from './StubProvider.js'
+
+export type LlmProviderName = 'openai' | 'openai_compatible' | 'stub'
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[]
+  // Override the configured defaults for one call
+  temperature?: number
+  maxTokens?: number
+}
+
+// Token counts reported by the API for one completion
+export interface LlmUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LlmCompletion {
+  content: string
+  // null when the provider does not report usage
+  usage: LlmUsage | null
+}
+
+// A chat model that answers with text; callers parse the text themselves
+export interface LlmProvider {
+  readonly name: LlmProviderName
+  readonly model: string
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName
+  model: string
+  temperature: number
+  maxTokens: number
+  // Request timeout in ms
+  timeout: number
+  apiKey?: string
+  // Only used by openai_compatible, e.g. http://localhost:11434/v1 for Ollama
+  baseURL?: string
+}
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'openai_compatible', 'stub']
+
+const getNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+// LLM_PROVIDER picks the provider; without it OpenAI is used when a key is
+// set and the offline stub otherwise. A provider that is missing what it
+// needs falls back to the stub so the server still boots.
+export const getLlmConfig = (env: NodeJS.ProcessEnv = process.env): LlmConfig => {
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY || undefined
+  const requested = env.LLM_PROVIDER?.trim().toLowerCase()
+
+  let provider: LlmProviderName = apiKey ? 'openai' : 'stub'
+  if (requested) {
+    if (PROVIDERS.includes(requested as LlmProviderName)) {
+      provider = requested as LlmProviderName
+    } else {
+      logger.warn(`Unknown LLM_PROVIDER "${requested}", using ${provider}`)
+    }
+  }
+
+  if (provider === 'openai' && !apiKey) {
+    logger.warn('LLM_PROVIDER is openai but no OPENAI_API_KEY is set, using the offline stub')
+    provider = 'stub'
+  }
+  if (provider === 'openai_compatible' && !env.LLM_BASE_URL) {
+    logger.warn('LLM_PROVIDER is openai_compatible but LLM_BASE_URL is not set, using the offline stub')
+    provider = 'stub'
+  }
+
+  return {
+    provider,
+    // The stub answers the same whatever LLM_MODEL says, and its calls must
+    // not be reported under a paid model's name
+    model: provider === 'stub' ? 'stub' : env.LLM_MODEL || 'gpt-4',
+    temperature: getNumber(env.LLM_TEMPERATURE, 0.1),
+    maxTokens: getNumber(env.LLM_MAX_TOKENS, 500),
+    timeout: getNumber(env.LLM_TIMEOUT, 15000),
+    apiKey,
+    baseURL: provider === 'openai_compatible' ? env.LLM_BASE_URL : undefined,
+  }
+}
+
+export const createLlmProvider = (config: LlmConfig = getLlmConfig()): LlmProvider => {
+  if (config.provider === 'stub') {
+    return new StubProvider()
+  }
+  return new OpenAIProvider(config)
+}
+
+let sharedProvider: LlmProvider | null = null
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!sharedProvider) {
+    sharedProvider = createLlmProvider()
+    logger.info(`Using ${sharedProvider.name} LLM provider (model ${sharedProvider.model})`)
+  }
+  return sharedProvider
+}
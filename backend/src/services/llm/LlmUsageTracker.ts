@@ -0,0 +1,143 @@
+import type { LlmUsage } from './LlmProvider.js'
+import type {
+  LlmDailyUsage,
+  LlmOperation,
+  LlmRequestUsage,
+  LlmSpendSummary,
+  LlmUsageRecord,
+} from '../../types/index.js'
+
+// USD per 1,000 tokens
+export interface LlmPricing {
+  promptPer1K: number
+  completionPer1K: number
+}
+
+// GPT-4 list prices, the default model
+const DEFAULT_PROMPT_COST_PER_1K = 0.03
+const DEFAULT_COMPLETION_COST_PER_1K = 0.06
+const MAX_DAYS = 7
+const MAX_RECENT = 50
+
+const getNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+// Sums of many small fractions drift; micro-dollars are precise enough
+const roundCost = (cost: number): number => Math.round(cost * 1e6) / 1e6
+
+export const emptyUsage = (): LlmRequestUsage => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+})
+
+export const addUsage = (total: LlmRequestUsage, usage: LlmRequestUsage): LlmRequestUsage => ({
+  calls: total.calls + usage.calls,
+  promptTokens: total.promptTokens + usage.promptTokens,
+  completionTokens: total.completionTokens + usage.completionTokens,
+  totalTokens: total.totalTokens + usage.totalTokens,
+  cost: roundCost(total.cost + usage.cost),
+})
+
+export const getLlmPricing = (env: NodeJS.ProcessEnv = process.env): LlmPricing => ({
+  promptPer1K: getNumber(env.LLM_PROMPT_COST_PER_1K, DEFAULT_PROMPT_COST_PER_1K),
+  completionPer1K: getNumber(env.LLM_COMPLETION_COST_PER_1K, DEFAULT_COMPLETION_COST_PER_1K),
+})
+
+// LLM_DAILY_SPEND_CAP in USD; unset or 0 means no cap
+export const getDailySpendCap = (env: NodeJS.ProcessEnv = process.env): number | null => {
+  const cap = getNumber(env.LLM_DAILY_SPEND_CAP, 0)
+  return cap > 0 ? cap : null
+}
+
+// Totals the tokens and estimated cost of model calls per UTC day, and tells
+// the parser when today's spend has reached the cap. Totals are kept in
+// memory, so each server instance counts its own spend and a restart resets
+// the day.
+export class LlmUsageTracker {
+  private readonly days = new Map<string, LlmDailyUsage>()
+  private readonly recent: LlmUsageRecord[] = []
+
+  constructor(
+    private readonly pricing: LlmPricing = getLlmPricing(),
+    private readonly dailyCap: number | null = getDailySpendCap(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  // Records one completion and returns what it cost. Providers that report
+  // no usage (the offline stub) count as a free call.
+  record(operation: LlmOperation, model: string, usage: LlmUsage | null): LlmRequestUsage {
+    const promptTokens = usage?.promptTokens ?? 0
+    const completionTokens = usage?.completionTokens ?? 0
+    const call: LlmRequestUsage = {
+      calls: 1,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.totalTokens || promptTokens + completionTokens,
+      cost: roundCost(
+        (promptTokens / 1000) * this.pricing.promptPer1K + (completionTokens / 1000) * this.pricing.completionPer1K
+      ),
+    }
+
+    const today = this.today()
+    this.days.set(today.date, { ...today, ...addUsage(today, call) })
+
+    this.recent.unshift({ ...call, operation, model, timestamp: this.now().toISOString() })
+    this.recent.length = Math.min(this.recent.length, MAX_RECENT)
+
+    return call
+  }
+
+  recordCacheHit(): void {
+    this.today().cacheHits++
+  }
+
+  recordCapped(): void {
+    this.today().cappedRequests++
+  }
+
+  isOverCap(): boolean {
+    return this.dailyCap !== null && this.today().cost >= this.dailyCap
+  }
+
+  getSummary(): LlmSpendSummary {
+    const today = this.today()
+    return {
+      today: { ...today },
+      dailyCap: this.dailyCap,
+      capReached: this.isOverCap(),
+      pricing: { ...this.pricing },
+      days: [...this.days.values()].sort((a, b) => b.date.localeCompare(a.date)).map(day => ({ ...day })),
+      recent: this.recent.map(record => ({ ...record })),
+    }
+  }
+
+  // Today's totals, created on first use; days beyond MAX_DAYS are dropped
+  private today(): LlmDailyUsage {
+    const date = this.now().toISOString().slice(0, 10)
+    let day = this.days.get(date)
+    if (!day) {
+      day = { date, ...emptyUsage(), cacheHits: 0, cappedRequests: 0 }
+      this.days.set(date, day)
+
+      const dates = [...this.days.keys()].sort()
+      for (const old of dates.slice(0, Math.max(0, dates.length - MAX_DAYS))) {
+        this.days.delete(old)
+      }
+    }
+    return day
+  }
+}
+
+let sharedTracker: LlmUsageTracker | null = null
+
+export const getLlmUsageTracker = (): LlmUsageTracker => {
+  if (!sharedTracker) {
+    sharedTracker = new LlmUsageTracker()
+  }
+  return sharedTracker
+}
@@ -0,0 +1,45 @@
+import OpenAI from 'openai'
+import type { LlmCompletion, LlmCompletionRequest, LlmConfig, LlmProvider } from './LlmProvider.js'
+
+// OpenAI itself, or any server speaking the same chat completions API
+// (Ollama, vLLM, LM Studio) when a base URL is configured.
+export class OpenAIProvider implements LlmProvider {
+  readonly name: 'openai' | 'openai_compatible'
+  readonly model: string
+  private readonly client: OpenAI
+
+  constructor(private readonly config: LlmConfig) {
+    this.name = config.provider === 'openai_compatible' ? 'openai_compatible' : 'openai'
+    this.model = config.model
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the client insists on one
+      apiKey: config.apiKey ?? 'not-needed',
+      baseURL: config.baseURL,
+      timeout: config.timeout,
+    })
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? this.config.temperature,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+    })
+
+    const content = response.choices[0]?.message?.content
+    if (!content) {
+      throw new Error(`No response from ${this.name === 'openai' ? 'OpenAI' : this.config.baseURL}`)
+    }
+
+    // Some compatible servers leave usage out
+    const usage = response.usage
+      ? {
+          promptTokens: response.usage.prompt_tokens ?? 0,
+          completionTokens: response.usage.completion_tokens ?? 0,
+          totalTokens: response.usage.total_tokens ?? 0,
+        }
+      : null
+    return { content, usage }
+  }
+}
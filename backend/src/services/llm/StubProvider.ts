@@ -0,0 +1,28 @@
+import { parseIntentWithRules } from '../intent/ruleBasedIntent.js'
+import type { LlmCompletion, LlmCompletionRequest, LlmMessage, LlmProvider } from './LlmProvider.js'
+
+// Prompts quote the shopper's text as a JSON string: ...query: "running shoes under 3000"
+const QUOTED_QUERY = /query[^"\n]*:\s*("(?:[^"\\]|\\.)*")/i
+
+const defaultResponder = (messages: LlmMessage[]): string => {
+  const prompts = messages.filter(message => message.role === 'user').map(message => message.content)
+  const quoted = prompts.map(prompt => prompt.match(QUOTED_QUERY)?.[1]).find(query => query !== undefined)
+  const query: string = quoted !== undefined ? JSON.parse(quoted) : prompts[prompts.length - 1] ?? ''
+  return JSON.stringify(parseIntentWithRules(query))
+}
+
+// Offline provider for development and tests: no network, and the same
+// prompt always gets the same answer. By default it answers with the
+// keyword-based intent for the quoted query.
+export class StubProvider implements LlmProvider {
+  readonly name = 'stub' as const
+  // Fixed, so usage records and the spend report never take stub calls for paid ones
+  readonly model = 'stub'
+
+  constructor(private readonly respond: (messages: LlmMessage[]) => string = defaultResponder) {}
+
+  // No tokens are billed, so no usage is reported
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return { content: this.respond(request.messages), usage: null }
+  }
+}
@@ -0,0 +1,138 @@
+import { createLlmProvider, getLlmConfig } from '../LlmProvider.js'
+import { StubProvider } from '../StubProvider.js'
+import { IntentParserService } from '../../IntentParserService.js'
+import { IntentCache } from '../../cache/IntentCache.js'
+import { MemoryCacheStore } from '../../cache/CacheStore.js'
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: {
+      completions: {
+        create: jest.fn(),
+      },
+    },
+  })),
+}))
+
+describe('getLlmConfig', () => {
+  it('uses OpenAI with the historical defaults when a key is set', () => {
+    expect(getLlmConfig({ OPENAI_API_KEY: 'sk-test' })).toEqual({
+      provider: 'openai',
+      model: 'gpt-4',
+      temperature: 0.1,
+      maxTokens: 500,
+      timeout: 15000,
+      apiKey: 'sk-test',
+      baseURL: undefined,
+    })
+  })
+
+  it('falls back to the offline stub without a key', () => {
+    expect(getLlmConfig({}).provider).toBe('stub')
+    expect(getLlmConfig({ LLM_PROVIDER: 'openai' }).provider).toBe('stub')
+  })
+
+  it('names the stub\'s model stub whatever LLM_MODEL says', () => {
+    expect(getLlmConfig({ LLM_MODEL: 'gpt-4o' })).toMatchObject({ provider: 'stub', model: 'stub' })
+    expect(createLlmProvider(getLlmConfig({ LLM_PROVIDER: 'stub', LLM_MODEL: 'gpt-4o' })).model).toBe('stub')
+  })
+
+  it('reads an OpenAI-compatible endpoint and model settings', () => {
+    const config = getLlmConfig({
+      LLM_PROVIDER: 'openai_compatible',
+      LLM_BASE_URL: 'http://localhost:11434/v1',
+      LLM_MODEL: 'llama3.1',
+      LLM_TEMPERATURE: '0',
+      LLM_MAX_TOKENS: '800',
+    })
+
+    expect(config).toMatchObject({
+      provider: 'openai_compatible',
+      baseURL: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      temperature: 0,
+      maxTokens: 800,
+    })
+  })
+
+  it('needs a base URL for an OpenAI-compatible endpoint', () => {
+    expect(getLlmConfig({ LLM_PROVIDER: 'openai_compatible' }).provider).toBe('stub')
+  })
+
+  it('ignores unknown providers and invalid numbers', () => {
+    const config = getLlmConfig({ LLM_PROVIDER: 'claude', OPENAI_API_KEY: 'sk-test', LLM_TEMPERATURE: 'hot' })
+
+    expect(config.provider).toBe('openai')
+    expect(config.temperature).toBe(0.1)
+  })
+})
+
+describe('createLlmProvider', () => {
+  it('sends the configured model and limits to the completions API', async () => {
+    const provider = createLlmProvider(getLlmConfig({ LLM_API_KEY: 'sk-test', LLM_MODEL: 'gpt-4o-mini', LLM_MAX_TOKENS: '256' }))
+    const create = (provider as unknown as { client: { chat: { completions: { create: jest.Mock } } } })
+      .client.chat.completions.create
+    create.mockResolvedValue({ choices: [{ message: { content: '{}' } }] })
+
+    await provider.complete({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 100 })
+
+    expect(provider.name).toBe('openai')
+    expect(create).toHaveBeenCalledWith({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'hi' }],
+      temperature: 0.1,
+      max_tokens: 100,
+    })
+  })
+
+  it('returns the token usage reported with the completion', async () => {
+    const provider = createLlmProvider(getLlmConfig({ LLM_API_KEY: 'sk-test' }))
+    const create = (provider as unknown as { client: { chat: { completions: { create: jest.Mock } } } })
+      .client.chat.completions.create
+    create.mockResolvedValueOnce({
+      choices: [{ message: { content: '{}' } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+    })
+    create.mockResolvedValueOnce({ choices: [{ message: { content: '{}' } }] })
+
+    await expect(provider.complete({ messages: [] })).resolves.toEqual({
+      content: '{}',
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+    })
+    await expect(provider.complete({ messages: [] })).resolves.toEqual({ content: '{}', usage: null })
+  })
+
+  it('builds the stub when configured', () => {
+    expect(createLlmProvider(getLlmConfig({ LLM_PROVIDER: 'stub' }))).toBeInstanceOf(StubProvider)
+  })
+})
+
+describe('StubProvider', () => {
+  it('answers the quoted query deterministically so the parser works offline', async () => {
+    // With the cache off, so the second answer comes from the stub too
+    const cache = new IntentCache(new MemoryCacheStore(), 0)
+    const service = new IntentParserService(new StubProvider(), undefined, undefined, cache)
+
+    const first = await service.parseQuery('running shoes under 3000')
+    const second = await service.parseQuery('running shoes under 3000')
+
+    expect(first).toEqual({
+      productType: 'shoes',
+      budget: { min: 0, max: 3000 },
+      features: ['running'],
+      specifications: {},
+      category: expect.objectContaining({ id: 'fashion.footwear.running-shoes' }),
+    })
+    expect(second).toEqual(first)
+  })
+
+  it('accepts a canned responder', async () => {
+    const provider = new StubProvider(() => '{"productType":"watch","budget":null,"features":[]}')
+
+    await expect(provider.complete({ messages: [] })).resolves.toEqual({
+      content: '{"productType":"watch","budget":null,"features":[]}',
+      usage: null,
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import { getDailySpendCap, getLlmPricing, LlmUsageTracker } from '../LlmUsageTracker.js'
+
+const pricing = { promptPer1K: 0.03, completionPer1K: 0.06 }
+
+describe('getLlmPricing and getDailySpendCap', () => {
+  it('reads prices and the cap from the environment', () => {
+    expect(getLlmPricing({ LLM_PROMPT_COST_PER_1K: '0.00015', LLM_COMPLETION_COST_PER_1K: '0.0006' })).toEqual({
+      promptPer1K: 0.00015,
+      completionPer1K: 0.0006,
+    })
+    expect(getDailySpendCap({ LLM_DAILY_SPEND_CAP: '5' })).toBe(5)
+  })
+
+  it('uses the defaults for missing or invalid values, and no cap for 0', () => {
+    expect(getLlmPricing({ LLM_PROMPT_COST_PER_1K: 'free' })).toEqual(pricing)
+    expect(getDailySpendCap({})).toBeNull()
+    expect(getDailySpendCap({ LLM_DAILY_SPEND_CAP: '0' })).toBeNull()
+    expect(getDailySpendCap({ LLM_DAILY_SPEND_CAP: '-1' })).toBeNull()
+  })
+})
+
+describe('LlmUsageTracker', () => {
+  let now: Date
+  const createTracker = (cap: number | null = null) => new LlmUsageTracker(pricing, cap, () => now)
+
+  beforeEach(() => {
+    now = new Date('2026-03-01T10:00:00Z')
+  })
+
+  it('prices a call from its prompt and completion tokens', () => {
+    const tracker = createTracker()
+
+    const cost = tracker.record('parse', 'gpt-4', { promptTokens: 1500, completionTokens: 200, totalTokens: 1700 })
+
+    expect(cost).toEqual({ calls: 1, promptTokens: 1500, completionTokens: 200, totalTokens: 1700, cost: 0.057 })
+    expect(tracker.getSummary().recent).toEqual([
+      { ...cost, operation: 'parse', model: 'gpt-4', timestamp: '2026-03-01T10:00:00.000Z' },
+    ])
+  })
+
+  it('counts calls without reported usage as free', () => {
+    const tracker = createTracker()
+
+    expect(tracker.record('entities', 'stub', null)).toEqual({
+      calls: 1,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+    })
+  })
+
+  it('totals each UTC day separately', () => {
+    const tracker = createTracker()
+    tracker.record('parse', 'gpt-4', { promptTokens: 1000, completionTokens: 0, totalTokens: 1000 })
+    tracker.recordCacheHit()
+
+    now = new Date('2026-03-02T00:30:00Z')
+    tracker.record('parse', 'gpt-4', { promptTokens: 0, completionTokens: 1000, totalTokens: 1000 })
+
+    const summary = tracker.getSummary()
+    expect(summary.today).toMatchObject({ date: '2026-03-02', calls: 1, cost: 0.06, cacheHits: 0 })
+    expect(summary.days.map(day => [day.date, day.cost, day.cacheHits])).toEqual([
+      ['2026-03-02', 0.06, 0],
+      ['2026-03-01', 0.03, 1],
+    ])
+  })
+
+  it('keeps a week of days', () => {
+    const tracker = createTracker()
+    for (let day = 1; day <= 10; day++) {
+      now = new Date(Date.UTC(2026, 2, day, 12))
+      tracker.recordCacheHit()
+    }
+
+    expect(tracker.getSummary().days.map(day => day.date)).toEqual([
+      '2026-03-10', '2026-03-09', '2026-03-08', '2026-03-07', '2026-03-06', '2026-03-05', '2026-03-04',
+    ])
+  })
+
+  it('reports the cap as reached once today\'s spend meets it, until the next day', () => {
+    const tracker = createTracker(0.05)
+    tracker.record('parse', 'gpt-4', { promptTokens: 1000, completionTokens: 0, totalTokens: 1000 })
+    expect(tracker.isOverCap()).toBe(false)
+
+    tracker.record('parse', 'gpt-4', { promptTokens: 1000, completionTokens: 0, totalTokens: 1000 })
+    tracker.recordCapped()
+    expect(tracker.getSummary()).toMatchObject({ dailyCap: 0.05, capReached: true, today: { cappedRequests: 1 } })
+
+    now = new Date('2026-03-02T00:00:00Z')
+    expect(tracker.isOverCap()).toBe(false)
+  })
+
+  it('never reports the cap as reached without one', () => {
+    const tracker = createTracker()
+    tracker.record('parse', 'gpt-4', { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 })
+
+    expect(tracker.getSummary()).toMatchObject({ dailyCap: null, capReached: false, today: { cost: 30 } })
+  })
+})
@@ -0,0 +1,279 @@
+import {
+  extractCapacities,
+  normalizeBrand,
+  tokenizeModelName,
+  type ModelTokens,
+} from './normalize.js'
+import type { Product, ProductGroup, ProductOffer, RetailerName } from '../../types/index.js'
+
+export interface MatchScore {
+  // Overall confidence that both listings are the same item (0-1)
+  score: number
+  brand: number
+  model: number
+  specifications: number
+  price: number
+}
+
+export interface ProductMatcherOptions {
+  // Minimum score for two listings to be grouped
+  threshold: number
+}
+
+const WEIGHTS = {
+  brand: 0.2,
+  model: 0.5,
+  specifications: 0.15,
+  price: 0.15,
+}
+
+// Listings whose specifications contradict each other (6 GB vs 8 GB) never match
+const SPEC_CONFLICT_CAP = 0.3
+// Listings priced more than 2x apart are almost never the same item
+const PRICE_GAP_CAP = 0.5
+// Different model codes ("M34" vs "M14") or variants ("Pro" vs base model)
+const MODEL_MISMATCH_FACTOR = 0.3
+
+const IGNORED_SPECIFICATIONS = new Set(['color', 'colour'])
+
+interface Listing {
+  product: Product
+  brand: string
+  model: ModelTokens
+  capacities: Set<number>
+  specifications: Map<string, string>
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const intersectionSize = <T>(a: Set<T>, b: Set<T>): number => {
+  let count = 0
+  a.forEach(value => {
+    if (b.has(value)) {
+      count++
+    }
+  })
+  return count
+}
+
+const isSubset = <T>(a: Set<T>, b: Set<T>): boolean => intersectionSize(a, b) === a.size
+
+const toListing = (product: Product): Listing => {
+  const specificationValues = Object.values(product.specifications ?? {})
+
+  return {
+    product,
+    brand: normalizeBrand(product.brand),
+    model: tokenizeModelName(product.name, product.brand),
+    capacities: extractCapacities(product.name, ...specificationValues),
+    specifications: new Map(
+      Object.entries(product.specifications ?? {})
+        .map(([key, value]) => [key.trim().toLowerCase(), value.trim().toLowerCase()] as [string, string])
+        .filter(([key]) => !IGNORED_SPECIFICATIONS.has(key))
+    ),
+  }
+}
+
+// Matches listings of the same item across retailers using brand, normalised
+// model name, key specifications and price proximity, and clusters them into
+// product groups with at most one offer per retailer.
+export class ProductMatcher {
+  private readonly options: ProductMatcherOptions
+
+  constructor(options: Partial<ProductMatcherOptions> = {}) {
+    this.options = { threshold: 0.75, ...options }
+  }
+
+  score(a: Product, b: Product): MatchScore {
+    return this.scoreListings(toListing(a), toListing(b))
+  }
+
+  isMatch(a: Product, b: Product): boolean {
+    return a.retailer !== b.retailer && this.score(a, b).score >= this.options.threshold
+  }
+
+  group(products: Product[]): ProductGroup[] {
+    const listings = products.map(toListing)
+
+    // Every cross-retailer pair that clears the threshold, strongest first
+    const edges: Array<{ a: number; b: number; score: number }> = []
+    for (let i = 0; i < listings.length; i++) {
+      for (let j = i + 1; j < listings.length; j++) {
+        if (listings[i].product.retailer === listings[j].product.retailer) {
+          continue
+        }
+        const { score } = this.scoreListings(listings[i], listings[j])
+        if (score >= this.options.threshold) {
+          edges.push({ a: i, b: j, score })
+        }
+      }
+    }
+    edges.sort((x, y) => y.score - x.score)
+
+    // Greedily merge clusters, never letting a cluster hold two offers from one retailer
+    const clusterOf = listings.map((_, index) => index)
+    const clusters = new Map<number, { members: number[]; retailers: Set<RetailerName>; scores: number[] }>(
+      listings.map((listing, index) => [
+        index,
+        { members: [index], retailers: new Set([listing.product.retailer]), scores: [] },
+      ])
+    )
+    const offerConfidence = listings.map(() => 0)
+
+    edges.forEach(({ a, b, score }) => {
+      const leftId = clusterOf[a]
+      const rightId = clusterOf[b]
+      const left = clusters.get(leftId)!
+      const right = clusters.get(rightId)!
+      if (leftId === rightId || intersectionSize(left.retailers, right.retailers) > 0) {
+        return
+      }
+
+      right.members.forEach(member => {
+        clusterOf[member] = leftId
+        left.members.push(member)
+      })
+      right.retailers.forEach(retailer => left.retailers.add(retailer))
+      left.scores.push(score, ...right.scores)
+      clusters.delete(rightId)
+
+      offerConfidence[a] = Math.max(offerConfidence[a], score)
+      offerConfidence[b] = Math.max(offerConfidence[b], score)
+    })
+
+    return [...clusters.values()]
+      .map(cluster => this.toGroup(
+        cluster.members.map(index => ({ listing: listings[index], confidence: offerConfidence[index] })),
+        cluster.scores
+      ))
+      .sort((x, y) => y.offers.length - x.offers.length || x.lowestPrice - y.lowestPrice)
+  }
+
+  private scoreListings(a: Listing, b: Listing): MatchScore {
+    const brand = this.scoreBrand(a, b)
+    const model = this.scoreModel(a.model, b.model)
+    const specifications = this.scoreSpecifications(a, b)
+    const price = this.scorePrice(a.product.price, b.product.price)
+
+    let score = brand * WEIGHTS.brand +
+      model * WEIGHTS.model +
+      specifications * WEIGHTS.specifications +
+      price * WEIGHTS.price
+
+    if (brand === 0) {
+      score = 0
+    }
+    if (specifications === 0) {
+      score = Math.min(score, SPEC_CONFLICT_CAP)
+    }
+    if (price === 0) {
+      score = Math.min(score, PRICE_GAP_CAP)
+    }
+
+    return {
+      score: round(score),
+      brand: round(brand),
+      model: round(model),
+      specifications: round(specifications),
+      price: round(price),
+    }
+  }
+
+  // 1 for the same brand, 0 for a different one, 0.5 when either is unknown
+  private scoreBrand(a: Listing, b: Listing): number {
+    if (!a.brand || !b.brand) {
+      return 0.5
+    }
+    if (a.brand === b.brand) {
+      return 1
+    }
+
+    // Extracted brands fall back to the first word of the name, so also
+    // accept a brand that appears in the other listing's name
+    const aName = normalizeBrand(a.product.name)
+    const bName = normalizeBrand(b.product.name)
+    return aName.startsWith(b.brand) || bName.startsWith(a.brand) ? 1 : 0
+  }
+
+  private scoreModel(a: ModelTokens, b: ModelTokens): number {
+    if (a.tokens.size === 0 || b.tokens.size === 0) {
+      return 0
+    }
+
+    // Overlap tolerates one retailer padding its titles with marketing text;
+    // Dice rewards titles that say the same thing
+    const shared = intersectionSize(a.tokens, b.tokens)
+    const overlap = shared / Math.min(a.tokens.size, b.tokens.size)
+    const dice = (2 * shared) / (a.tokens.size + b.tokens.size)
+    let score = 0.7 * overlap + 0.3 * dice
+
+    const codesDiffer = a.codes.size > 0 && b.codes.size > 0 && intersectionSize(a.codes, b.codes) === 0
+    const variantsDiffer = a.variants.size !== b.variants.size || intersectionSize(a.variants, b.variants) !== a.variants.size
+    if (codesDiffer || variantsDiffer) {
+      score *= MODEL_MISMATCH_FACTOR
+    }
+
+    return score
+  }
+
+  // 1 when comparable specifications agree, 0 on a contradiction and 0.5
+  // when there is nothing to compare
+  private scoreSpecifications(a: Listing, b: Listing): number {
+    let compared = 0
+
+    if (a.capacities.size > 0 && b.capacities.size > 0) {
+      // One listing often omits the RAM, so a subset still agrees
+      if (!isSubset(a.capacities, b.capacities) && !isSubset(b.capacities, a.capacities)) {
+        return 0
+      }
+      compared++
+    }
+
+    for (const [key, value] of a.specifications) {
+      const other = b.specifications.get(key)
+      if (other === undefined) {
+        continue
+      }
+      if (other !== value) {
+        return 0
+      }
+      compared++
+    }
+
+    return compared > 0 ? 1 : 0.5
+  }
+
+  // 1 within 10% of each other, falling to 0 at a 2x difference
+  private scorePrice(a: number, b: number): number {
+    if (!(a > 0) || !(b > 0)) {
+      return 0.5
+    }
+
+    const ratio = Math.min(a, b) / Math.max(a, b)
+    return Math.max(0, Math.min(1, (ratio - 0.5) / 0.4))
+  }
+
+  private toGroup(members: Array<{ listing: Listing; confidence: number }>, scores: number[]): ProductGroup {
+    const offers: ProductOffer[] = members
+      .map(({ listing, confidence }) => ({
+        retailer: listing.product.retailer,
+        product: listing.product,
+        confidence: members.length > 1 ? confidence : 1,
+      }))
+      .sort((x, y) => x.product.price - y.product.price)
+
+    // Retailer titles carry the least padding when they are shortest
+    const title = offers
+      .map(offer => offer.product.name)
+      .reduce((shortest, name) => (name.length < shortest.length ? name : shortest))
+
+    return {
+      id: `group-${offers[0].product.id}`,
+      title,
+      brand: offers[0].product.brand,
+      offers,
+      confidence: scores.length > 0 ? Math.min(...scores) : 1,
+      lowestPrice: offers[0].product.price,
+    }
+  }
+}
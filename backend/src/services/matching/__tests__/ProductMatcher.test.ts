@@ -0,0 +1,124 @@
+import labelledListings from './fixtures/labelled-listings.json'
+import { ProductMatcher } from '../ProductMatcher.js'
+import type { Product, RetailerName } from '../../../types/index.js'
+
+interface LabelledListing {
+  label: string
+  retailer: string
+  brand: string
+  name: string
+  price: number
+  specifications?: Record<string, string>
+}
+
+const toProduct = (listing: LabelledListing, index: number): Product => ({
+  id: `${listing.retailer}-${index}`,
+  retailer: listing.retailer as RetailerName,
+  name: listing.name,
+  brand: listing.brand,
+  price: listing.price,
+  currency: 'INR',
+  image: '',
+  description: '',
+  specifications: listing.specifications ?? {},
+  availability: true,
+  deliveryInfo: { available: true, eta: '', cost: 0 },
+  rating: 0,
+  reviewCount: 0,
+  matchScore: 0,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+})
+
+const listings = labelledListings as LabelledListing[]
+const products = listings.map(toProduct)
+const labelOf = new Map(products.map((product, index) => [product.id, listings[index].label]))
+const byLabel = (label: string) => products.filter(product => labelOf.get(product.id) === label)
+
+describe('ProductMatcher', () => {
+  const matcher = new ProductMatcher()
+
+  describe('on the labelled listing set', () => {
+    // Every cross-retailer pair, compared against the human labels
+    const pairs = products.flatMap((a, i) => products.slice(i + 1)
+      .filter(b => a.retailer !== b.retailer)
+      .map(b => ({ a, b, same: labelOf.get(a.id) === labelOf.get(b.id) })))
+
+    it('has no false matches and finds nearly every labelled pair', () => {
+      const falseMatches = pairs.filter(pair => !pair.same && matcher.isMatch(pair.a, pair.b))
+      const missedMatches = pairs.filter(pair => pair.same && !matcher.isMatch(pair.a, pair.b))
+
+      expect(falseMatches.map(pair => [pair.a.name, pair.b.name])).toEqual([])
+      // Titles such as "Wireless Headphones" vs "Bluetooth Headset" may only
+      // be linked through a third listing; a handful of direct misses is fine
+      expect(missedMatches.length / pairs.filter(pair => pair.same).length).toBeLessThanOrEqual(0.2)
+    })
+
+    it('groups listings exactly as labelled', () => {
+      const groups = matcher.group(products)
+      const grouped = groups.map(group => group.offers.map(offer => labelOf.get(offer.product.id)))
+
+      grouped.forEach(labels => expect(new Set(labels).size).toBe(1))
+      expect(grouped.length).toBe(new Set(labelOf.values()).size)
+    })
+  })
+
+  it('scores each factor for a matching pair', () => {
+    const [amazon, flipkart] = byLabel('iphone-15-128')
+
+    expect(matcher.score(amazon, flipkart)).toEqual({
+      score: expect.any(Number),
+      brand: 1,
+      model: 1,
+      specifications: 1,
+      price: 1,
+    })
+  })
+
+  it('rejects a different variant of the same model line', () => {
+    const [base] = byLabel('iphone-15-128')
+    const [pro] = byLabel('iphone-15-pro-128')
+
+    expect(matcher.score(base, pro).model).toBeLessThan(0.5)
+    expect(matcher.isMatch(base, pro)).toBe(false)
+  })
+
+  it('caps the score when storage or size contradict each other', () => {
+    const [sixGb] = byLabel('galaxy-m34-6-128')
+    const [, eightGb] = byLabel('galaxy-m34-8-128')
+    const [myntraKurta] = byLabel('biba-kurta')
+    const [largeKurta] = byLabel('biba-kurta-l')
+
+    expect(matcher.score(sixGb, eightGb)).toMatchObject({ specifications: 0, score: 0.3 })
+    expect(matcher.score(myntraKurta, largeKurta).specifications).toBe(0)
+  })
+
+  it('never matches different brands', () => {
+    const [nike] = byLabel('nike-revolution-6')
+    const [trendy] = byLabel('trendy-runner')
+
+    expect(matcher.score(nike, trendy).score).toBe(0)
+  })
+
+  it('builds groups with one offer per retailer, cheapest first', () => {
+    const group = matcher.group(byLabel('nike-revolution-6'))[0]
+
+    expect(group.offers.map(offer => offer.retailer)).toEqual(['amazon', 'flipkart', 'myntra'])
+    expect(group.lowestPrice).toBe(3295)
+    expect(group.title).toBe('Nike Mens Revolution 6 Nn Running Shoe')
+    expect(group.confidence).toBeGreaterThanOrEqual(0.75)
+    group.offers.forEach(offer => expect(offer.confidence).toBeGreaterThanOrEqual(group.confidence))
+  })
+
+  it('keeps two listings from the same retailer apart', () => {
+    const [amazonShoe] = byLabel('nike-revolution-6')
+    const duplicate = { ...amazonShoe, id: 'amazon-duplicate', price: 3199 }
+
+    const groups = matcher.group([amazonShoe, duplicate])
+
+    expect(groups).toHaveLength(2)
+    groups.forEach(group => expect(group.confidence).toBe(1))
+  })
+})
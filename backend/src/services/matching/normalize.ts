@@ -0,0 +1,84 @@
+/**
+ * Normalisation helpers for comparing product listings across retailers
+ */
+
+// Words that describe the listing rather than the product itself
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'with', 'on', 'in', 'to', 'by',
+  'men', 'mens', 'women', 'womens', 'boys', 'girls', 'kids', 'unisex',
+  'new', 'latest', 'edition', 'ram', 'rom', 'storage', 'memory',
+])
+
+const COLOURS = new Set([
+  'black', 'white', 'blue', 'red', 'green', 'yellow', 'orange', 'pink', 'purple',
+  'grey', 'gray', 'silver', 'gold', 'brown', 'beige', 'navy', 'maroon', 'midnight',
+  'titanium', 'natural', 'cream', 'olive', 'teal',
+])
+
+// Words that name a different variant of the same model line ("iPhone 15 Pro")
+export const VARIANT_WORDS = new Set(['pro', 'max', 'plus', 'ultra', 'lite', 'mini', 'fe', 'neo', 'prime', 'air'])
+
+// Tokens such as "5g", "120hz" or "50mp" are specifications, not model codes
+const UNIT_TOKEN = /^\d+(?:\.\d+)?(?:g|gb|tb|mb|hz|mp|mah|w|inch|cm|mm|kg|ml|l|x)$/
+
+const CAPACITY = /(\d+(?:\.\d+)?)\s*(gb|tb)\b/gi
+
+export interface ModelTokens {
+  // Every meaningful word in the name
+  tokens: Set<string>
+  // Alphanumeric model identifiers such as "m34" or "450"
+  codes: Set<string>
+  variants: Set<string>
+}
+
+/**
+ * Reduces a brand to lowercase letters and digits: "boAt" and "BOAT" compare equal.
+ */
+export const normalizeBrand = (brand: string | undefined | null): string => {
+  return (brand ?? '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+const stem = (token: string): string => {
+  return token.length > 3 && /[a-z]s$/.test(token) && !token.endsWith('ss') ? token.slice(0, -1) : token
+}
+
+/**
+ * Splits a product name into comparable tokens, dropping the brand, colours,
+ * storage capacities and filler words, and picks out model codes and variant words.
+ */
+export const tokenizeModelName = (name: string, brand?: string): ModelTokens => {
+  const brandTokens = new Set((brand ?? '').toLowerCase().split(/\s+/).map(normalizeBrand).filter(Boolean))
+
+  const words = name
+    .toLowerCase()
+    .replace(CAPACITY, ' ')
+    .replace(/'/g, '')
+    .replace(/(\d)\s+(hz|mp|mah|inch)\b/g, '$1$2')
+    .split(/[^a-z0-9.]+/)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+    .map(stem)
+    .filter(word => !STOP_WORDS.has(word) && !COLOURS.has(word) && !brandTokens.has(word))
+
+  const tokens = new Set(words)
+  const codes = new Set(words.filter(word => /\d/.test(word) && !UNIT_TOKEN.test(word)))
+  const variants = new Set(words.filter(word => VARIANT_WORDS.has(word)))
+
+  return { tokens, codes, variants }
+}
+
+/**
+ * Collects storage capacities mentioned in a listing, in GB ("1 TB" becomes 1024).
+ */
+export const extractCapacities = (...texts: string[]): Set<number> => {
+  const capacities = new Set<number>()
+
+  texts.forEach(text => {
+    for (const match of text.matchAll(CAPACITY)) {
+      const amount = parseFloat(match[1])
+      capacities.add(match[2].toLowerCase() === 'tb' ? amount * 1024 : amount)
+    }
+  })
+
+  return capacities
+}
@@ -0,0 +1,198 @@
+import { readFileSync } from 'fs'
+import { logger } from '../../utils/logger.js'
+import type { PincodeDataset, PincodeRecord, PincodeSuggestion } from '../../types/index.js'
+
+export interface PincodeDirectoryInfo {
+  version: string | null
+  source: string | null
+  generatedAt: string | null
+  pincodes: number
+}
+
+interface PlaceName {
+  // Normalised for matching
+  key: string
+  name: string
+  pincode: string
+}
+
+// Renamed cities the directory still lists under their old names
+const PLACE_ALIASES: Record<string, string> = {
+  bengaluru: 'bangalore',
+  gurugram: 'gurgaon',
+  mysuru: 'mysore',
+  prayagraj: 'allahabad',
+  belagavi: 'belgaum',
+}
+
+const normalizePlace = (text: string): string => {
+  return text.normalize('NFKC').toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim()
+}
+
+// "Andheri HO" is listed as "Andheri"
+const withoutOfficeType = (name: string): string => name.replace(/\s+[HSB]\.?O\.?$/i, '')
+
+// 0 = the whole name, 1 = its start, 2 = the start of a later word, 3 = anywhere
+const matchRank = (key: string, query: string): number | null => {
+  if (key === query) {
+    return 0
+  }
+  if (key.startsWith(query)) {
+    return 1
+  }
+  if (key.includes(` ${query}`)) {
+    return 2
+  }
+  return key.includes(query) ? 3 : null
+}
+
+const toSuggestion = (dataset: PincodeDataset, pincode: string, match: string): PincodeSuggestion => {
+  const { district, state } = dataset.pincodes[pincode]
+  return { pincode, district, state, match }
+}
+
+// Relative to the backend directory, like the logs directory
+const DEFAULT_DATA_PATH = 'data/pincodes.json'
+
+export const getPincodeDataPath = (): string => process.env.PINCODE_DATA_PATH || DEFAULT_DATA_PATH
+
+// Checks the shape of a directory file before it replaces the loaded one
+export const parsePincodeDataset = (raw: unknown): PincodeDataset => {
+  const dataset = raw as Partial<PincodeDataset> | null
+  if (!dataset || typeof dataset.version !== 'string' || !dataset.version) {
+    throw new Error('Invalid pincode dataset: missing version')
+  }
+  if (!dataset.pincodes || typeof dataset.pincodes !== 'object') {
+    throw new Error('Invalid pincode dataset: missing pincodes')
+  }
+
+  for (const [pincode, entry] of Object.entries(dataset.pincodes)) {
+    if (!/^[1-9]\d{5}$/.test(pincode) || typeof entry?.district !== 'string' || typeof entry.state !== 'string' ||
+      !Array.isArray(entry.offices)) {
+      throw new Error(`Invalid pincode dataset: bad entry for ${pincode}`)
+    }
+  }
+
+  return {
+    version: dataset.version,
+    source: dataset.source ?? 'unknown',
+    generatedAt: dataset.generatedAt ?? '',
+    pincodes: dataset.pincodes,
+  }
+}
+
+export const readPincodeDataset = (path: string = getPincodeDataPath()): PincodeDataset => {
+  return parsePincodeDataset(JSON.parse(readFileSync(path, 'utf-8')))
+}
+
+// The India Post pincode directory, served from a bundled file so
+// validation works without the postal API. The file is read on first use;
+// reload() swaps in a refreshed file without a restart.
+export class PincodeDirectory {
+  private dataset: PincodeDataset | null = null
+  private loaded = false
+  // Post office and district names, built on the first search
+  private places: PlaceName[] | null = null
+
+  constructor(private readonly load: () => PincodeDataset = () => readPincodeDataset()) {}
+
+  lookup(pincode: string): PincodeRecord | null {
+    const entry = this.getDataset()?.pincodes[pincode]
+    return entry ? { pincode, ...entry } : null
+  }
+
+  // Pincodes for a locality, post office or district name, best matches
+  // first and one entry per pincode; digits match the start of the pincode
+  search(query: string, limit = 10): PincodeSuggestion[] {
+    const text = normalizePlace(query)
+    const dataset = this.getDataset()
+    if (text.length < 2 || !dataset) {
+      return []
+    }
+
+    if (/^\d+$/.test(text)) {
+      return Object.keys(dataset.pincodes)
+        .filter(pincode => pincode.startsWith(text))
+        .sort()
+        .slice(0, limit)
+        .map(pincode => toSuggestion(dataset, pincode, dataset.pincodes[pincode].district))
+    }
+
+    const alias = Object.keys(PLACE_ALIASES).find(name => text === name || text.startsWith(`${name} `))
+    const place = alias ? text.replace(alias, PLACE_ALIASES[alias]) : text
+
+    const best = new Map<string, { rank: number; name: string }>()
+    for (const entry of this.getPlaces()) {
+      const rank = matchRank(entry.key, place)
+      const current = best.get(entry.pincode)
+      if (rank !== null && (!current || rank < current.rank)) {
+        best.set(entry.pincode, { rank, name: entry.name })
+      }
+    }
+
+    return [...best.entries()]
+      .sort(([a, left], [b, right]) => left.rank - right.rank || left.name.localeCompare(right.name) || a.localeCompare(b))
+      .slice(0, limit)
+      .map(([pincode, { name }]) => toSuggestion(dataset, pincode, name))
+  }
+
+  get version(): string | null {
+    return this.getDataset()?.version ?? null
+  }
+
+  getInfo(): PincodeDirectoryInfo {
+    const dataset = this.getDataset()
+    return {
+      version: dataset?.version ?? null,
+      source: dataset?.source ?? null,
+      generatedAt: dataset?.generatedAt ?? null,
+      pincodes: dataset ? Object.keys(dataset.pincodes).length : 0,
+    }
+  }
+
+  // Reads the file again. Throws, and keeps serving the current data, when
+  // the new file is missing or invalid.
+  reload(): PincodeDirectoryInfo {
+    const dataset = this.load()
+    const previous = this.dataset?.version
+    this.dataset = dataset
+    this.loaded = true
+    this.places = null
+    logger.info(`Reloaded pincode directory ${dataset.version} (was ${previous ?? 'not loaded'})`)
+    return this.getInfo()
+  }
+
+  private getPlaces(): PlaceName[] {
+    if (!this.places) {
+      const entries = Object.entries(this.getDataset()?.pincodes ?? {})
+      this.places = entries.flatMap(([pincode, entry]) =>
+        [...entry.offices.map(office => withoutOfficeType(office.name)), entry.district]
+          .map(name => ({ key: normalizePlace(name), name, pincode })))
+    }
+    return this.places
+  }
+
+  // Without a readable file every lookup misses, and the service falls back to
+  // the postal API when that is enabled
+  private getDataset(): PincodeDataset | null {
+    if (!this.loaded) {
+      this.loaded = true
+      try {
+        this.dataset = this.load()
+        logger.info(`Loaded pincode directory ${this.dataset.version}`)
+      } catch (error) {
+        logger.error('Pincode directory could not be loaded:', error)
+      }
+    }
+    return this.dataset
+  }
+}
+
+let sharedDirectory: PincodeDirectory | null = null
+
+export const getPincodeDirectory = (): PincodeDirectory => {
+  if (!sharedDirectory) {
+    sharedDirectory = new PincodeDirectory()
+  }
+  return sharedDirectory
+}
@@ -0,0 +1,145 @@
+import { parsePincodeDataset, PincodeDirectory, readPincodeDataset } from '../PincodeDirectory.js'
+import type { PincodeDataset } from '../../../types/index.js'
+
+const dataset = (version: string, district = 'New Delhi'): PincodeDataset => ({
+  version,
+  source: 'test',
+  generatedAt: '2026-10-01T00:00:00.000Z',
+  pincodes: {
+    110001: {
+      district,
+      state: 'Delhi',
+      offices: [{ name: 'New Delhi G.P.O.', type: 'HO', delivery: true, location: { lat: 28.6358, lng: 77.2245 } }],
+      deliverable: true,
+      location: { lat: 28.6358, lng: 77.2245 },
+    },
+  },
+})
+
+describe('PincodeDirectory', () => {
+  it('looks pincodes up in the loaded dataset', () => {
+    const directory = new PincodeDirectory(() => dataset('v1'))
+
+    expect(directory.lookup('110001')).toMatchObject({ pincode: '110001', district: 'New Delhi', deliverable: true })
+    expect(directory.lookup('000000')).toBeNull()
+    expect(directory.getInfo()).toEqual({
+      version: 'v1',
+      source: 'test',
+      generatedAt: '2026-10-01T00:00:00.000Z',
+      pincodes: 1,
+    })
+  })
+
+  it('reads the file once, on first use', () => {
+    const load = jest.fn(() => dataset('v1'))
+    const directory = new PincodeDirectory(load)
+
+    expect(load).not.toHaveBeenCalled()
+    directory.lookup('110001')
+    directory.lookup('400001')
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('misses every lookup when the file cannot be read', () => {
+    const directory = new PincodeDirectory(() => {
+      throw new Error('ENOENT')
+    })
+
+    expect(directory.lookup('110001')).toBeNull()
+    expect(directory.version).toBeNull()
+  })
+
+  it('swaps in a refreshed file on reload, and keeps the old one if it is invalid', () => {
+    const load = jest.fn()
+      .mockReturnValueOnce(dataset('v1'))
+      .mockReturnValueOnce(dataset('v2', 'Central Delhi'))
+      .mockImplementationOnce(() => parsePincodeDataset({ pincodes: {} }))
+    const directory = new PincodeDirectory(load)
+    directory.lookup('110001')
+
+    expect(directory.reload()).toMatchObject({ version: 'v2', pincodes: 1 })
+    expect(directory.lookup('110001')?.district).toBe('Central Delhi')
+
+    expect(() => directory.reload()).toThrow('Invalid pincode dataset: missing version')
+    expect(directory.version).toBe('v2')
+  })
+})
+
+describe('PincodeDirectory.search', () => {
+  const office = (name: string) => ({ name, type: 'SO' as const, delivery: true, location: null })
+  const place = (district: string, state: string, offices: string[]) => ({
+    district,
+    state,
+    offices: offices.map(office),
+    deliverable: true,
+    location: null,
+  })
+  const directory = new PincodeDirectory(() => ({
+    ...dataset('v1'),
+    pincodes: {
+      400072: place('Mumbai', 'Maharashtra', ['Saki Andheri Road SO']),
+      400069: place('Mumbai', 'Maharashtra', ['Andheri East SO']),
+      400053: place('Mumbai', 'Maharashtra', ['Andheri HO']),
+      560001: place('Bangalore', 'Karnataka', ['Bangalore G.P.O.']),
+    },
+  }))
+
+  it('finds pincodes by locality, whole names first, then starts of names and words', () => {
+    expect(directory.search('Andheri')).toEqual([
+      { pincode: '400053', district: 'Mumbai', state: 'Maharashtra', match: 'Andheri' },
+      { pincode: '400069', district: 'Mumbai', state: 'Maharashtra', match: 'Andheri East' },
+      { pincode: '400072', district: 'Mumbai', state: 'Maharashtra', match: 'Saki Andheri Road' },
+    ])
+    expect(directory.search('andheri', 1).map(entry => entry.pincode)).toEqual(['400053'])
+  })
+
+  it('finds every pincode of a district, once each', () => {
+    expect(directory.search('mumbai').map(entry => entry.pincode)).toEqual(['400053', '400069', '400072'])
+  })
+
+  it('knows renamed cities by their new names', () => {
+    expect(directory.search('Bengaluru')).toEqual([
+      { pincode: '560001', district: 'Bangalore', state: 'Karnataka', match: 'Bangalore' },
+    ])
+  })
+
+  it('completes partly typed pincodes', () => {
+    expect(directory.search('4000').map(entry => entry.pincode)).toEqual(['400053', '400069', '400072'])
+  })
+
+  it('needs at least two characters', () => {
+    expect(directory.search('a')).toEqual([])
+    expect(directory.search('xyz')).toEqual([])
+  })
+
+  it('searches the refreshed names after a reload', () => {
+    const load = jest.fn(() => dataset('v1'))
+    const reloaded = new PincodeDirectory(load)
+    expect(reloaded.search('connaught')).toEqual([])
+
+    load.mockReturnValue({
+      ...dataset('v2'),
+      pincodes: { 110001: place('New Delhi', 'Delhi', ['Connaught Place SO']) },
+    })
+    reloaded.reload()
+
+    expect(reloaded.search('connaught').map(entry => entry.match)).toEqual(['Connaught Place'])
+  })
+})
+
+describe('parsePincodeDataset', () => {
+  it('rejects entries that are not pincode directory entries', () => {
+    expect(() => parsePincodeDataset({ version: 'v1' })).toThrow('missing pincodes')
+    expect(() => parsePincodeDataset({ version: 'v1', pincodes: { '012345': dataset('v1').pincodes['110001'] } }))
+      .toThrow('bad entry for 012345')
+    expect(() => parsePincodeDataset({ version: 'v1', pincodes: { 110001: { district: 'New Delhi' } } }))
+      .toThrow('bad entry for 110001')
+  })
+
+  it('accepts the bundled directory', () => {
+    const bundled = readPincodeDataset('data/pincodes.json')
+
+    expect(Object.keys(bundled.pincodes).length).toBeGreaterThan(0)
+    expect(bundled.pincodes['560001']).toMatchObject({ district: 'Bangalore', state: 'Karnataka', deliverable: true })
+  })
+})
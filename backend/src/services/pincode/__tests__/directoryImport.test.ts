@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { buildPincodeDataset, parseCsv, toTitleCase } from '../directoryImport.js'
+
+const csv = readFileSync(join(__dirname, 'fixtures', 'post-offices.csv'), 'utf-8')
+const options = { version: '2026-10-01', source: 'test', generatedAt: '2026-10-01T00:00:00.000Z' }
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, CRLF and blank lines', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['1', ''],
+    ])
+  })
+})
+
+describe('toTitleCase', () => {
+  it('capitalises words but not joining words', () => {
+    expect(toTitleCase('  JAMMU AND  KASHMIR ')).toBe('Jammu and Kashmir')
+    expect(toTitleCase('NORTH 24 PARGANAS')).toBe('North 24 Parganas')
+    expect(toTitleCase('KANPUR-NAGAR')).toBe('Kanpur-Nagar')
+  })
+})
+
+describe('buildPincodeDataset', () => {
+  it('groups post offices by pincode', () => {
+    const { dataset, offices, skipped } = buildPincodeDataset(csv, options)
+
+    expect(Object.keys(dataset.pincodes)).toEqual(['110001', '180001', '400038'])
+    expect(offices).toBe(5)
+    expect(skipped).toBe(2)
+    expect(dataset).toMatchObject({ version: '2026-10-01', source: 'test', generatedAt: '2026-10-01T00:00:00.000Z' })
+    expect(dataset.pincodes['110001']).toEqual({
+      district: 'New Delhi',
+      state: 'Delhi',
+      offices: [
+        { name: 'New Delhi G.P.O.', type: 'HO', delivery: true, location: { lat: 28.6358, lng: 77.2245 } },
+        { name: 'Parliament House SO', type: 'SO', delivery: false, location: { lat: 28.6172, lng: 77.2082 } },
+        { name: 'Sansad Marg, North Block SO', type: 'SO', delivery: true, location: null },
+      ],
+      deliverable: true,
+      location: { lat: 28.6265, lng: 77.2164 },
+    })
+  })
+
+  it('marks a pincode with only non-delivery offices, and no coordinates, as such', () => {
+    const { dataset } = buildPincodeDataset(csv, options)
+
+    expect(dataset.pincodes['400038']).toMatchObject({ deliverable: false, location: null })
+    expect(dataset.pincodes['180001'].state).toBe('Jammu and Kashmir')
+  })
+
+  it('reads the older column names', () => {
+    const older = 'officename,pincode,officeType,Deliverystatus,divisionname,regionname,circlename,Taluk,Districtname,statename\n' +
+      'Leh HO,194101,H.O,Non-Delivery,Leh,Jammu,J&K,Leh,LEH,LADAKH\n'
+
+    expect(buildPincodeDataset(older, options).dataset.pincodes['194101']).toEqual({
+      district: 'Leh',
+      state: 'Ladakh',
+      offices: [{ name: 'Leh HO', type: 'HO', delivery: false, location: null }],
+      deliverable: false,
+      location: null,
+    })
+  })
+
+  it('refuses a file without the required columns', () => {
+    expect(() => buildPincodeDataset('name,pin\nX,110001\n', options)).toThrow(
+      'The pincode CSV has no office, pincode, district, state column'
+    )
+    expect(() => buildPincodeDataset('', options)).toThrow('The pincode CSV is empty')
+  })
+})
@@ -0,0 +1,212 @@
+import type { GeoPoint, PincodeDataset, PincodeRecord, PostOffice, PostOfficeType } from '../../types/index.js'
+
+export interface DatasetOptions {
+  version: string
+  source: string
+  generatedAt?: string
+}
+
+export interface ImportResult {
+  dataset: PincodeDataset
+  offices: number
+  // Rows without a valid pincode, office name, district or state
+  skipped: number
+}
+
+// Column names differ between releases of the India Post directory on
+// data.gov.in ("statename" vs "StateName", "officeType" vs "officetype",
+// "Deliverystatus" vs "delivery"), so headers are matched case-insensitively
+// against these
+const COLUMNS = {
+  office: ['officename', 'office name'],
+  pincode: ['pincode', 'pin code'],
+  type: ['officetype', 'office type'],
+  delivery: ['delivery', 'deliverystatus', 'delivery status'],
+  district: ['district', 'districtname', 'district name'],
+  state: ['statename', 'state name', 'state'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'long', 'lng'],
+} as const
+
+type Column = keyof typeof COLUMNS
+
+const OFFICE_TYPES: Record<string, PostOfficeType> = {
+  ho: 'HO',
+  'head office': 'HO',
+  'head post office': 'HO',
+  so: 'SO',
+  'sub office': 'SO',
+  'sub post office': 'SO',
+  bo: 'BO',
+  'branch office': 'BO',
+  'branch post office': 'BO',
+}
+
+const SMALL_WORDS = new Set(['and', 'of', 'the'])
+
+// Splits CSV text into rows; quoted fields may hold commas, newlines and
+// doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const character = text[index]
+    if (quoted) {
+      if (character === '"' && text[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (character === '"') {
+        quoted = false
+      } else {
+        field += character
+      }
+    } else if (character === '"') {
+      quoted = true
+    } else if (character === ',') {
+      row.push(field)
+      field = ''
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[index + 1] === '\n') {
+        index++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += character
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+// "NEW DELHI" -> "New Delhi", "JAMMU AND KASHMIR" -> "Jammu and Kashmir"
+export const toTitleCase = (value: string): string => {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .split(' ')
+    .map((word, index) => index > 0 && SMALL_WORDS.has(word)
+      ? word
+      : word.replace(/(^|[-(&/])(\p{L})/gu, (match, separator: string, letter: string) => separator + letter.toUpperCase()))
+    .join(' ')
+}
+
+const parseCoordinate = (value: string | undefined, limit: number): number | null => {
+  const parsed = Number(value?.trim())
+  return value?.trim() && Number.isFinite(parsed) && parsed !== 0 && Math.abs(parsed) <= limit ? parsed : null
+}
+
+const averageLocation = (offices: PostOffice[]): GeoPoint | null => {
+  const points = offices.map(office => office.location).filter((point): point is GeoPoint => point !== null)
+  if (points.length === 0) {
+    return null
+  }
+  const round = (value: number) => Math.round(value * 10000) / 10000
+  return {
+    lat: round(points.reduce((sum, point) => sum + point.lat, 0) / points.length),
+    lng: round(points.reduce((sum, point) => sum + point.lng, 0) / points.length),
+  }
+}
+
+const findColumns = (header: string[]): Partial<Record<Column, number>> => {
+  const normalized = header.map(name => name.trim().toLowerCase().replace(/_/g, ' '))
+  const columns: Partial<Record<Column, number>> = {}
+  for (const [column, names] of Object.entries(COLUMNS) as Array<[Column, readonly string[]]>) {
+    const index = normalized.findIndex(name => names.includes(name))
+    if (index >= 0) {
+      columns[column] = index
+    }
+  }
+  return columns
+}
+
+// Builds the directory from the India Post "All India Pincode Directory"
+// CSV: one row per post office, grouped here by pincode. District and state
+// are taken from the first office; a pincode is deliverable when any of its
+// offices delivers.
+export const buildPincodeDataset = (csv: string, options: DatasetOptions): ImportResult => {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''))
+  if (!header) {
+    throw new Error('The pincode CSV is empty')
+  }
+
+  const columns = findColumns(header)
+  const missing = (['office', 'pincode', 'district', 'state'] as const).filter(column => columns[column] === undefined)
+  if (missing.length > 0) {
+    throw new Error(`The pincode CSV has no ${missing.join(', ')} column`)
+  }
+
+  const cell = (row: string[], column: Column): string | undefined => {
+    const index = columns[column]
+    return index === undefined ? undefined : row[index]?.trim()
+  }
+
+  const grouped = new Map<string, Omit<PincodeRecord, 'pincode' | 'deliverable' | 'location'>>()
+  let offices = 0
+  let skipped = 0
+
+  for (const row of rows) {
+    const pincode = cell(row, 'pincode')
+    const name = cell(row, 'office')
+    const district = cell(row, 'district')
+    const state = cell(row, 'state')
+    if (!pincode || !/^[1-9]\d{5}$/.test(pincode) || !name || !district || !state) {
+      skipped++
+      continue
+    }
+
+    const office: PostOffice = {
+      name,
+      // "HO", "H.O", "Head Office"; unknown types count as branch offices
+      type: OFFICE_TYPES[cell(row, 'type')?.toLowerCase().replace(/\./g, '') ?? ''] ?? 'BO',
+      // "Delivery", "Non-Delivery", "Non Delivery"
+      delivery: !/^non/i.test(cell(row, 'delivery') ?? 'Delivery'),
+      location: null,
+    }
+    const lat = parseCoordinate(cell(row, 'latitude'), 90)
+    const lng = parseCoordinate(cell(row, 'longitude'), 180)
+    if (lat !== null && lng !== null) {
+      office.location = { lat, lng }
+    }
+
+    const entry = grouped.get(pincode)
+    if (entry) {
+      entry.offices.push(office)
+    } else {
+      grouped.set(pincode, { district: toTitleCase(district), state: toTitleCase(state), offices: [office] })
+    }
+    offices++
+  }
+
+  const pincodes: PincodeDataset['pincodes'] = {}
+  for (const pincode of [...grouped.keys()].sort()) {
+    const entry = grouped.get(pincode)!
+    entry.offices.sort((a, b) => a.name.localeCompare(b.name))
+    pincodes[pincode] = {
+      ...entry,
+      deliverable: entry.offices.some(office => office.delivery),
+      location: averageLocation(entry.offices),
+    }
+  }
+
+  return {
+    dataset: {
+      version: options.version,
+      source: options.source,
+      generatedAt: options.generatedAt ?? new Date().toISOString(),
+      pincodes,
+    },
+    offices,
+    skipped,
+  }
+}
@@ -0,0 +1,106 @@
+import { DeliveryEstimator } from '../delivery/DeliveryEstimator.js'
+import { formatRupees } from '../ranking/format.js'
+import { DISCOUNT_RULES, RETAILER_PRICING } from './pricingRules.js'
+import type { DiscountRule, RetailerPricingPolicy } from './pricingRules.js'
+import type { LandedPrice, PaymentMethod, PriceLineItem, Product, RetailerName } from '../../types/index.js'
+
+export interface PricingContext {
+  pincode: string
+  paymentMethod?: PaymentMethod
+  bank?: string
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// Works out what the buyer actually pays for a product at their pincode:
+// item price, delivery for that pincode (waived above the retailer's free
+// delivery threshold), the cash-on-delivery fee and any matching offers.
+export class LandedPriceCalculator {
+  constructor(
+    private readonly delivery: DeliveryEstimator = new DeliveryEstimator(),
+    private readonly policies: Record<RetailerName, RetailerPricingPolicy> = RETAILER_PRICING,
+    private readonly rules: DiscountRule[] = DISCOUNT_RULES
+  ) {}
+
+  calculate(product: Product, context: PricingContext): LandedPrice {
+    const policy = this.policies[product.retailer]
+    const itemPrice = product.price
+    const notes: string[] = []
+
+    let paymentMethod = context.paymentMethod ?? 'prepaid'
+    if (paymentMethod === 'cod' && itemPrice > policy.codLimit) {
+      notes.push(`Cash on delivery is not available above ${formatRupees(policy.codLimit)}; priced as prepaid`)
+      paymentMethod = 'prepaid'
+    }
+
+    const lineItems: PriceLineItem[] = [{ type: 'item', label: 'Item price', amount: itemPrice }]
+
+    const freeDelivery = policy.freeDeliveryThreshold !== null && itemPrice >= policy.freeDeliveryThreshold
+    const deliveryCost = freeDelivery ? 0 : this.delivery.estimateStandard(product.retailer, context.pincode).cost
+    lineItems.push({
+      type: 'delivery',
+      label: deliveryCost === 0 ? `Delivery to ${context.pincode} (free)` : `Delivery to ${context.pincode}`,
+      amount: deliveryCost,
+    })
+
+    const codFee = paymentMethod === 'cod' ? policy.codFee : 0
+    if (codFee > 0) {
+      lineItems.push({ type: 'cod_fee', label: 'Cash on delivery fee', amount: codFee })
+    }
+
+    const discounts = this.selectDiscounts(product.retailer, itemPrice, paymentMethod, context.bank)
+    discounts.forEach(({ rule, amount }) => {
+      lineItems.push({ type: 'discount', label: rule.label, amount: -amount })
+    })
+    const discount = round(discounts.reduce((total, entry) => total + entry.amount, 0))
+
+    return {
+      itemPrice,
+      deliveryCost,
+      codFee,
+      discount,
+      total: round(Math.max(0, itemPrice + deliveryCost + codFee - discount)),
+      paymentMethod,
+      lineItems,
+      notes,
+    }
+  }
+
+  // Fills landedPrice on every product
+  apply(products: Product[], context: PricingContext): Product[] {
+    return products.map(product => ({ ...product, landedPrice: this.calculate(product, context) }))
+  }
+
+  // Cheapest landed price first; products without one keep their order at the end
+  sortByEffectivePrice(products: Product[]): Product[] {
+    return [...products].sort((a, b) => {
+      const left = a.landedPrice?.total ?? Infinity
+      const right = b.landedPrice?.total ?? Infinity
+      return left === right ? b.matchScore - a.matchScore : left - right
+    })
+  }
+
+  private selectDiscounts(retailer: RetailerName, itemPrice: number, paymentMethod: PaymentMethod, bank?: string) {
+    const issuer = bank?.trim().toLowerCase()
+    const applicable = this.rules
+      .filter(rule => rule.retailers.includes(retailer))
+      .filter(rule => !rule.minOrderValue || itemPrice >= rule.minOrderValue)
+      .filter(rule => !rule.paymentMethods || rule.paymentMethods.includes(paymentMethod))
+      .filter(rule => !rule.banks || (issuer !== undefined && rule.banks.includes(issuer)))
+      .map(rule => ({ rule, amount: this.discountAmount(rule, itemPrice) }))
+      .filter(entry => entry.amount > 0)
+
+    // Bank offers do not combine; the buyer gets the best one
+    const best = applicable
+      .filter(entry => !entry.rule.stackable)
+      .sort((a, b) => b.amount - a.amount)[0]
+
+    return [...(best ? [best] : []), ...applicable.filter(entry => entry.rule.stackable)]
+  }
+
+  private discountAmount(rule: DiscountRule, itemPrice: number): number {
+    const raw = rule.kind === 'percent' ? (itemPrice * rule.value) / 100 : rule.value
+    const capped = rule.maxDiscount !== undefined ? Math.min(raw, rule.maxDiscount) : raw
+    return round(Math.min(capped, itemPrice))
+  }
+}
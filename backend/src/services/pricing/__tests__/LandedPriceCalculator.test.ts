@@ -0,0 +1,110 @@
+import { LandedPriceCalculator } from '../LandedPriceCalculator.js'
+import type { Product, RetailerName } from '../../../types/index.js'
+
+const product = (id: string, retailer: RetailerName, overrides: Partial<Product> = {}): Product => ({
+  id,
+  retailer,
+  name: `Product ${id}`,
+  brand: 'Brand',
+  price: 1000,
+  currency: '₹',
+  image: '',
+  description: '',
+  specifications: {},
+  availability: true,
+  deliveryInfo: { available: true, eta: '3-5 days', cost: 0 },
+  rating: 4,
+  reviewCount: 100,
+  matchScore: 80,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+  ...overrides,
+})
+
+// 110001 is a major city; 302001 is not
+const METRO = '110001'
+const TOWN = '302001'
+
+describe('LandedPriceCalculator', () => {
+  const calculator = new LandedPriceCalculator()
+
+  it('adds pincode delivery charges below the free delivery threshold', () => {
+    const landed = calculator.calculate(product('meesho-1', 'meesho', { price: 399 }), { pincode: TOWN })
+
+    expect(landed.total).toBe(439.05)
+    expect(landed.lineItems).toEqual([
+      { type: 'item', label: 'Item price', amount: 399 },
+      { type: 'delivery', label: `Delivery to ${TOWN}`, amount: 60 },
+      { type: 'discount', label: '5% prepaid discount', amount: -19.95 },
+    ])
+  })
+
+  it('waives delivery at or above the free delivery threshold', () => {
+    const cheap = calculator.calculate(product('myntra-1', 'myntra', { price: 798 }), { pincode: TOWN })
+    const free = calculator.calculate(product('myntra-2', 'myntra', { price: 799 }), { pincode: TOWN })
+
+    expect(cheap.deliveryCost).toBe(50)
+    expect(free.deliveryCost).toBe(0)
+    expect(free.lineItems[1].label).toBe(`Delivery to ${TOWN} (free)`)
+  })
+
+  it('charges the cash on delivery fee and drops prepaid-only offers', () => {
+    const landed = calculator.calculate(
+      product('flipkart-1', 'flipkart', { price: 6000 }),
+      { pincode: METRO, paymentMethod: 'cod', bank: 'hdfc' }
+    )
+
+    expect(landed).toMatchObject({ paymentMethod: 'cod', codFee: 10, discount: 0, total: 6010 })
+  })
+
+  it('prices as prepaid when the order is over the cash on delivery limit', () => {
+    const landed = calculator.calculate(
+      product('myntra-1', 'myntra', { price: 12000 }),
+      { pincode: METRO, paymentMethod: 'cod' }
+    )
+
+    expect(landed.paymentMethod).toBe('prepaid')
+    expect(landed.codFee).toBe(0)
+    expect(landed.notes).toEqual(['Cash on delivery is not available above ₹10,000; priced as prepaid'])
+  })
+
+  it('applies only the best bank offer for the buyer\'s bank, capped and above the minimum order', () => {
+    const price = (value: number, bank?: string) =>
+      calculator.calculate(product('flipkart-1', 'flipkart', { price: value }), { pincode: METRO, bank }).discount
+
+    expect(price(20000, 'HDFC')).toBe(1500)
+    expect(price(8000, 'sbi')).toBe(800)
+    expect(price(2000, 'sbi')).toBe(0)
+    expect(price(20000)).toBe(0)
+  })
+
+  it('lets stackable offers combine with a bank offer', () => {
+    const calculator = new LandedPriceCalculator(undefined, undefined, [
+      { id: 'bank', label: 'Bank offer', retailers: ['amazon'], kind: 'flat', value: 200, banks: ['axis'], stackable: false },
+      { id: 'coupon', label: 'Coupon', retailers: ['amazon'], kind: 'percent', value: 5, stackable: true },
+    ])
+
+    const landed = calculator.calculate(product('amazon-1', 'amazon', { price: 1000 }), { pincode: METRO, bank: 'axis' })
+
+    expect(landed.lineItems.filter(item => item.type === 'discount').map(item => item.amount)).toEqual([-200, -50])
+    expect(landed.total).toBe(750)
+  })
+
+  it('sorts by landed price, which can differ from the sticker price', () => {
+    const priced = calculator.apply([
+      product('meesho-1', 'meesho', { price: 480 }),
+      product('amazon-1', 'amazon', { price: 499 }),
+      product('flipkart-1', 'flipkart', { price: 450 }),
+    ], { pincode: TOWN })
+
+    const sorted = calculator.sortByEffectivePrice(priced)
+
+    expect(sorted.map(item => [item.id, item.landedPrice?.total])).toEqual([
+      ['flipkart-1', 490],
+      ['amazon-1', 499],
+      ['meesho-1', 516],
+    ])
+  })
+})
@@ -0,0 +1,79 @@
+import type { PaymentMethod, RetailerName } from '../../types/index.js'
+
+export interface RetailerPricingPolicy {
+  // Orders at or above this item price ship free; null when delivery is never waived
+  freeDeliveryThreshold: number | null
+  codFee: number
+  // Highest order value accepted for cash on delivery
+  codLimit: number
+}
+
+export interface DiscountRule {
+  id: string
+  label: string
+  retailers: RetailerName[]
+  kind: 'percent' | 'flat'
+  value: number
+  maxDiscount?: number
+  minOrderValue?: number
+  paymentMethods?: PaymentMethod[]
+  // Lowercase issuer names; the rule only applies when the buyer's bank matches
+  banks?: string[]
+  // Non-stackable rules compete and only the largest applies; stackable rules always add
+  stackable: boolean
+}
+
+export const RETAILER_PRICING: Record<RetailerName, RetailerPricingPolicy> = {
+  amazon: { freeDeliveryThreshold: 499, codFee: 0, codLimit: 50000 },
+  flipkart: { freeDeliveryThreshold: 500, codFee: 10, codLimit: 50000 },
+  myntra: { freeDeliveryThreshold: 799, codFee: 10, codLimit: 10000 },
+  meesho: { freeDeliveryThreshold: null, codFee: 0, codLimit: 10000 },
+}
+
+export const DISCOUNT_RULES: DiscountRule[] = [
+  {
+    id: 'hdfc-instant-10',
+    label: '10% instant discount on HDFC cards',
+    retailers: ['amazon', 'flipkart'],
+    kind: 'percent',
+    value: 10,
+    maxDiscount: 1500,
+    minOrderValue: 5000,
+    paymentMethods: ['prepaid'],
+    banks: ['hdfc'],
+    stackable: false,
+  },
+  {
+    id: 'sbi-instant-10',
+    label: '10% instant discount on SBI cards',
+    retailers: ['flipkart', 'myntra'],
+    kind: 'percent',
+    value: 10,
+    maxDiscount: 1000,
+    minOrderValue: 3000,
+    paymentMethods: ['prepaid'],
+    banks: ['sbi'],
+    stackable: false,
+  },
+  {
+    id: 'icici-flat-250',
+    label: '₹250 off on ICICI cards',
+    retailers: ['myntra'],
+    kind: 'flat',
+    value: 250,
+    minOrderValue: 2500,
+    paymentMethods: ['prepaid'],
+    banks: ['icici'],
+    stackable: false,
+  },
+  {
+    id: 'meesho-prepaid-5',
+    label: '5% prepaid discount',
+    retailers: ['meesho'],
+    kind: 'percent',
+    value: 5,
+    maxDiscount: 100,
+    paymentMethods: ['prepaid'],
+    stackable: true,
+  },
+]
@@ -0,0 +1,227 @@
+import { formatRupees } from './format.js'
+import { RETAILER_NAMES } from '../retailers/retailerConfigs.js'
+import type { Product, RetailerInsights, RetailerName, RetailerSearchResults } from '../../types/index.js'
+
+type Highlight = Product['highlights'][number]
+
+export interface EtaRange {
+  // Days from now, inclusive
+  min: number
+  max: number
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+
+/**
+ * Parses a delivery estimate such as "2-3 days", "1 week", "Tomorrow" or
+ * "Delivery by 21 Oct" into a range of days from now. Returns null when the
+ * text holds no usable estimate.
+ */
+export const parseEtaDays = (eta: string | undefined | null, now = new Date()): EtaRange | null => {
+  const text = (eta ?? '').toLowerCase().trim()
+  if (!text) {
+    return null
+  }
+
+  if (/\b(today|same day)\b/.test(text)) {
+    return { min: 0, max: 0 }
+  }
+  if (/\btomorrow\b/.test(text)) {
+    return { min: 1, max: 1 }
+  }
+
+  const range = text.match(/(\d+)\s*(?:-|to|–)\s*(\d+)\s*(?:business\s+|working\s+)?(day|week)/)
+  if (range) {
+    const unit = range[3] === 'week' ? 7 : 1
+    return { min: Number(range[1]) * unit, max: Number(range[2]) * unit }
+  }
+
+  const single = text.match(/(\d+)\s*(?:business\s+|working\s+)?(day|week)/)
+  if (single) {
+    const days = Number(single[1]) * (single[2] === 'week' ? 7 : 1)
+    return { min: days, max: days }
+  }
+
+  if (/\b(a|one)\s+week\b/.test(text)) {
+    return { min: 7, max: 7 }
+  }
+
+  // "by 21 Oct" / "by Oct 21"
+  const date = text.match(/(\d{1,2})\s+([a-z]{3})/) ?? text.match(/([a-z]{3})[a-z]*\s+(\d{1,2})\b/)
+  if (date) {
+    const [day, month] = /\d/.test(date[1]) ? [Number(date[1]), date[2]] : [Number(date[2]), date[1]]
+    const monthIndex = MONTHS.indexOf(month.slice(0, 3))
+    if (monthIndex !== -1) {
+      const today = startOfDay(now)
+      let target = new Date(now.getFullYear(), monthIndex, day).getTime()
+      if (target < today) {
+        // "by 2 Jan" seen in late December
+        target = new Date(now.getFullYear() + 1, monthIndex, day).getTime()
+      }
+      const days = Math.round((target - today) / DAY_MS)
+      return { min: days, max: days }
+    }
+  }
+
+  return null
+}
+
+const formatDays = ({ min, max }: EtaRange): string => {
+  if (max === 0) {
+    return 'today'
+  }
+  if (min === max) {
+    return max === 1 ? 'tomorrow' : `${max} days`
+  }
+  return `${min}-${max} days`
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+// Prefer the better match, then the better-reviewed listing, then the cheaper
+// one; the id keeps the order stable when everything else is equal.
+const byMatchThenRating = (a: Product, b: Product): number => {
+  return b.matchScore - a.matchScore ||
+    b.rating - a.rating ||
+    b.reviewCount - a.reviewCount ||
+    a.price - b.price ||
+    a.id.localeCompare(b.id)
+}
+
+// Assigns top_pick, best_value and fastest_delivery across the merged results
+// of every retailer, so there is at most one of each for the whole search.
+//
+// - top_pick: highest matchScore (needs a score above 0)
+// - best_value: lowest price per match point (needs price and score above 0)
+// - fastest_delivery: earliest parsed ETA (unparseable ETAs are skipped)
+// best_value and fastest_delivery need at least two comparable products.
+// Ties fall back to match score, rating, review count, price and then id.
+// Only available products from successful, deliverable results take part.
+export class HighlightCalculator {
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  apply(results: RetailerSearchResults): RetailerSearchResults {
+    const highlights = new Map<string, Highlight[]>()
+    const add = (product: Product, highlight: Highlight) => {
+      highlights.set(product.id, [...(highlights.get(product.id) ?? []), highlight])
+    }
+
+    const candidates = this.getCandidates(results)
+    const retailerCount = new Set(candidates.map(product => product.retailer)).size
+
+    const topPick = this.selectTopPick(candidates)
+    if (topPick) {
+      add(topPick, {
+        type: 'top_pick',
+        reason: `Best match across ${plural(retailerCount, 'retailer')}: ${topPick.matchScore}% match` +
+          (topPick.rating > 0 ? `, rated ${topPick.rating}★` : ''),
+      })
+    }
+
+    const bestValue = this.selectBestValue(candidates)
+    if (bestValue) {
+      add(bestValue.product, {
+        type: 'best_value',
+        reason: `${formatRupees(bestValue.product.price)} for a ${bestValue.product.matchScore}% match: ` +
+          `${formatRupees(bestValue.pricePerPoint)} per match point vs ${formatRupees(bestValue.averagePerPoint)} on average`,
+      })
+    }
+
+    const fastest = this.selectFastest(candidates)
+    if (fastest) {
+      const sooner = fastest.runnerUp ? fastest.runnerUp.min - fastest.eta.min : 0
+      add(fastest.product, {
+        type: 'fastest_delivery',
+        reason: `Arrives ${fastest.eta.max > 1 ? 'in ' : ''}${formatDays(fastest.eta)}` +
+          (sooner > 0 ? `, ${plural(sooner, 'day')} sooner than the next fastest` : '') +
+          (fastest.product.deliveryInfo.cost === 0 ? ' with free delivery' : ''),
+      })
+    }
+
+    const updated = { ...results }
+    RETAILER_NAMES.forEach(retailer => {
+      updated[retailer] = {
+        ...results[retailer],
+        products: results[retailer].products.map(product => ({
+          ...product,
+          highlights: highlights.get(product.id) ?? [],
+        })),
+      }
+    })
+    return updated
+  }
+
+  getInsights(results: RetailerSearchResults): RetailerInsights {
+    const candidates = this.getCandidates(results)
+
+    const cheapest = [...candidates]
+      .filter(product => product.price > 0)
+      .sort((a, b) => a.price - b.price || byMatchThenRating(a, b))[0]
+    const fastest = this.selectFastest(candidates, 1)
+
+    // Most results from one retailer; ties go to the better average match
+    const counts = RETAILER_NAMES
+      .map(retailer => {
+        const products = candidates.filter(product => product.retailer === retailer)
+        const averageScore = products.reduce((total, product) => total + product.matchScore, 0) / (products.length || 1)
+        return { retailer, count: products.length, averageScore }
+      })
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count || b.averageScore - a.averageScore)
+
+    return {
+      bestPrice: cheapest ? { retailer: cheapest.retailer, price: cheapest.price, product: cheapest } : null,
+      fastestDelivery: fastest
+        ? { retailer: fastest.product.retailer, eta: fastest.product.deliveryInfo.eta, product: fastest.product }
+        : null,
+      mostOptions: counts[0] ? { retailer: counts[0].retailer as RetailerName, count: counts[0].count } : null,
+    }
+  }
+
+  private getCandidates(results: RetailerSearchResults): Product[] {
+    return RETAILER_NAMES
+      .filter(retailer => results[retailer].status === 'success')
+      .flatMap(retailer => results[retailer].products)
+      .filter(product => product.availability && product.deliveryInfo?.available !== false)
+  }
+
+  private selectTopPick(products: Product[]): Product | null {
+    return [...products].filter(product => product.matchScore > 0).sort(byMatchThenRating)[0] ?? null
+  }
+
+  private selectBestValue(products: Product[]) {
+    const priced = products
+      .filter(product => product.price > 0 && product.matchScore > 0)
+      .map(product => ({ product, pricePerPoint: product.price / product.matchScore }))
+    if (priced.length < 2) {
+      return null
+    }
+
+    priced.sort((a, b) => a.pricePerPoint - b.pricePerPoint || byMatchThenRating(a.product, b.product))
+    const averagePerPoint = priced.reduce((total, entry) => total + entry.pricePerPoint, 0) / priced.length
+
+    return { ...priced[0], averagePerPoint }
+  }
+
+  private selectFastest(products: Product[], minimumProducts = 2) {
+    const now = this.now()
+    const timed = products
+      .map(product => ({ product, eta: parseEtaDays(product.deliveryInfo?.eta, now) }))
+      .filter((entry): entry is { product: Product; eta: EtaRange } => entry.eta !== null)
+    if (timed.length < minimumProducts) {
+      return null
+    }
+
+    // Earliest possible arrival, then the narrower window, then cheaper shipping
+    timed.sort((a, b) =>
+      a.eta.min - b.eta.min ||
+      a.eta.max - b.eta.max ||
+      a.product.deliveryInfo.cost - b.product.deliveryInfo.cost ||
+      byMatchThenRating(a.product, b.product))
+
+    return { ...timed[0], runnerUp: timed[1]?.eta ?? null }
+  }
+}
@@ -0,0 +1,312 @@
+import { normalizeBrand } from '../matching/normalize.js'
+import { formatRupees } from './format.js'
+import type { BudgetRange, ParsedIntent, Product, ProductQuery } from '../../types/index.js'
+
+export type ScoreFactorName = 'product_type' | 'budget' | 'brand' | 'features' | 'specifications' | 'rating'
+
+export interface ScoreFactor {
+  factor: ScoreFactorName
+  // Share of the overall score this factor carries, after unused factors are dropped
+  weight: number
+  // How well the product satisfies this factor (0-1)
+  score: number
+  reason: string
+}
+
+export interface MatchScoreBreakdown {
+  // 0-100, the value used for Product.matchScore
+  score: number
+  factors: ScoreFactor[]
+  explanation: string
+}
+
+const WEIGHTS: Record<ScoreFactorName, number> = {
+  product_type: 0.3,
+  budget: 0.2,
+  brand: 0.15,
+  features: 0.15,
+  specifications: 0.1,
+  rating: 0.1,
+}
+
+// Ratings are pulled towards this average until enough reviews back them up
+const PRIOR_RATING = 3.5
+const PRIOR_REVIEWS = 20
+
+// Prices this far over budget score zero
+const BUDGET_TOLERANCE = 0.3
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'with', 'in', 'on', 'to', 'my', 'me', 'i', 'want', 'need',
+  'under', 'below', 'above', 'within', 'less', 'than', 'upto', 'up', 'budget', 'price', 'rs', 'inr',
+  'rupee', 'buy', 'looking', 'some', 'good', 'best',
+])
+
+// "under ₹3,000", "below 2k": budget phrases are scored separately, not as product words
+const BUDGET_PHRASE = /\b(?:under|below|within|upto|up to|less than|max|around)\s*(?:rs\.?|inr|₹)?\s*[\d,.]+\s*k?\b/gi
+
+const stem = (token: string): string => {
+  return token.length > 3 && /[a-z]s$/.test(token) && !token.endsWith('ss') ? token.slice(0, -1) : token
+}
+
+const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(stem)
+}
+
+const containsAll = (haystack: Set<string>, phrase: string): boolean => {
+  const tokens = tokenize(phrase)
+  return tokens.length > 0 && tokens.every(token => haystack.has(token))
+}
+
+const listPhrases = (phrases: string[]) => phrases.map(phrase => `"${phrase}"`).join(', ')
+
+const budgetFromQuery = ({ budget }: ProductQuery): BudgetRange | null => {
+  return budget ? { min: budget.min, max: budget.max ?? null } : null
+}
+
+// The search request carries the parsed intent when the client has one;
+// otherwise the description and filters stand in for it.
+export const intentFromQuery = (query: ProductQuery): ParsedIntent => {
+  if (query.intent) {
+    return { ...query.intent, budget: query.intent.budget ?? budgetFromQuery(query) }
+  }
+
+  const specifications: Record<string, string> = { ...query.filters?.specifications }
+  if (query.filters?.size) {
+    specifications.size = query.filters.size
+  }
+  if (query.filters?.color) {
+    specifications.color = query.filters.color
+  }
+
+  return {
+    productType: query.description.replace(BUDGET_PHRASE, ' ').replace(/\s+/g, ' ').trim(),
+    budget: budgetFromQuery(query),
+    features: [],
+    brand: query.filters?.brands?.[0],
+    specifications,
+  }
+}
+
+// Scores products against a parsed intent. Each factor the intent says
+// something about contributes a 0-1 score and a reason; factors the intent is
+// silent on are left out and the remaining weights rescaled.
+export class MatchScorer {
+  score(product: Product, intent: ParsedIntent): MatchScoreBreakdown {
+    const text = new Set(tokenize([
+      product.name,
+      product.brand,
+      product.description,
+      ...Object.values(product.specifications ?? {}),
+    ].join(' ')))
+
+    const candidates = [
+      this.scoreProductType(text, intent),
+      this.scoreBudget(product, intent),
+      this.scoreBrand(product, intent),
+      this.scoreFeatures(text, intent),
+      this.scoreSpecifications(product, text, intent),
+      this.scoreRating(product),
+    ].filter((factor): factor is Omit<ScoreFactor, 'weight'> => factor !== null)
+
+    const totalWeight = candidates.reduce((total, factor) => total + WEIGHTS[factor.factor], 0)
+    const factors: ScoreFactor[] = candidates.map(factor => ({
+      ...factor,
+      score: Math.round(factor.score * 100) / 100,
+      weight: Math.round((WEIGHTS[factor.factor] / totalWeight) * 100) / 100,
+    }))
+
+    const score = candidates.reduce((total, factor) => total + factor.score * WEIGHTS[factor.factor], 0) / totalWeight
+
+    return {
+      score: Math.round(score * 100),
+      factors,
+      explanation: this.explain(factors),
+    }
+  }
+
+  // Fills matchScore and explanation and orders products best match first
+  rank(products: Product[], intent: ParsedIntent): Product[] {
+    return products
+      .map(product => {
+        const { score, explanation } = this.score(product, intent)
+        return { ...product, matchScore: score, explanation }
+      })
+      .sort((a, b) => b.matchScore - a.matchScore || a.price - b.price)
+  }
+
+  private scoreProductType(text: Set<string>, intent: ParsedIntent): Omit<ScoreFactor, 'weight'> | null {
+    const wanted = [...new Set(tokenize(intent.productType ?? ''))]
+    if (wanted.length === 0) {
+      return null
+    }
+
+    const found = wanted.filter(token => text.has(token))
+    const score = found.length / wanted.length
+
+    return {
+      factor: 'product_type',
+      score,
+      reason: score === 1
+        ? `Matches "${intent.productType}"`
+        : score > 0
+          ? `Partly matches "${intent.productType}"`
+          : `Does not look like "${intent.productType}"`,
+    }
+  }
+
+  private scoreBudget(product: Product, intent: ParsedIntent): Omit<ScoreFactor, 'weight'> | null {
+    if (!intent.budget) {
+      return null
+    }
+
+    const { min, max } = intent.budget
+    if (max === null) {
+      return min > 0 ? this.scoreMinimumBudget(product, min) : null
+    }
+    if (!(max > 0)) {
+      return null
+    }
+
+    if (product.price > max) {
+      const over = (product.price - max) / max
+      return {
+        factor: 'budget',
+        score: Math.max(0, 1 - over / BUDGET_TOLERANCE),
+        reason: `${formatRupees(product.price - max)} over your ${formatRupees(max)} budget`,
+      }
+    }
+
+    if (min > 0 && product.price < min) {
+      return {
+        factor: 'budget',
+        score: 0.8,
+        reason: `Priced below your ${formatRupees(min)} minimum`,
+      }
+    }
+
+    return {
+      factor: 'budget',
+      score: 1,
+      reason: `Within your ${formatRupees(max)} budget`,
+    }
+  }
+
+  // "above 10000": the shopper wants something at least this premium
+  private scoreMinimumBudget(product: Product, min: number): Omit<ScoreFactor, 'weight'> {
+    if (product.price >= min) {
+      return {
+        factor: 'budget',
+        score: 1,
+        reason: `Above your ${formatRupees(min)} minimum`,
+      }
+    }
+
+    const under = (min - product.price) / min
+    return {
+      factor: 'budget',
+      score: Math.max(0, 1 - under / BUDGET_TOLERANCE),
+      reason: `${formatRupees(min - product.price)} below your ${formatRupees(min)} minimum`,
+    }
+  }
+
+  private scoreBrand(product: Product, intent: ParsedIntent): Omit<ScoreFactor, 'weight'> | null {
+    const wanted = normalizeBrand(intent.brand)
+    if (!wanted) {
+      return null
+    }
+
+    const matches = normalizeBrand(product.brand) === wanted || normalizeBrand(product.name).startsWith(wanted)
+    return {
+      factor: 'brand',
+      score: matches ? 1 : 0,
+      reason: matches ? `${intent.brand} as requested` : `Not ${intent.brand}`,
+    }
+  }
+
+  private scoreFeatures(text: Set<string>, intent: ParsedIntent): Omit<ScoreFactor, 'weight'> | null {
+    const features = (intent.features ?? []).filter(feature => tokenize(feature).length > 0)
+    if (features.length === 0) {
+      return null
+    }
+
+    const found = features.filter(feature => containsAll(text, feature))
+    const missing = features.filter(feature => !found.includes(feature))
+
+    return {
+      factor: 'features',
+      score: found.length / features.length,
+      reason: missing.length === 0
+        ? `Has ${listPhrases(found)}`
+        : found.length > 0
+          ? `Has ${listPhrases(found)} but not ${listPhrases(missing)}`
+          : `Does not mention ${listPhrases(missing)}`,
+    }
+  }
+
+  private scoreSpecifications(
+    product: Product,
+    text: Set<string>,
+    intent: ParsedIntent
+  ): Omit<ScoreFactor, 'weight'> | null {
+    const wanted = Object.entries(intent.specifications ?? {}).filter(([, value]) => tokenize(value).length > 0)
+    if (wanted.length === 0) {
+      return null
+    }
+
+    const productSpecs = new Map(
+      Object.entries(product.specifications ?? {}).map(([key, value]) => [key.toLowerCase(), value])
+    )
+    const matched = wanted.filter(([key, value]) => {
+      const listed = productSpecs.get(key.toLowerCase())
+      return listed !== undefined ? containsAll(new Set(tokenize(listed)), value) : containsAll(text, value)
+    })
+    const unmatched = wanted.filter(spec => !matched.includes(spec))
+    const describe = (specs: Array<[string, string]>) => specs.map(([key, value]) => `${key} ${value}`).join(', ')
+
+    return {
+      factor: 'specifications',
+      score: matched.length / wanted.length,
+      reason: unmatched.length === 0
+        ? `Matches ${describe(matched)}`
+        : `Missing ${describe(unmatched)}`,
+    }
+  }
+
+  private scoreRating(product: Product): Omit<ScoreFactor, 'weight'> | null {
+    const reviews = Math.max(0, product.reviewCount || 0)
+    if (!(product.rating > 0) || reviews === 0) {
+      return {
+        factor: 'rating',
+        score: 0.5,
+        reason: 'No ratings yet',
+      }
+    }
+
+    // Bayesian average: a 5★ product with 3 reviews should not beat a 4.4★ one with 2,000
+    const adjusted = (product.rating * reviews + PRIOR_RATING * PRIOR_REVIEWS) / (reviews + PRIOR_REVIEWS)
+
+    return {
+      factor: 'rating',
+      score: Math.min(1, adjusted / 5),
+      reason: `Rated ${product.rating}★ from ${reviews.toLocaleString('en-IN')} review${reviews === 1 ? '' : 's'}`,
+    }
+  }
+
+  // Strongest contributions first, then whatever cost the most points
+  private explain(factors: ScoreFactor[]): string {
+    const strengths = factors
+      .filter(factor => factor.score >= 0.75)
+      .sort((a, b) => b.score * b.weight - a.score * a.weight)
+    const weaknesses = factors
+      .filter(factor => factor.score < 0.75)
+      .sort((a, b) => (1 - b.score) * b.weight - (1 - a.score) * a.weight)
+
+    const parts = [...strengths, ...weaknesses].map(factor => factor.reason)
+    return parts.length > 0 ? `${parts.join('; ')}.` : ''
+  }
+}
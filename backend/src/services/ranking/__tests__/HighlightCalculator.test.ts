@@ -0,0 +1,158 @@
+import { HighlightCalculator, parseEtaDays } from '../HighlightCalculator.js'
+import type { Product, RetailerName, RetailerSearchResults } from '../../../types/index.js'
+
+const product = (id: string, retailer: RetailerName, overrides: Partial<Product> = {}): Product => ({
+  id,
+  retailer,
+  name: `Product ${id}`,
+  brand: 'Brand',
+  price: 1000,
+  currency: '₹',
+  image: '',
+  description: '',
+  specifications: {},
+  availability: true,
+  deliveryInfo: { available: true, eta: '3-5 days', cost: 40 },
+  rating: 4,
+  reviewCount: 100,
+  matchScore: 80,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+  ...overrides,
+})
+
+const resultsWith = (...products: Product[]): RetailerSearchResults => {
+  const results: RetailerSearchResults = {
+    amazon: { status: 'success', products: [] },
+    flipkart: { status: 'success', products: [] },
+    myntra: { status: 'success', products: [] },
+    meesho: { status: 'success', products: [] },
+  }
+  products.forEach(item => results[item.retailer].products.push(item))
+  return results
+}
+
+const highlightsOf = (results: RetailerSearchResults) => Object.fromEntries(
+  Object.values(results)
+    .flatMap(result => result.products)
+    .filter(item => item.highlights.length > 0)
+    .map(item => [item.id, item.highlights.map(highlight => highlight.type)])
+)
+
+const now = new Date(2024, 9, 19, 12)
+
+describe('parseEtaDays', () => {
+  it.each([
+    ['Today', { min: 0, max: 0 }],
+    ['Get it Tomorrow', { min: 1, max: 1 }],
+    ['2-3 days', { min: 2, max: 3 }],
+    ['5 to 7 business days', { min: 5, max: 7 }],
+    ['4 days', { min: 4, max: 4 }],
+    ['1 week', { min: 7, max: 7 }],
+    ['Delivery by Mon, 21 Oct', { min: 2, max: 2 }],
+    ['Arrives Oct 25', { min: 6, max: 6 }],
+    ['by 2 Jan', { min: 75, max: 75 }],
+  ])('parses "%s"', (eta, expected) => {
+    expect(parseEtaDays(eta, now)).toEqual(expected)
+  })
+
+  it.each(['', 'Check availability', '3 hours'])('returns null for "%s"', eta => {
+    expect(parseEtaDays(eta, now)).toBeNull()
+  })
+})
+
+describe('HighlightCalculator', () => {
+  const calculator = new HighlightCalculator(() => now)
+
+  it('assigns each highlight once across all retailers, with reasons from real numbers', () => {
+    const results = calculator.apply(resultsWith(
+      product('amazon-1', 'amazon', { matchScore: 92, price: 2800, rating: 4.4, deliveryInfo: { available: true, eta: '3-4 days', cost: 0 } }),
+      product('flipkart-1', 'flipkart', { matchScore: 85, price: 1700, deliveryInfo: { available: true, eta: '2-3 days', cost: 40 } }),
+      product('myntra-1', 'myntra', { matchScore: 70, price: 2100, deliveryInfo: { available: true, eta: 'Tomorrow', cost: 0 } }),
+      product('meesho-1', 'meesho', { matchScore: 60, price: 2400 })
+    ))
+
+    expect(highlightsOf(results)).toEqual({
+      'amazon-1': ['top_pick'],
+      'flipkart-1': ['best_value'],
+      'myntra-1': ['fastest_delivery'],
+    })
+    expect(results.amazon.products[0].highlights[0].reason).toBe('Best match across 4 retailers: 92% match, rated 4.4★')
+    expect(results.flipkart.products[0].highlights[0].reason).toBe('₹1,700 for a 85% match: ₹20 per match point vs ₹30 on average')
+    expect(results.myntra.products[0].highlights[0].reason).toBe('Arrives tomorrow, 1 day sooner than the next fastest with free delivery')
+  })
+
+  it('lets one product hold several highlights', () => {
+    const results = calculator.apply(resultsWith(
+      product('amazon-1', 'amazon', { matchScore: 95, price: 500, deliveryInfo: { available: true, eta: '1-2 days', cost: 0 } }),
+      product('flipkart-1', 'flipkart', { matchScore: 70, price: 900 })
+    ))
+
+    expect(highlightsOf(results)).toEqual({ 'amazon-1': ['top_pick', 'best_value', 'fastest_delivery'] })
+  })
+
+  it('breaks ties on rating, then review count, then price', () => {
+    const results = calculator.apply(resultsWith(
+      product('amazon-1', 'amazon', { matchScore: 90, rating: 4.1 }),
+      product('flipkart-1', 'flipkart', { matchScore: 90, rating: 4.5, reviewCount: 10 }),
+      product('meesho-1', 'meesho', { matchScore: 90, rating: 4.5, reviewCount: 900 })
+    ))
+
+    expect(highlightsOf(results)['meesho-1']).toContain('top_pick')
+  })
+
+  it('breaks delivery ties on the narrower window and then delivery cost', () => {
+    const results = calculator.apply(resultsWith(
+      product('amazon-1', 'amazon', { deliveryInfo: { available: true, eta: '2-5 days', cost: 0 } }),
+      product('flipkart-1', 'flipkart', { deliveryInfo: { available: true, eta: '2-3 days', cost: 50 } }),
+      product('meesho-1', 'meesho', { deliveryInfo: { available: true, eta: '2-3 days', cost: 0 } })
+    ))
+
+    expect(highlightsOf(results)['meesho-1']).toContain('fastest_delivery')
+  })
+
+  it('skips products with missing data and needs two comparable products', () => {
+    const results = calculator.apply(resultsWith(
+      product('amazon-1', 'amazon', { matchScore: 0, deliveryInfo: { available: true, eta: '', cost: 0 } }),
+      product('flipkart-1', 'flipkart', { matchScore: 75, deliveryInfo: { available: true, eta: 'See options', cost: 0 } }),
+      product('meesho-1', 'meesho', { matchScore: 99, availability: false })
+    ))
+
+    expect(highlightsOf(results)).toEqual({ 'flipkart-1': ['top_pick'] })
+  })
+
+  it('ignores failed retailers and clears stale highlights', () => {
+    const stale = product('amazon-1', 'amazon', { highlights: [{ type: 'top_pick', reason: 'old' }] })
+    const input = resultsWith(stale)
+    input.amazon.status = 'error'
+
+    expect(highlightsOf(calculator.apply(input))).toEqual({})
+  })
+
+  it('fills insights from the same candidates', () => {
+    const cheapest = product('meesho-1', 'meesho', { price: 499 })
+    const fastest = product('myntra-1', 'myntra', { deliveryInfo: { available: true, eta: 'Today', cost: 99 } })
+    const insights = calculator.getInsights(resultsWith(
+      product('amazon-1', 'amazon'),
+      product('amazon-2', 'amazon'),
+      cheapest,
+      fastest
+    ))
+
+    expect(insights).toEqual({
+      bestPrice: { retailer: 'meesho', price: 499, product: cheapest },
+      fastestDelivery: { retailer: 'myntra', eta: 'Today', product: fastest },
+      mostOptions: { retailer: 'amazon', count: 2 },
+    })
+  })
+
+  it('returns empty insights when nothing was found', () => {
+    expect(calculator.getInsights(resultsWith())).toEqual({
+      bestPrice: null,
+      fastestDelivery: null,
+      mostOptions: null,
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { MatchScorer, intentFromQuery } from '../MatchScorer.js'
+import type { ParsedIntent, Product } from '../../../types/index.js'
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  id: 'amazon-1',
+  retailer: 'amazon',
+  name: 'Nike Revolution 6 Running Shoes',
+  brand: 'Nike',
+  price: 2800,
+  currency: '₹',
+  image: '',
+  description: 'Lightweight cushioned running shoe',
+  specifications: { color: 'Black', size: '9' },
+  availability: true,
+  deliveryInfo: { available: true, eta: '2-3 days', cost: 0 },
+  rating: 4.4,
+  reviewCount: 2000,
+  matchScore: 0,
+  explanation: '',
+  highlights: [],
+  retailerUrl: '',
+  lastUpdated: new Date(0),
+  ...overrides,
+})
+
+const intent: ParsedIntent = {
+  productType: 'running shoes',
+  budget: { min: 0, max: 3000 },
+  features: ['lightweight', 'cushioned'],
+  brand: 'Nike',
+  specifications: { color: 'black' },
+}
+
+describe('MatchScorer', () => {
+  const scorer = new MatchScorer()
+
+  it('gives a product that meets every requirement a full breakdown', () => {
+    const result = scorer.score(product(), intent)
+
+    expect(result.factors.map(factor => [factor.factor, factor.score])).toEqual([
+      ['product_type', 1],
+      ['budget', 1],
+      ['brand', 1],
+      ['features', 1],
+      ['specifications', 1],
+      ['rating', 0.88],
+    ])
+    expect(result.factors.reduce((total, factor) => total + factor.weight, 0)).toBeCloseTo(1)
+    expect(result.score).toBe(99)
+  })
+
+  it('explains the score with the real reasons, strengths first', () => {
+    const { explanation } = scorer.score(product({ price: 3300, brand: 'Puma', name: 'Puma Running Shoes' }), intent)
+
+    expect(explanation).toBe(
+      'Matches "running shoes"; Has "lightweight", "cushioned"; Matches color black; ' +
+      'Rated 4.4★ from 2,000 reviews; Not Nike; ₹300 over your ₹3,000 budget.'
+    )
+  })
+
+  it('scores prices over budget down to zero at 30% over', () => {
+    const budgetScore = (price: number) =>
+      scorer.score(product({ price }), intent).factors.find(factor => factor.factor === 'budget')!.score
+
+    expect(budgetScore(3000)).toBe(1)
+    expect(budgetScore(3450)).toBe(0.5)
+    expect(budgetScore(3900)).toBe(0)
+  })
+
+  it('scores lower-bound budgets against the minimum', () => {
+    const budget = (price: number) => scorer
+      .score(product({ price }), { ...intent, budget: { min: 3000, max: null } })
+      .factors.find(factor => factor.factor === 'budget')!
+
+    expect(budget(3500)).toMatchObject({ score: 1, reason: 'Above your ₹3,000 minimum' })
+    expect(budget(2550)).toMatchObject({ score: 0.5, reason: '₹450 below your ₹3,000 minimum' })
+  })
+
+  it('reports partially matched features', () => {
+    const result = scorer.score(product({ description: 'Breathable mesh upper' }), intent)
+    const features = result.factors.find(factor => factor.factor === 'features')!
+
+    expect(features.score).toBe(0)
+    expect(features.reason).toBe('Does not mention "lightweight", "cushioned"')
+  })
+
+  it('discounts high ratings backed by few reviews', () => {
+    const ratingScore = (rating: number, reviewCount: number) =>
+      scorer.score(product({ rating, reviewCount }), intent).factors.find(factor => factor.factor === 'rating')!.score
+
+    expect(ratingScore(5, 3)).toBeLessThan(ratingScore(4.4, 2000))
+    expect(ratingScore(0, 0)).toBe(0.5)
+  })
+
+  it('leaves out factors the intent says nothing about', () => {
+    const result = scorer.score(product(), { productType: 'running shoes', budget: null, features: [] })
+
+    expect(result.factors.map(factor => factor.factor)).toEqual(['product_type', 'rating'])
+    expect(result.factors.map(factor => factor.weight)).toEqual([0.75, 0.25])
+  })
+
+  it('is deterministic and ranks best matches first', () => {
+    const products = [
+      product({ id: 'a', brand: 'Puma', name: 'Puma Running Shoes' }),
+      product({ id: 'b' }),
+      product({ id: 'c', name: 'Nike Football Boots', description: '' }),
+    ]
+
+    const first = scorer.rank(products, intent)
+    const second = scorer.rank(products, intent)
+
+    expect(first.map(p => p.id)).toEqual(['b', 'a', 'c'])
+    expect(first).toEqual(second)
+    expect(first[0].explanation).toContain('Nike as requested')
+  })
+})
+
+describe('intentFromQuery', () => {
+  it('derives an intent from the description and filters', () => {
+    expect(intentFromQuery({
+      description: 'red kurta under ₹1,500',
+      pincode: '110001',
+      budget: { min: 0, max: 1500 },
+      filters: { brands: ['Biba'], size: 'M', color: 'red' },
+      confidence: 1,
+    })).toEqual({
+      productType: 'red kurta',
+      budget: { min: 0, max: 1500 },
+      features: [],
+      brand: 'Biba',
+      specifications: { size: 'M', color: 'red' },
+    })
+  })
+
+  it('prefers the parsed intent sent with the query', () => {
+    expect(intentFromQuery({ description: 'x', pincode: '110001', confidence: 1, intent }).productType).toBe('running shoes')
+  })
+})
@@ -0,0 +1,4 @@
+// Formats an amount in rupees with Indian digit grouping: ₹1,29,999
+export const formatRupees = (amount: number): string => {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`
+}
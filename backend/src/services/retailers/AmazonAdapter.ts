@@ -0,0 +1,21 @@
+import { HttpRetailerAdapter } from './HttpRetailerAdapter.js'
+import type { ProductQuery } from '../../types/index.js'
+
+export class AmazonAdapter extends HttpRetailerAdapter {
+  protected buildSearchUrl(query: ProductQuery): string {
+    const url = new URL(this.config.searchPath, this.config.baseUrl)
+    url.searchParams.set('k', query.description)
+
+    // Amazon filters price in paise: p_36:<min>-<max>, with max left empty for "above"
+    if (query.budget) {
+      const max = query.budget.max !== undefined ? query.budget.max * 100 : ''
+      url.searchParams.set('rh', `p_36:${query.budget.min * 100}-${max}`)
+    }
+
+    return url.toString()
+  }
+
+  protected buildProductUrl(productId: string): string {
+    return new URL(`/dp/${encodeURIComponent(productId)}`, this.config.baseUrl).toString()
+  }
+}
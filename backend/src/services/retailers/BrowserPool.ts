@@ -0,0 +1,213 @@
+import puppeteer from 'puppeteer'
+import type { Browser, HTTPRequest, Page, ResourceType } from 'puppeteer'
+import { logger } from '../../utils/logger.js'
+
+export interface BrowserPoolOptions {
+  // Maximum number of pages rendering at the same time
+  maxPages: number
+  // Request types aborted before they reach the network
+  blockedResourceTypes: ResourceType[]
+  launch: () => Promise<Browser>
+}
+
+export interface BrowserFetchOptions {
+  timeout: number
+  // Wait for this selector before reading the page, for client-rendered lists
+  waitForSelector?: string
+}
+
+const DEFAULT_BLOCKED_RESOURCES: ResourceType[] = ['image', 'font', 'media']
+
+const getMaxPages = (): number => {
+  const maxPages = Number(process.env.BROWSER_POOL_SIZE)
+  return Number.isInteger(maxPages) && maxPages > 0 ? maxPages : 2
+}
+
+const launchBrowser = (): Promise<Browser> => {
+  return puppeteer.launch({
+    headless: 'new',
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+  })
+}
+
+// Shares one headless browser between retailer adapters. Pages are reused
+// between fetches and at most maxPages render at once; further fetches wait.
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions
+  private browser: Promise<Browser> | null = null
+  private readonly idlePages: Page[] = []
+  private readonly waiters: Array<{ resolve: (page: Page) => void; reject: (error: Error) => void }> = []
+  private activePages = 0
+  private closed = false
+
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    this.options = {
+      maxPages: getMaxPages(),
+      blockedResourceTypes: DEFAULT_BLOCKED_RESOURCES,
+      launch: launchBrowser,
+      ...options,
+    }
+  }
+
+  async fetchHtml(url: string, options: BrowserFetchOptions): Promise<string> {
+    const page = await this.acquire()
+    let healthy = true
+
+    try {
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: options.timeout })
+      if (options.waitForSelector) {
+        await page.waitForSelector(options.waitForSelector, { timeout: options.timeout })
+      }
+      return await page.content()
+    } catch (error) {
+      healthy = false
+      throw error
+    } finally {
+      await this.release(page, healthy)
+    }
+  }
+
+  getStats(): { active: number; idle: number; waiting: number } {
+    return {
+      active: this.activePages,
+      idle: this.idlePages.length,
+      waiting: this.waiters.length,
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    this.idlePages.length = 0
+    this.waiters.splice(0).forEach(waiter => waiter.reject(new Error('Browser pool is closed')))
+
+    if (!this.browser) {
+      return
+    }
+
+    const browser = this.browser
+    this.browser = null
+    try {
+      await (await browser).close()
+      logger.info('Browser pool closed')
+    } catch (error) {
+      logger.error('Error closing browser pool:', error)
+    }
+  }
+
+  private async acquire(): Promise<Page> {
+    if (this.closed) {
+      throw new Error('Browser pool is closed')
+    }
+
+    const idlePage = this.idlePages.pop()
+    if (idlePage) {
+      this.activePages++
+      return idlePage
+    }
+
+    if (this.activePages >= this.options.maxPages) {
+      // Wait for a page to be handed over by release()
+      return new Promise<Page>((resolve, reject) => this.waiters.push({ resolve, reject }))
+    }
+
+    this.activePages++
+    try {
+      return await this.createPage()
+    } catch (error) {
+      this.activePages--
+      throw error
+    }
+  }
+
+  private async release(page: Page, healthy: boolean): Promise<void> {
+    if (!healthy || this.closed) {
+      await page.close().catch(() => undefined)
+      this.activePages--
+      this.wakeWaiter()
+      return
+    }
+
+    const waiter = this.waiters.shift()
+    if (waiter) {
+      // Hand the page straight over; the active count is unchanged
+      waiter.resolve(page)
+      return
+    }
+
+    this.activePages--
+    this.idlePages.push(page)
+  }
+
+  // A page was closed, so a waiting fetch can open a fresh one
+  private wakeWaiter(): void {
+    const waiter = this.waiters.shift()
+    if (!waiter) {
+      return
+    }
+
+    this.activePages++
+    this.createPage().then(waiter.resolve, error => {
+      this.activePages--
+      waiter.reject(error)
+    })
+  }
+
+  private async createPage(): Promise<Page> {
+    if (!this.browser) {
+      this.browser = this.launch()
+    }
+
+    const page = await (await this.browser).newPage()
+    await page.setRequestInterception(true)
+    page.on('request', (request: HTTPRequest) => {
+      if (this.options.blockedResourceTypes.includes(request.resourceType())) {
+        request.abort().catch(() => undefined)
+      } else {
+        request.continue().catch(() => undefined)
+      }
+    })
+
+    return page
+  }
+
+  private launch(): Promise<Browser> {
+    const launching = this.options.launch()
+    launching.then(
+      browser => browser.on('disconnected', () => this.discard(launching, 'Browser disconnected')),
+      () => this.discard(launching)
+    )
+    return launching
+  }
+
+  // Forgets a browser that failed to start or has crashed, with its idle pages,
+  // so the next fetch launches a new one. close() has already let go of it.
+  private discard(browser: Promise<Browser>, reason?: string): void {
+    if (this.browser !== browser) {
+      return
+    }
+    if (reason) {
+      logger.warn(`${reason}; relaunching on the next fetch`)
+    }
+    this.browser = null
+    this.idlePages.length = 0
+  }
+}
+
+let sharedPool: BrowserPool | null = null
+
+export const getBrowserPool = (): BrowserPool => {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool()
+  }
+  return sharedPool
+}
+
+// Called on shutdown; safe to call when no browser was ever launched
+export const closeBrowserPool = async (): Promise<void> => {
+  if (sharedPool) {
+    const pool = sharedPool
+    sharedPool = null
+    await pool.close()
+  }
+}
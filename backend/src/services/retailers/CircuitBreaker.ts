@@ -0,0 +1,220 @@
+import { logger } from '../../utils/logger.js'
+import type { RetailerName } from '../../types/index.js'
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number
+  // How long the circuit stays open before a probe request is let through
+  resetTimeout: number
+  // Retries for transient failures, on top of the first attempt
+  maxRetries: number
+  // First backoff delay; doubled on every retry up to maxDelay
+  baseDelay: number
+  maxDelay: number
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  lastError?: string
+  openedAt?: string
+  nextProbeAt?: string
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+const getDefaultOptions = (): CircuitBreakerOptions => ({
+  failureThreshold: readNumber(process.env.CIRCUIT_FAILURE_THRESHOLD, 3),
+  resetTimeout: readNumber(process.env.CIRCUIT_RESET_TIMEOUT, 30000),
+  maxRetries: readNumber(process.env.RETAILER_MAX_RETRIES, 2),
+  baseDelay: 500,
+  maxDelay: 4000,
+})
+
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ENOTFOUND']
+
+// Network failures, timeouts, 429 and 5xx responses are worth retrying;
+// anything else (e.g. a page that no longer parses) fails straight away.
+export const isTransientError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) {
+    return false
+  }
+
+  const { code, response } = error as Error & { code?: string; response?: { status?: number } }
+  if (code && TRANSIENT_CODES.includes(code)) {
+    return true
+  }
+  if (response?.status) {
+    return response.status === 429 || response.status >= 500
+  }
+
+  return /timed? ?out/i.test(error.message)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Tracks failures for one retailer. After failureThreshold consecutive failures
+// the circuit opens and calls fail fast until resetTimeout has passed; then a
+// single half-open probe decides whether to close it again or keep it open.
+//
+// Given the longest one attempt can take, every attempt including retries has
+// to finish within getTimeBudget() of the call: a retry that could not (after
+// its backoff delay) is not started, and the last error is recorded instead.
+// Callers time the whole call out at that budget, so no retry is still
+// running against the retailer once they have given up on it.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private lastError: string | undefined
+  private probeInFlight = false
+
+  constructor(
+    private readonly retailer: RetailerName,
+    private readonly options: CircuitBreakerOptions = getDefaultOptions()
+  ) {}
+
+  // attemptTimeout is the longest one attempt can take; without one, retries
+  // are not limited by time
+  async execute<T>(task: () => Promise<T>, attemptTimeout = Infinity): Promise<T> {
+    const deadline = Date.now() + this.getTimeBudget(attemptTimeout)
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt! < this.options.resetTimeout) {
+        throw this.unavailableError()
+      }
+      this.transition('half_open')
+    }
+
+    if (this.state === 'half_open') {
+      // Only one probe at a time; everyone else keeps skipping the retailer
+      if (this.probeInFlight) {
+        throw this.unavailableError()
+      }
+      this.probeInFlight = true
+      try {
+        return await this.attempt(task, 0, deadline, attemptTimeout)
+      } finally {
+        this.probeInFlight = false
+      }
+    }
+
+    return this.attempt(task, this.options.maxRetries, deadline, attemptTimeout)
+  }
+
+  // How long a call may take with every retry and backoff delay used up
+  getTimeBudget(attemptTimeout: number): number {
+    let budget = attemptTimeout
+    for (let attempt = 0; attempt < this.options.maxRetries; attempt++) {
+      budget += this.getDelay(attempt) + attemptTimeout
+    }
+    return budget
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const status: CircuitBreakerStatus = {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+    }
+
+    if (this.state !== 'closed' && this.openedAt !== null) {
+      status.openedAt = new Date(this.openedAt).toISOString()
+      status.nextProbeAt = new Date(this.openedAt + this.options.resetTimeout).toISOString()
+    }
+
+    return status
+  }
+
+  private async attempt<T>(task: () => Promise<T>, retries: number, deadline: number, attemptTimeout: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await task()
+        this.recordSuccess()
+        return result
+      } catch (error) {
+        const delay = this.getDelay(attempt)
+        const fits = Date.now() + delay + attemptTimeout <= deadline
+        if (attempt < retries && isTransientError(error) && fits) {
+          logger.warn(`${this.retailer} request failed, retrying in ${delay}ms (attempt ${attempt + 1} of ${retries})`)
+          await sleep(delay)
+          continue
+        }
+
+        this.recordFailure(error)
+        throw error
+      }
+    }
+  }
+
+  private getDelay(attempt: number): number {
+    return Math.min(this.options.baseDelay * 2 ** attempt, this.options.maxDelay)
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.lastError = undefined
+    if (this.state !== 'closed') {
+      this.transition('closed')
+    }
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++
+    this.lastError = error instanceof Error ? error.message : String(error)
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now()
+      this.transition('open')
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === 'closed') {
+      this.openedAt = null
+    }
+    logger.info(`Circuit for ${this.retailer} is now ${state}`)
+    this.state = state
+  }
+
+  private unavailableError(): Error {
+    return new Error(`${this.retailer} is temporarily unavailable`)
+  }
+}
+
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<RetailerName, CircuitBreaker>()
+
+  constructor(private readonly options?: CircuitBreakerOptions) {}
+
+  get(retailer: RetailerName): CircuitBreaker {
+    let breaker = this.breakers.get(retailer)
+    if (!breaker) {
+      breaker = new CircuitBreaker(retailer, this.options)
+      this.breakers.set(retailer, breaker)
+    }
+    return breaker
+  }
+
+  getStatuses(): Partial<Record<RetailerName, CircuitBreakerStatus>> {
+    const statuses: Partial<Record<RetailerName, CircuitBreakerStatus>> = {}
+    this.breakers.forEach((breaker, retailer) => {
+      statuses[retailer] = breaker.getStatus()
+    })
+    return statuses
+  }
+}
+
+let sharedBreakers: CircuitBreakerRegistry | null = null
+
+export const getCircuitBreakers = (): CircuitBreakerRegistry => {
+  if (!sharedBreakers) {
+    sharedBreakers = new CircuitBreakerRegistry()
+  }
+  return sharedBreakers
+}
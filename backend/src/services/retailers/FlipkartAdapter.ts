@@ -0,0 +1,23 @@
+import { HttpRetailerAdapter } from './HttpRetailerAdapter.js'
+import type { ProductQuery } from '../../types/index.js'
+
+export class FlipkartAdapter extends HttpRetailerAdapter {
+  protected buildSearchUrl(query: ProductQuery): string {
+    const url = new URL(this.config.searchPath, this.config.baseUrl)
+    url.searchParams.set('q', query.description)
+
+    if (query.budget) {
+      url.searchParams.append('p[]', `facets.price_range.from=${query.budget.min}`)
+      url.searchParams.append('p[]', `facets.price_range.to=${query.budget.max ?? 'Max'}`)
+    }
+
+    return url.toString()
+  }
+
+  protected buildProductUrl(productId: string): string {
+    // Flipkart resolves any slug as long as the pid is present
+    const url = new URL('/product/p/itme', this.config.baseUrl)
+    url.searchParams.set('pid', productId)
+    return url.toString()
+  }
+}
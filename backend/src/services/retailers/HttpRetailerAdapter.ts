@@ -0,0 +1,110 @@
+import axios from 'axios'
+import { logger } from '../../utils/logger.js'
+import { getBrowserPool } from './BrowserPool.js'
+import { getRequestScheduler, RequestScheduler } from './RequestScheduler.js'
+import { HtmlProductExtractor } from './extraction/HtmlProductExtractor.js'
+import { searchPageSelectors } from './extraction/selectors.js'
+import type {
+  DeliveryInfo,
+  Product,
+  ProductQuery,
+  RetailerAdapter,
+  RetailerConfig,
+  RetailerName,
+} from '../../types/index.js'
+
+interface FetchPageOptions {
+  params?: Record<string, string>
+  // Only used in browser mode, where listings may render after page load
+  waitForSelector?: string
+}
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+
+// Base class for adapters that read a retailer's public web pages. Subclasses
+// describe their URLs; fetching and page handling is shared here. Every page
+// fetch goes through the request scheduler so the retailer's rate limit holds.
+export abstract class HttpRetailerAdapter implements RetailerAdapter {
+  constructor(
+    readonly config: RetailerConfig,
+    private readonly scheduler: RequestScheduler = getRequestScheduler()
+  ) {}
+
+  get name(): RetailerName {
+    return this.config.name
+  }
+
+  async search(query: ProductQuery): Promise<Product[]> {
+    const url = this.buildSearchUrl(query)
+    logger.info(`Fetching ${this.name} search page: ${url}`)
+
+    const html = await this.fetchPage(url, { waitForSelector: searchPageSelectors[this.name].item })
+    return this.parseSearchResults(html, query)
+  }
+
+  async getProduct(productId: string): Promise<Product | null> {
+    const html = await this.fetchPage(this.buildProductUrl(this.toRetailerId(productId)))
+    return this.parseProductPage(html, productId)
+  }
+
+  async checkDelivery(pincode: string, productId?: string): Promise<DeliveryInfo> {
+    if (!productId) {
+      throw new Error(`${this.name} delivery checks require a product ID`)
+    }
+
+    const html = await this.fetchPage(this.buildProductUrl(this.toRetailerId(productId)), {
+      params: { pincode },
+    })
+    return this.parseDeliveryInfo(html, pincode)
+  }
+
+  protected fetchPage(url: string, options: FetchPageOptions = {}): Promise<string> {
+    return this.scheduler.schedule(this.config, () => this.requestPage(url, options))
+  }
+
+  private async requestPage(url: string, options: FetchPageOptions): Promise<string> {
+    if (this.config.fetchMode === 'browser') {
+      const pageUrl = new URL(url)
+      Object.entries(options.params ?? {}).forEach(([key, value]) => pageUrl.searchParams.set(key, value))
+
+      return getBrowserPool().fetchHtml(pageUrl.toString(), {
+        timeout: this.config.timeout,
+        waitForSelector: options.waitForSelector,
+      })
+    }
+
+    const response = await axios.get<string>(url, {
+      params: options.params,
+      timeout: this.config.timeout,
+      responseType: 'text',
+      headers: {
+        'User-Agent': process.env.USER_AGENT || DEFAULT_USER_AGENT,
+        'Accept-Language': 'en-IN,en;q=0.9',
+      },
+    })
+
+    return response.data
+  }
+
+  // Product IDs are prefixed with the retailer name; URLs need the raw ID
+  protected toRetailerId(productId: string): string {
+    const prefix = `${this.name}-`
+    return productId.startsWith(prefix) ? productId.slice(prefix.length) : productId
+  }
+
+  protected abstract buildSearchUrl(query: ProductQuery): string
+
+  protected abstract buildProductUrl(productId: string): string
+
+  protected parseSearchResults(html: string, _query: ProductQuery): Product[] {
+    return new HtmlProductExtractor(this.name, this.config.baseUrl).extractOrThrow(html)
+  }
+
+  protected parseProductPage(_html: string, _productId: string): Product | null {
+    throw new Error(`Product page extraction is not available for ${this.name}`)
+  }
+
+  protected parseDeliveryInfo(_html: string, _pincode: string): DeliveryInfo {
+    throw new Error(`Delivery extraction is not available for ${this.name}`)
+  }
+}
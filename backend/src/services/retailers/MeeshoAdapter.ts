@@ -0,0 +1,14 @@
+import { HttpRetailerAdapter } from './HttpRetailerAdapter.js'
+import type { ProductQuery } from '../../types/index.js'
+
+export class MeeshoAdapter extends HttpRetailerAdapter {
+  protected buildSearchUrl(query: ProductQuery): string {
+    const url = new URL(this.config.searchPath, this.config.baseUrl)
+    url.searchParams.set('q', query.description)
+    return url.toString()
+  }
+
+  protected buildProductUrl(productId: string): string {
+    return new URL(`/s/p/${encodeURIComponent(productId)}`, this.config.baseUrl).toString()
+  }
+}
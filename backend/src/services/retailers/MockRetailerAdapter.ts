@@ -0,0 +1,111 @@
+import type {
+  DeliveryInfo,
+  Product,
+  ProductQuery,
+  RetailerAdapter,
+  RetailerConfig,
+  RetailerName,
+} from '../../types/index.js'
+import { ServiceabilityMatrix } from '../delivery/ServiceabilityMatrix.js'
+import { DeliveryEstimator, toDeliveryInfo } from '../delivery/DeliveryEstimator.js'
+
+// Products remembered for getProduct; every search makes new ids, so older
+// ones are dropped rather than kept for as long as the server runs
+const MAX_PRODUCTS = 500
+
+// Generates placeholder products so the rest of the pipeline can run without
+// contacting any retailer. Selected with RETAILER_ADAPTER_MODE=mock.
+export class MockRetailerAdapter implements RetailerAdapter {
+  private readonly products = new Map<string, Product>()
+
+  constructor(
+    readonly config: RetailerConfig,
+    private readonly serviceability: ServiceabilityMatrix = new ServiceabilityMatrix(),
+    private readonly estimator: DeliveryEstimator = new DeliveryEstimator(undefined, undefined, serviceability),
+    private readonly maxProducts = MAX_PRODUCTS
+  ) {}
+
+  get name(): RetailerName {
+    return this.config.name
+  }
+
+  async search(query: ProductQuery): Promise<Product[]> {
+    const products = this.getMockProducts(query)
+    products.forEach(product => this.products.set(product.id, product))
+    // A Map keeps insertion order, so the first key is the oldest product
+    while (this.products.size > this.maxProducts) {
+      this.products.delete(this.products.keys().next().value as string)
+    }
+    return products
+  }
+
+  async getProduct(productId: string): Promise<Product | null> {
+    return this.products.get(productId) ?? null
+  }
+
+  async checkDelivery(pincode: string): Promise<DeliveryInfo> {
+    // The retailer's serviceable regions and logistics stand in for its delivery check
+    const delivery = toDeliveryInfo(this.estimator.estimateStandard(this.name, pincode))
+    const available = this.serviceability.check(this.name, pincode).serviceable && delivery.available
+
+    return { ...delivery, available, eta: available ? delivery.eta : '' }
+  }
+
+  private getMockProducts(query: ProductQuery): Product[] {
+    const retailer = this.name
+    const deliveryInfo = toDeliveryInfo(this.estimator.estimateStandard(retailer, query.pincode))
+    const baseProducts = [
+      {
+        name: `${query.description} - Premium Quality`,
+        brand: 'BrandA',
+        price: 2500,
+        originalPrice: 3000,
+        rating: 4.2,
+        reviewCount: 156,
+      },
+      {
+        name: `${query.description} - Best Value`,
+        brand: 'BrandB',
+        price: 1800,
+        rating: 4.0,
+        reviewCount: 89,
+      },
+      {
+        name: `${query.description} - Top Rated`,
+        brand: 'BrandC',
+        price: 3200,
+        originalPrice: 4000,
+        rating: 4.5,
+        reviewCount: 234,
+      },
+    ]
+
+    return baseProducts.map((product, index) => ({
+      id: `${retailer}-${Date.now()}-${index}`,
+      retailer,
+      name: product.name,
+      brand: product.brand,
+      price: product.price,
+      originalPrice: product.originalPrice,
+      currency: '₹',
+      image: `https://via.placeholder.com/300x300?text=${encodeURIComponent(product.name)}`,
+      description: `High-quality ${query.description} perfect for your needs`,
+      specifications: {
+        material: 'Premium',
+        warranty: '1 year',
+        origin: 'India',
+      },
+      availability: true,
+      deliveryInfo,
+      rating: product.rating,
+      reviewCount: product.reviewCount,
+      // Filled in by the ranking step
+      matchScore: 0,
+      explanation: '',
+      // Assigned across all retailers once every search has finished
+      highlights: [],
+      retailerUrl: `${this.config.baseUrl}/product/${product.name.replace(/\s+/g, '-').toLowerCase()}`,
+      lastUpdated: new Date(),
+    }))
+  }
+}
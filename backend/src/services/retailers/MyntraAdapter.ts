@@ -0,0 +1,16 @@
+import { HttpRetailerAdapter } from './HttpRetailerAdapter.js'
+import type { ProductQuery } from '../../types/index.js'
+
+export class MyntraAdapter extends HttpRetailerAdapter {
+  protected buildSearchUrl(query: ProductQuery): string {
+    // Myntra search pages live at /<slug>?rawQuery=<query>
+    const slug = query.description.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+    const url = new URL(`${this.config.searchPath.replace(/\/$/, '')}/${slug}`, this.config.baseUrl)
+    url.searchParams.set('rawQuery', query.description)
+    return url.toString()
+  }
+
+  protected buildProductUrl(productId: string): string {
+    return new URL(`/${encodeURIComponent(productId)}`, this.config.baseUrl).toString()
+  }
+}
@@ -0,0 +1,155 @@
+import { logger } from '../../utils/logger.js'
+import type { RetailerConfig, RetailerName } from '../../types/index.js'
+
+export interface RetailerQueueStats {
+  queued: number
+  running: number
+  availableTokens: number
+}
+
+interface PendingRequest {
+  start: () => void
+  reject: (error: Error) => void
+}
+
+interface RetailerQueue {
+  config: RetailerConfig
+  tokens: number
+  lastRefill: number
+  pending: PendingRequest[]
+  running: number
+  drainTimer: NodeJS.Timeout | null
+}
+
+const DEFAULT_MAX_QUEUE_DEPTH = 100
+
+// Queues outbound requests per retailer and releases them through a token
+// bucket sized from RetailerConfig.rateLimit (requests per window ms). Each
+// request must finish, including time spent queued, within config.timeout.
+export class RequestScheduler {
+  private readonly queues = new Map<RetailerName, RetailerQueue>()
+
+  constructor(private readonly maxQueueDepth = DEFAULT_MAX_QUEUE_DEPTH) {}
+
+  schedule<T>(config: RetailerConfig, task: () => Promise<T>): Promise<T> {
+    const queue = this.getQueue(config)
+
+    if (queue.pending.length >= this.maxQueueDepth) {
+      return Promise.reject(new Error(`${config.name} request queue is full`))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false
+      const settle = (callback: () => void) => {
+        if (!settled) {
+          settled = true
+          clearTimeout(timer)
+          callback()
+        }
+      }
+
+      const request: PendingRequest = {
+        start: () => {
+          queue.running++
+          task()
+            .then(
+              value => settle(() => resolve(value)),
+              error => settle(() => reject(error))
+            )
+            .finally(() => {
+              queue.running--
+            })
+        },
+        reject: error => settle(() => reject(error)),
+      }
+
+      const timer = setTimeout(() => {
+        const index = queue.pending.indexOf(request)
+        if (index !== -1) {
+          queue.pending.splice(index, 1)
+        }
+        request.reject(new Error(`${config.name} request timed out after ${config.timeout}ms`))
+      }, config.timeout)
+
+      queue.pending.push(request)
+      this.drain(queue)
+    })
+  }
+
+  getQueueDepth(retailer: RetailerName): number {
+    return this.queues.get(retailer)?.pending.length ?? 0
+  }
+
+  getStats(): Partial<Record<RetailerName, RetailerQueueStats>> {
+    const stats: Partial<Record<RetailerName, RetailerQueueStats>> = {}
+
+    this.queues.forEach((queue, retailer) => {
+      this.refill(queue)
+      stats[retailer] = {
+        queued: queue.pending.length,
+        running: queue.running,
+        availableTokens: Math.floor(queue.tokens),
+      }
+    })
+
+    return stats
+  }
+
+  private getQueue(config: RetailerConfig): RetailerQueue {
+    let queue = this.queues.get(config.name)
+
+    if (!queue) {
+      queue = {
+        config,
+        tokens: config.rateLimit.requests,
+        lastRefill: Date.now(),
+        pending: [],
+        running: 0,
+        drainTimer: null,
+      }
+      this.queues.set(config.name, queue)
+    }
+
+    // Pick up configuration changes without losing queued requests
+    queue.config = config
+    return queue
+  }
+
+  private refill(queue: RetailerQueue): void {
+    const { requests, window } = queue.config.rateLimit
+    const now = Date.now()
+    const elapsed = now - queue.lastRefill
+
+    queue.tokens = Math.min(requests, queue.tokens + (elapsed * requests) / window)
+    queue.lastRefill = now
+  }
+
+  private drain(queue: RetailerQueue): void {
+    this.refill(queue)
+
+    while (queue.pending.length > 0 && queue.tokens >= 1) {
+      queue.tokens -= 1
+      queue.pending.shift()!.start()
+    }
+
+    if (queue.pending.length > 0 && !queue.drainTimer) {
+      const { requests, window } = queue.config.rateLimit
+      const wait = Math.ceil(((1 - queue.tokens) * window) / requests)
+
+      logger.info(`${queue.config.name} rate limit reached, ${queue.pending.length} request(s) queued`)
+      queue.drainTimer = setTimeout(() => {
+        queue.drainTimer = null
+        this.drain(queue)
+      }, wait)
+    }
+  }
+}
+
+let sharedScheduler: RequestScheduler | null = null
+
+export const getRequestScheduler = (): RequestScheduler => {
+  if (!sharedScheduler) {
+    sharedScheduler = new RequestScheduler()
+  }
+  return sharedScheduler
+}
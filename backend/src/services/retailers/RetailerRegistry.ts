@@ -0,0 +1,62 @@
+import { AmazonAdapter } from './AmazonAdapter.js'
+import { FlipkartAdapter } from './FlipkartAdapter.js'
+import { MyntraAdapter } from './MyntraAdapter.js'
+import { MeeshoAdapter } from './MeeshoAdapter.js'
+import { MockRetailerAdapter } from './MockRetailerAdapter.js'
+import { getRetailerAdapterMode, getRetailerConfigs } from './retailerConfigs.js'
+import type {
+  RetailerAdapter,
+  RetailerAdapterMode,
+  RetailerConfig,
+  RetailerName,
+} from '../../types/index.js'
+
+type AdapterFactory = (config: RetailerConfig) => RetailerAdapter
+
+const liveAdapters: Record<RetailerName, AdapterFactory> = {
+  amazon: (config) => new AmazonAdapter(config),
+  flipkart: (config) => new FlipkartAdapter(config),
+  myntra: (config) => new MyntraAdapter(config),
+  meesho: (config) => new MeeshoAdapter(config),
+}
+
+export class RetailerRegistry {
+  private readonly adapters = new Map<RetailerName, RetailerAdapter>()
+
+  constructor(adapters: RetailerAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter))
+  }
+
+  // Build one adapter per configured retailer. Disabled retailers are still
+  // registered so callers can report them, but are skipped by getEnabled().
+  static fromConfigs(
+    configs: RetailerConfig[] = getRetailerConfigs(),
+    mode: RetailerAdapterMode = getRetailerAdapterMode()
+  ): RetailerRegistry {
+    return new RetailerRegistry(
+      configs.map(config =>
+        mode === 'mock' ? new MockRetailerAdapter(config) : liveAdapters[config.name](config)
+      )
+    )
+  }
+
+  register(adapter: RetailerAdapter): void {
+    this.adapters.set(adapter.name, adapter)
+  }
+
+  get(retailer: RetailerName): RetailerAdapter | undefined {
+    return this.adapters.get(retailer)
+  }
+
+  getAll(): RetailerAdapter[] {
+    return Array.from(this.adapters.values())
+  }
+
+  getEnabled(): RetailerAdapter[] {
+    return this.getAll().filter(adapter => adapter.config.enabled)
+  }
+
+  isEnabled(retailer: RetailerName): boolean {
+    return this.get(retailer)?.config.enabled ?? false
+  }
+}
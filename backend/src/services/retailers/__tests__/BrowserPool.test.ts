@@ -0,0 +1,202 @@
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import type { Browser } from 'puppeteer'
+import { BrowserPool } from '../BrowserPool.js'
+
+jest.unmock('puppeteer')
+
+type RequestHandler = (request: { resourceType: () => string; abort: jest.Mock; continue: jest.Mock }) => void
+
+const createFakePage = () => {
+  const handlers: RequestHandler[] = []
+  return {
+    handlers,
+    goto: jest.fn().mockResolvedValue(null),
+    waitForSelector: jest.fn().mockResolvedValue(null),
+    content: jest.fn().mockResolvedValue('<html></html>'),
+    close: jest.fn().mockResolvedValue(undefined),
+    setRequestInterception: jest.fn().mockResolvedValue(undefined),
+    on: jest.fn((event: string, handler: RequestHandler) => handlers.push(handler)),
+  }
+}
+
+const createFakeBrowser = () => {
+  const pages: Array<ReturnType<typeof createFakePage>> = []
+  const disconnectHandlers: Array<() => void> = []
+  const browser = {
+    pages,
+    newPage: jest.fn(async () => {
+      const page = createFakePage()
+      pages.push(page)
+      return page
+    }),
+    close: jest.fn().mockResolvedValue(undefined),
+    on: jest.fn((event: string, handler: () => void) => {
+      if (event === 'disconnected') {
+        disconnectHandlers.push(handler)
+      }
+    }),
+    // What puppeteer does when Chromium crashes
+    disconnect: () => disconnectHandlers.forEach(handler => handler()),
+  }
+  return browser
+}
+
+const poolWith = (browser: ReturnType<typeof createFakeBrowser>, maxPages = 2) =>
+  new BrowserPool({ maxPages, launch: async () => browser as unknown as Browser })
+
+describe('BrowserPool', () => {
+  it('reuses pages between sequential fetches', async () => {
+    const browser = createFakeBrowser()
+    const pool = poolWith(browser)
+
+    await pool.fetchHtml('http://localhost/a', { timeout: 1000 })
+    await pool.fetchHtml('http://localhost/b', { timeout: 1000 })
+
+    expect(browser.newPage).toHaveBeenCalledTimes(1)
+    expect(browser.pages[0].goto).toHaveBeenCalledTimes(2)
+    expect(pool.getStats()).toEqual({ active: 0, idle: 1, waiting: 0 })
+  })
+
+  it('caps the number of pages rendering at once', async () => {
+    const browser = createFakeBrowser()
+    const pool = poolWith(browser, 2)
+    let release: () => void = () => undefined
+    const blocked = new Promise<void>(resolve => {
+      release = resolve
+    })
+    browser.newPage.mockImplementation(async () => {
+      const page = createFakePage()
+      page.goto.mockImplementation(() => blocked.then(() => null))
+      browser.pages.push(page)
+      return page
+    })
+
+    const fetches = [1, 2, 3].map(n => pool.fetchHtml(`http://localhost/${n}`, { timeout: 1000 }))
+    await new Promise(resolve => setImmediate(resolve))
+
+    expect(browser.newPage).toHaveBeenCalledTimes(2)
+    expect(pool.getStats()).toEqual({ active: 2, idle: 0, waiting: 1 })
+
+    release()
+    await Promise.all(fetches)
+
+    expect(browser.newPage).toHaveBeenCalledTimes(2)
+    expect(pool.getStats()).toEqual({ active: 0, idle: 2, waiting: 0 })
+  })
+
+  it('blocks images and fonts but lets documents through', async () => {
+    const browser = createFakeBrowser()
+    await poolWith(browser).fetchHtml('http://localhost/', { timeout: 1000 })
+
+    const page = browser.pages[0]
+    const makeRequest = (type: string) => ({
+      resourceType: () => type,
+      abort: jest.fn().mockResolvedValue(undefined),
+      continue: jest.fn().mockResolvedValue(undefined),
+    })
+    const image = makeRequest('image')
+    const font = makeRequest('font')
+    const document = makeRequest('document')
+    page.handlers.forEach(handler => [image, font, document].forEach(handler))
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true)
+    expect(image.abort).toHaveBeenCalled()
+    expect(font.abort).toHaveBeenCalled()
+    expect(document.continue).toHaveBeenCalled()
+    expect(document.abort).not.toHaveBeenCalled()
+  })
+
+  it('discards a page whose navigation failed', async () => {
+    const browser = createFakeBrowser()
+    const pool = poolWith(browser)
+    browser.newPage.mockImplementationOnce(async () => {
+      const page = createFakePage()
+      page.goto.mockRejectedValue(new Error('net::ERR_CONNECTION_REFUSED'))
+      browser.pages.push(page)
+      return page
+    })
+
+    await expect(pool.fetchHtml('http://localhost/', { timeout: 1000 })).rejects.toThrow('ERR_CONNECTION_REFUSED')
+    expect(browser.pages[0].close).toHaveBeenCalled()
+    expect(pool.getStats()).toEqual({ active: 0, idle: 0, waiting: 0 })
+  })
+
+  it('launches a new browser after the old one disconnects', async () => {
+    const crashed = createFakeBrowser()
+    const replacement = createFakeBrowser()
+    const launch = jest.fn()
+      .mockResolvedValueOnce(crashed as unknown as Browser)
+      .mockResolvedValueOnce(replacement as unknown as Browser)
+    const pool = new BrowserPool({ maxPages: 2, launch })
+    await pool.fetchHtml('http://localhost/a', { timeout: 1000 })
+
+    crashed.disconnect()
+    await pool.fetchHtml('http://localhost/b', { timeout: 1000 })
+
+    expect(launch).toHaveBeenCalledTimes(2)
+    expect(crashed.pages[0].goto).toHaveBeenCalledTimes(1)
+    expect(replacement.pages[0].goto).toHaveBeenCalledWith('http://localhost/b', expect.anything())
+  })
+
+  it('closes the browser and refuses new work after close()', async () => {
+    const browser = createFakeBrowser()
+    const pool = poolWith(browser)
+    await pool.fetchHtml('http://localhost/', { timeout: 1000 })
+
+    await pool.close()
+
+    expect(browser.close).toHaveBeenCalled()
+    await expect(pool.fetchHtml('http://localhost/', { timeout: 1000 })).rejects.toThrow('Browser pool is closed')
+  })
+})
+
+// Needs a local Chrome: RUN_BROWSER_TESTS=true (and PUPPETEER_EXECUTABLE_PATH if not downloaded)
+const describeWithBrowser = process.env.RUN_BROWSER_TESTS === 'true' ? describe : describe.skip
+
+describeWithBrowser('BrowserPool with headless Chrome', () => {
+  const requestedPaths: string[] = []
+  let server: Server
+  let baseUrl: string
+  let pool: BrowserPool
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requestedPaths.push(req.url ?? '')
+      if (req.url === '/search') {
+        res.writeHead(200, { 'Content-Type': 'text/html' })
+        res.end(`<!doctype html><html><body>
+          <img src="/banner.png">
+          <ul class="results-base"></ul>
+          <script>
+            setTimeout(() => {
+              document.querySelector('.results-base').innerHTML =
+                '<li class="product-base" id="1"><h4 class="product-product">Rendered Shoe</h4></li>'
+            }, 50)
+          </script>
+        </body></html>`)
+        return
+      }
+      res.writeHead(404)
+      res.end()
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    pool = new BrowserPool({ maxPages: 1 })
+  }, 30000)
+
+  afterAll(async () => {
+    await pool.close()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('returns client-rendered markup and never requests blocked images', async () => {
+    const html = await pool.fetchHtml(`${baseUrl}/search`, {
+      timeout: 10000,
+      waitForSelector: 'li.product-base',
+    })
+
+    expect(html).toContain('Rendered Shoe')
+    expect(requestedPaths).not.toContain('/banner.png')
+  }, 30000)
+})
@@ -0,0 +1,148 @@
+import { CircuitBreaker, CircuitBreakerRegistry, isTransientError } from '../CircuitBreaker.js'
+
+const options = {
+  failureThreshold: 2,
+  resetTimeout: 30000,
+  maxRetries: 2,
+  baseDelay: 100,
+  maxDelay: 1000,
+}
+
+const transientError = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+
+describe('isTransientError', () => {
+  it('retries network errors, timeouts, 429 and 5xx responses', () => {
+    expect(isTransientError(transientError())).toBe(true)
+    expect(isTransientError(new Error('amazon request timed out after 10000ms'))).toBe(true)
+    expect(isTransientError(Object.assign(new Error('Too many'), { response: { status: 429 } }))).toBe(true)
+    expect(isTransientError(Object.assign(new Error('Bad gateway'), { response: { status: 502 } }))).toBe(true)
+  })
+
+  it('does not retry client errors or parsing failures', () => {
+    expect(isTransientError(Object.assign(new Error('Not found'), { response: { status: 404 } }))).toBe(false)
+    expect(isTransientError(new Error('amazon search page yielded no products'))).toBe(false)
+    expect(isTransientError('boom')).toBe(false)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('retries transient failures with exponential backoff', async () => {
+    const breaker = new CircuitBreaker('amazon', options)
+    const task = jest.fn()
+      .mockRejectedValueOnce(transientError())
+      .mockRejectedValueOnce(transientError())
+      .mockResolvedValue('ok')
+
+    const result = breaker.execute(task)
+    await jest.advanceTimersByTimeAsync(99)
+    expect(task).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(task).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(200)
+
+    await expect(result).resolves.toBe('ok')
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0, lastError: undefined })
+  })
+
+  it('sizes the time budget for every retry and backoff delay', () => {
+    const breaker = new CircuitBreaker('amazon', options)
+
+    expect(breaker.getTimeBudget(1000)).toBe(1000 + 100 + 1000 + 200 + 1000)
+    expect(new CircuitBreaker('amazon', { ...options, maxRetries: 0 }).getTimeBudget(1000)).toBe(1000)
+  })
+
+  it('does not start a retry that could not finish within the budget', async () => {
+    const breaker = new CircuitBreaker('amazon', options)
+    // The first attempt runs long, so a full second one no longer fits
+    const task = jest.fn(() => new Promise((_, reject) => {
+      setTimeout(() => reject(new Error('amazon request timed out after 1000ms')), 2500)
+    }))
+
+    const result = breaker.execute(task, 1000)
+    const settled = expect(result).rejects.toThrow('timed out')
+    await jest.advanceTimersByTimeAsync(2500)
+    await settled
+
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(breaker.getStatus()).toMatchObject({ consecutiveFailures: 1, lastError: 'amazon request timed out after 1000ms' })
+  })
+
+  it('fails permanent errors without retrying', async () => {
+    const breaker = new CircuitBreaker('amazon', options)
+    const task = jest.fn().mockRejectedValue(new Error('Blocked'))
+
+    await expect(breaker.execute(task)).rejects.toThrow('Blocked')
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(breaker.getStatus().consecutiveFailures).toBe(1)
+  })
+
+  it('opens after consecutive failures and skips calls while open', async () => {
+    const breaker = new CircuitBreaker('flipkart', options)
+    const task = jest.fn().mockRejectedValue(new Error('Blocked'))
+
+    await expect(breaker.execute(task)).rejects.toThrow('Blocked')
+    await expect(breaker.execute(task)).rejects.toThrow('Blocked')
+    await expect(breaker.execute(task)).rejects.toThrow('flipkart is temporarily unavailable')
+
+    expect(task).toHaveBeenCalledTimes(2)
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 2, lastError: 'Blocked' })
+  })
+
+  it('closes again after a successful half-open probe', async () => {
+    const breaker = new CircuitBreaker('myntra', options)
+    const failing = jest.fn().mockRejectedValue(new Error('Blocked'))
+    await expect(breaker.execute(failing)).rejects.toThrow()
+    await expect(breaker.execute(failing)).rejects.toThrow()
+
+    jest.advanceTimersByTime(options.resetTimeout)
+    let finishProbe: (value: string) => void = () => undefined
+    const probe = breaker.execute(() => new Promise<string>(resolve => {
+      finishProbe = resolve
+    }))
+
+    // Only one request probes the retailer; the rest are still skipped
+    expect(breaker.getStatus().state).toBe('half_open')
+    await expect(breaker.execute(jest.fn())).rejects.toThrow('temporarily unavailable')
+
+    finishProbe('ok')
+    await expect(probe).resolves.toBe('ok')
+    expect(breaker.getStatus().state).toBe('closed')
+  })
+
+  it('reopens without retrying when the probe fails', async () => {
+    const breaker = new CircuitBreaker('meesho', options)
+    const task = jest.fn().mockRejectedValue(new Error('Blocked'))
+    await expect(breaker.execute(task)).rejects.toThrow()
+    await expect(breaker.execute(task)).rejects.toThrow()
+
+    jest.advanceTimersByTime(options.resetTimeout)
+    task.mockRejectedValue(transientError())
+    await expect(breaker.execute(task)).rejects.toThrow('socket hang up')
+
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(breaker.getStatus().state).toBe('open')
+  })
+})
+
+describe('CircuitBreakerRegistry', () => {
+  it('keeps one breaker per retailer and reports their state', async () => {
+    const registry = new CircuitBreakerRegistry({ ...options, failureThreshold: 1 })
+
+    expect(registry.get('amazon')).toBe(registry.get('amazon'))
+    await expect(registry.get('amazon').execute(() => Promise.reject(new Error('Blocked')))).rejects.toThrow()
+
+    const statuses = registry.getStatuses()
+    expect(statuses.amazon?.state).toBe('open')
+    expect(statuses.amazon?.nextProbeAt).toBeDefined()
+    expect(statuses.flipkart).toBeUndefined()
+  })
+})
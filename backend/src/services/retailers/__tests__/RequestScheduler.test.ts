@@ -0,0 +1,103 @@
+import { RequestScheduler } from '../RequestScheduler.js'
+import type { RetailerConfig } from '../../../types/index.js'
+
+const config = (overrides: Partial<RetailerConfig> = {}): RetailerConfig => ({
+  name: 'flipkart',
+  baseUrl: 'https://www.flipkart.com',
+  searchPath: '/search',
+  enabled: true,
+  timeout: 10000,
+  rateLimit: { requests: 2, window: 1000 },
+  ...overrides,
+})
+
+const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve))
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('runs requests immediately while the bucket has tokens', async () => {
+    const scheduler = new RequestScheduler()
+    const task = jest.fn().mockResolvedValue('ok')
+
+    await expect(scheduler.schedule(config(), task)).resolves.toBe('ok')
+    await expect(scheduler.schedule(config(), task)).resolves.toBe('ok')
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('queues requests beyond the budget until tokens refill', async () => {
+    const scheduler = new RequestScheduler()
+    const task = jest.fn().mockResolvedValue('ok')
+
+    const results = [1, 2, 3, 4].map(() => scheduler.schedule(config(), task))
+    await flushPromises()
+
+    expect(task).toHaveBeenCalledTimes(2)
+    expect(scheduler.getQueueDepth('flipkart')).toBe(2)
+    expect(scheduler.getStats().flipkart).toMatchObject({ queued: 2, availableTokens: 0 })
+
+    // Two requests per second: one token every 500ms
+    jest.advanceTimersByTime(500)
+    expect(task).toHaveBeenCalledTimes(3)
+
+    jest.advanceTimersByTime(500)
+    expect(task).toHaveBeenCalledTimes(4)
+    expect(scheduler.getQueueDepth('flipkart')).toBe(0)
+
+    await expect(Promise.all(results)).resolves.toEqual(['ok', 'ok', 'ok', 'ok'])
+  })
+
+  it('keeps separate budgets per retailer', async () => {
+    const scheduler = new RequestScheduler()
+    const task = jest.fn().mockResolvedValue('ok')
+
+    scheduler.schedule(config(), task)
+    scheduler.schedule(config(), task)
+    scheduler.schedule(config(), task)
+    scheduler.schedule(config({ name: 'amazon' }), task)
+    await flushPromises()
+
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(scheduler.getQueueDepth('flipkart')).toBe(1)
+    expect(scheduler.getQueueDepth('amazon')).toBe(0)
+  })
+
+  it('times out requests that wait too long in the queue', async () => {
+    const scheduler = new RequestScheduler()
+    const slowConfig = config({ timeout: 300, rateLimit: { requests: 1, window: 60000 } })
+    const task = jest.fn().mockResolvedValue('ok')
+
+    await scheduler.schedule(slowConfig, task)
+    const queued = scheduler.schedule(slowConfig, task)
+
+    jest.advanceTimersByTime(300)
+    await expect(queued).rejects.toThrow('flipkart request timed out after 300ms')
+    expect(scheduler.getQueueDepth('flipkart')).toBe(0)
+    expect(task).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out requests that run longer than the retailer timeout', async () => {
+    const scheduler = new RequestScheduler()
+    const pending = scheduler.schedule(config({ timeout: 200 }), () => new Promise(() => undefined))
+
+    jest.advanceTimersByTime(200)
+    await expect(pending).rejects.toThrow('timed out after 200ms')
+  })
+
+  it('rejects new requests when the queue is full', async () => {
+    const scheduler = new RequestScheduler(1)
+    const limited = config({ rateLimit: { requests: 1, window: 60000 } })
+    const task = jest.fn().mockResolvedValue('ok')
+
+    await scheduler.schedule(limited, task)
+    scheduler.schedule(limited, task).catch(() => undefined)
+
+    await expect(scheduler.schedule(limited, task)).rejects.toThrow('flipkart request queue is full')
+  })
+})
@@ -0,0 +1,84 @@
+import { RetailerRegistry } from '../RetailerRegistry.js'
+import { MockRetailerAdapter } from '../MockRetailerAdapter.js'
+import { AmazonAdapter } from '../AmazonAdapter.js'
+import { getRetailerConfigs } from '../retailerConfigs.js'
+import type { ProductQuery, RetailerConfig } from '../../../types/index.js'
+
+const query: ProductQuery = {
+  description: 'running shoes',
+  pincode: '110001',
+  confidence: 1,
+}
+
+describe('RetailerRegistry', () => {
+  let configs: RetailerConfig[]
+
+  beforeEach(() => {
+    configs = getRetailerConfigs()
+  })
+
+  it('builds mock adapters for every configured retailer', () => {
+    const registry = RetailerRegistry.fromConfigs(configs, 'mock')
+
+    expect(registry.getAll().map(adapter => adapter.name)).toEqual(['amazon', 'flipkart', 'myntra', 'meesho'])
+    registry.getAll().forEach(adapter => expect(adapter).toBeInstanceOf(MockRetailerAdapter))
+  })
+
+  it('builds retailer-specific adapters in live mode', () => {
+    const registry = RetailerRegistry.fromConfigs(configs, 'live')
+
+    expect(registry.get('amazon')).toBeInstanceOf(AmazonAdapter)
+    expect(registry.get('amazon')?.config.baseUrl).toBe('https://www.amazon.in')
+  })
+
+  it('excludes disabled retailers from getEnabled', () => {
+    const registry = RetailerRegistry.fromConfigs(
+      configs.map(config => (config.name === 'myntra' ? { ...config, enabled: false } : config)),
+      'mock'
+    )
+
+    expect(registry.getEnabled().map(adapter => adapter.name)).toEqual(['amazon', 'flipkart', 'meesho'])
+    expect(registry.isEnabled('myntra')).toBe(false)
+  })
+
+  it('reads enabled flags from the environment', () => {
+    process.env.MEESHO_ENABLED = 'false'
+
+    try {
+      const meesho = getRetailerConfigs().find(config => config.name === 'meesho')
+      expect(meesho?.enabled).toBe(false)
+    } finally {
+      delete process.env.MEESHO_ENABLED
+    }
+  })
+})
+
+describe('MockRetailerAdapter', () => {
+  it('returns products tagged with its retailer and remembers them', async () => {
+    const adapter = new MockRetailerAdapter(getRetailerConfigs()[1])
+
+    const products = await adapter.search(query)
+
+    expect(products).toHaveLength(3)
+    products.forEach(product => expect(product.retailer).toBe('flipkart'))
+    expect(await adapter.getProduct(products[0].id)).toBe(products[0])
+    expect(await adapter.getProduct('unknown')).toBeNull()
+  })
+
+  it('forgets the oldest products once it holds its maximum', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z') })
+    try {
+      const adapter = new MockRetailerAdapter(getRetailerConfigs()[1], undefined, undefined, 4)
+
+      const first = await adapter.search(query)
+      jest.advanceTimersByTime(1)
+      const second = await adapter.search(query)
+
+      expect(await adapter.getProduct(first[1].id)).toBeNull()
+      expect(await adapter.getProduct(first[2].id)).toBe(first[2])
+      expect(await adapter.getProduct(second[2].id)).toBe(second[2])
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,173 @@
+import { load } from 'cheerio'
+import type { Cheerio } from 'cheerio'
+import type { AnyNode } from 'domhandler'
+import { logger } from '../../../utils/logger.js'
+import { normalizeText, parsePrice, parseRating, parseReviewCount } from './normalize.js'
+import {
+  REQUIRED_FIELDS,
+  searchPageSelectors,
+  type ExtractedField,
+  type FieldSelector,
+  type SearchPageSelectors,
+} from './selectors.js'
+import type { Product, RetailerName } from '../../../types/index.js'
+
+export interface ExtractionIssue {
+  index: number
+  missing: ExtractedField[]
+  skipped: boolean
+}
+
+export interface ExtractionResult {
+  products: Product[]
+  itemCount: number
+  // How many items each field could not be read from
+  missingFields: Partial<Record<ExtractedField, number>>
+  issues: ExtractionIssue[]
+}
+
+export class HtmlProductExtractor {
+  constructor(
+    private readonly retailer: RetailerName,
+    private readonly baseUrl: string,
+    private readonly selectors: SearchPageSelectors = searchPageSelectors[retailer]
+  ) {}
+
+  // Extract products from a search results page. Items missing a required
+  // field are skipped; every missing field is recorded in the result.
+  extract(html: string): ExtractionResult {
+    const $ = load(html)
+    const items = $(this.selectors.item)
+    const result: ExtractionResult = {
+      products: [],
+      itemCount: items.length,
+      missingFields: {},
+      issues: [],
+    }
+
+    items.each((index, element) => {
+      const { product, missing } = this.extractItem($(element))
+
+      missing.forEach(field => {
+        result.missingFields[field] = (result.missingFields[field] ?? 0) + 1
+      })
+
+      if (missing.length > 0) {
+        result.issues.push({ index, missing, skipped: product === null })
+      }
+      if (product) {
+        result.products.push(product)
+      }
+    })
+
+    return result
+  }
+
+  // Like extract(), but fails loudly when the page yields nothing usable so a
+  // broken selector is not mistaken for "no results".
+  extractOrThrow(html: string): Product[] {
+    const result = this.extract(html)
+
+    if (result.itemCount === 0) {
+      throw new Error(
+        `${this.retailer} search page matched no items for selector "${this.selectors.item}"`
+      )
+    }
+
+    const missing = Object.keys(result.missingFields)
+    if (result.products.length === 0) {
+      throw new Error(
+        `${this.retailer} search page yielded no products; missing fields: ${missing.join(', ')}`
+      )
+    }
+
+    if (missing.length > 0) {
+      logger.warn(`${this.retailer} search page has missing fields`, {
+        missingFields: result.missingFields,
+        itemCount: result.itemCount,
+        productCount: result.products.length,
+      })
+    }
+
+    return result.products
+  }
+
+  private extractItem(item: Cheerio<AnyNode>): { product: Product | null; missing: ExtractedField[] } {
+    const read = (field: ExtractedField): string | null => {
+      const spec = this.selectors.fields[field]
+      return spec ? this.readField(item, spec) : null
+    }
+
+    const id = read('id')
+    const name = read('name')
+    const price = parsePrice(read('price'))
+    const url = read('url')
+    const originalPrice = parsePrice(read('originalPrice'))
+    const rating = parseRating(read('rating'))
+    const reviewCount = parseReviewCount(read('reviewCount'))
+    const image = read('image')
+    const brand = read('brand')
+
+    const values: Record<ExtractedField, unknown> = {
+      id, name, price, url, originalPrice, rating, reviewCount, image, brand,
+    }
+    const missing = (Object.keys(this.selectors.fields) as ExtractedField[])
+      .filter(field => values[field] === null)
+
+    if (REQUIRED_FIELDS.some(field => values[field] === null)) {
+      return { product: null, missing }
+    }
+
+    const product: Product = {
+      id: `${this.retailer}-${id}`,
+      retailer: this.retailer,
+      name: name!,
+      brand: brand ?? name!.split(' ')[0],
+      price: price!,
+      originalPrice: originalPrice !== null && originalPrice > price! ? originalPrice : undefined,
+      currency: '₹',
+      image: image ? this.resolveUrl(image) : '',
+      description: name!,
+      specifications: {},
+      availability: true,
+      deliveryInfo: {
+        available: true,
+        eta: '',
+        cost: 0,
+      },
+      rating: rating ?? 0,
+      reviewCount: reviewCount ?? 0,
+      matchScore: 0,
+      explanation: '',
+      highlights: [],
+      retailerUrl: this.resolveUrl(url!),
+      lastUpdated: new Date(),
+    }
+
+    return { product, missing }
+  }
+
+  private readField(item: Cheerio<AnyNode>, spec: FieldSelector): string | null {
+    const element = spec.selector ? item.find(spec.selector).first() : item
+    if (element.length === 0) {
+      return null
+    }
+
+    const raw = spec.attr ? element.attr(spec.attr) : element.text()
+    const value = normalizeText(raw)
+    if (!value || !spec.pattern) {
+      return value
+    }
+
+    const match = value.match(spec.pattern)
+    return match ? normalizeText(match[1]) : null
+  }
+
+  private resolveUrl(url: string): string {
+    try {
+      return new URL(url, this.baseUrl).toString()
+    } catch {
+      return url
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { HtmlProductExtractor } from '../HtmlProductExtractor.js'
+import { getRetailerConfigs } from '../../retailerConfigs.js'
+import type { RetailerName } from '../../../../types/index.js'
+
+const loadFixture = (retailer: RetailerName): string =>
+  readFileSync(join(__dirname, 'fixtures', `${retailer}-search.html`), 'utf-8')
+
+const extractorFor = (retailer: RetailerName): HtmlProductExtractor => {
+  const config = getRetailerConfigs().find(c => c.name === retailer)!
+  return new HtmlProductExtractor(retailer, config.baseUrl)
+}
+
+describe('HtmlProductExtractor', () => {
+  describe('amazon', () => {
+    it('extracts products from the search fixture', () => {
+      const result = extractorFor('amazon').extract(loadFixture('amazon'))
+
+      expect(result.itemCount).toBe(3)
+      expect(result.products).toHaveLength(3)
+      expect(result.products[0]).toMatchObject({
+        id: 'amazon-B0C1KXJ7QZ',
+        retailer: 'amazon',
+        name: "Men's Gel-Contend 8 Running Shoes",
+        brand: 'ASICS',
+        price: 2799,
+        originalPrice: 4999,
+        rating: 4.3,
+        reviewCount: 2817,
+        image: 'https://m.media-amazon.com/images/I/71asics.jpg',
+        retailerUrl: 'https://www.amazon.in/ASICS-Gel-Contend-Running-Shoes/dp/B0C1KXJ7QZ/ref=sr_1_1',
+      })
+      expect(result.products[1].originalPrice).toBeUndefined()
+    })
+
+    it('reports optional fields that did not match', () => {
+      const result = extractorFor('amazon').extract(loadFixture('amazon'))
+
+      // The second result is not discounted; the third has no brand row and no rating block
+      expect(result.missingFields).toEqual({ brand: 1, originalPrice: 1, rating: 1, reviewCount: 1 })
+      expect(result.issues).toEqual([
+        { index: 1, missing: ['originalPrice'], skipped: false },
+        { index: 2, missing: ['brand', 'rating', 'reviewCount'], skipped: false },
+      ])
+      expect(result.products[2]).toMatchObject({ brand: 'Puma', rating: 0, reviewCount: 0 })
+    })
+  })
+
+  describe('flipkart', () => {
+    it('extracts products from the search fixture', () => {
+      const result = extractorFor('flipkart').extract(loadFixture('flipkart'))
+
+      expect(result.products.map(p => p.id)).toEqual([
+        'flipkart-SHOGBQJZTXFHFZRE',
+        'flipkart-SHOH2ZHPGCEGJNUG',
+        'flipkart-SHOGZ6YJXGFHBCRD',
+      ])
+      expect(result.products[0]).toMatchObject({
+        brand: 'ASIAN',
+        price: 499,
+        originalPrice: 1299,
+        rating: 3.9,
+        reviewCount: 102344,
+      })
+      expect(result.products[0].retailerUrl).toMatch(/^https:\/\/www\.flipkart\.com\/asian-wonder-13/)
+      expect(result.missingFields).toEqual({ originalPrice: 1, rating: 1, reviewCount: 1 })
+    })
+  })
+
+  describe('myntra', () => {
+    it('extracts products from the search fixture', () => {
+      const result = extractorFor('myntra').extract(loadFixture('myntra'))
+
+      expect(result.products).toHaveLength(3)
+      expect(result.products[0]).toMatchObject({
+        id: 'myntra-24890112',
+        name: 'Men Revolution 7 Running Shoes',
+        brand: 'Nike',
+        price: 3196,
+        originalPrice: 3995,
+        rating: 4.4,
+        reviewCount: 1200,
+        retailerUrl: 'https://www.myntra.com/sports-shoes/nike/nike-men-revolution-7-running-shoes/24890112/buy',
+      })
+      expect(result.products[2].price).toBe(1499)
+    })
+  })
+
+  describe('meesho', () => {
+    it('extracts products from the search fixture', () => {
+      const result = extractorFor('meesho').extract(loadFixture('meesho'))
+
+      expect(result.products).toHaveLength(3)
+      expect(result.products[0]).toMatchObject({
+        id: 'meesho-4ab2cz',
+        name: 'Trendy Men Sports Shoes',
+        brand: 'Trendy',
+        price: 389,
+        originalPrice: 499,
+        rating: 4.1,
+        reviewCount: 9312,
+        retailerUrl: 'https://www.meesho.com/trendy-men-sports-shoes/p/4ab2cz',
+      })
+      expect(result.products[1].reviewCount).toBe(1400)
+    })
+  })
+
+  describe('broken selectors', () => {
+    it('skips items missing a required field and says which field', () => {
+      const html = loadFixture('flipkart').replace(/class="Nx9bqj"/g, 'class="renamed"')
+
+      const result = extractorFor('flipkart').extract(html)
+
+      expect(result.products).toHaveLength(0)
+      expect(result.missingFields.price).toBe(3)
+      expect(result.issues.every(issue => issue.skipped && issue.missing.includes('price'))).toBe(true)
+      expect(() => extractorFor('flipkart').extractOrThrow(html)).toThrow(
+        'flipkart search page yielded no products; missing fields: price'
+      )
+    })
+
+    it('fails when the item selector matches nothing', () => {
+      const html = loadFixture('myntra').replace(/product-base/g, 'product-card')
+
+      expect(() => extractorFor('myntra').extractOrThrow(html)).toThrow(
+        'myntra search page matched no items for selector "li.product-base"'
+      )
+    })
+
+    it('returns the products it could build when only optional fields are missing', () => {
+      expect(extractorFor('amazon').extractOrThrow(loadFixture('amazon'))).toHaveLength(3)
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { normalizeText, parsePrice, parseRating, parseReviewCount } from '../normalize.js'
+
+describe('normalize', () => {
+  describe('parsePrice', () => {
+    it('parses rupee amounts with Indian digit grouping', () => {
+      expect(parsePrice('₹1,29,999')).toBe(129999)
+      expect(parsePrice('Rs. 499')).toBe(499)
+      expect(parsePrice('₹8,999.00')).toBe(8999)
+      expect(parsePrice(' ₹ 2,639 ')).toBe(2639)
+    })
+
+    it('returns null when there is no amount', () => {
+      expect(parsePrice('Currently unavailable')).toBeNull()
+      expect(parsePrice(undefined)).toBeNull()
+    })
+  })
+
+  describe('parseRating', () => {
+    it('parses ratings in retailer formats', () => {
+      expect(parseRating('4.3 out of 5 stars')).toBe(4.3)
+      expect(parseRating('3.9')).toBe(3.9)
+      expect(parseRating('4★')).toBe(4)
+    })
+
+    it('rejects values outside 0-5', () => {
+      expect(parseRating('12')).toBeNull()
+      expect(parseRating('')).toBeNull()
+    })
+  })
+
+  describe('parseReviewCount', () => {
+    it('parses plain and grouped counts', () => {
+      expect(parseReviewCount('2,817')).toBe(2817)
+      expect(parseReviewCount('(1,02,344)')).toBe(102344)
+      expect(parseReviewCount('9,312 Reviews')).toBe(9312)
+    })
+
+    it('expands k and lakh suffixes', () => {
+      expect(parseReviewCount('| 1.2k')).toBe(1200)
+      expect(parseReviewCount('1.4K Reviews')).toBe(1400)
+      expect(parseReviewCount('1.5 Lakh Ratings')).toBe(150000)
+    })
+
+    it('returns null when there is no count', () => {
+      expect(parseReviewCount('No reviews yet')).toBeNull()
+    })
+  })
+
+  describe('normalizeText', () => {
+    it('collapses whitespace and treats empty text as missing', () => {
+      expect(normalizeText('  Men\n  Running   Shoes ')).toBe('Men Running Shoes')
+      expect(normalizeText('   ')).toBeNull()
+      expect(normalizeText(null)).toBeNull()
+    })
+  })
+})
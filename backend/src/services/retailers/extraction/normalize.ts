@@ -0,0 +1,71 @@
+/**
+ * Normalisation helpers for values scraped from retailer pages
+ */
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  thousand: 1000,
+  l: 100000,
+  lac: 100000,
+  lakh: 100000,
+  m: 1000000,
+  cr: 10000000,
+  crore: 10000000,
+}
+
+const cleanText = (text: string | undefined | null): string => {
+  return (text ?? '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Parses a displayed price such as "₹1,29,999.00" or "Rs. 499" into rupees.
+ * Returns null when no amount can be found.
+ */
+export const parsePrice = (text: string | undefined | null): number | null => {
+  const match = cleanText(text).replace(/,/g, '').match(/(\d+(?:\.\d+)?)/)
+  if (!match) {
+    return null
+  }
+
+  const amount = parseFloat(match[1])
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null
+}
+
+/**
+ * Parses a rating such as "4.2 out of 5 stars" or "4.2★" into a 0-5 number.
+ * Returns null when the text has no usable rating.
+ */
+export const parseRating = (text: string | undefined | null): number | null => {
+  const match = cleanText(text).match(/(\d+(?:\.\d+)?)/)
+  if (!match) {
+    return null
+  }
+
+  const rating = parseFloat(match[1])
+  return rating >= 0 && rating <= 5 ? rating : null
+}
+
+/**
+ * Parses a review or rating count such as "(1,234)", "2.3k ratings" or
+ * "1.2 Lakh Reviews" into a whole number.
+ */
+export const parseReviewCount = (text: string | undefined | null): number | null => {
+  const match = cleanText(text)
+    .toLowerCase()
+    .replace(/,/g, '')
+    .match(/(\d+(?:\.\d+)?)\s*(k|thousand|lakh|lac|l|m|crore|cr)?\b/)
+  if (!match) {
+    return null
+  }
+
+  const multiplier = match[2] ? MULTIPLIERS[match[2]] : 1
+  return Math.round(parseFloat(match[1]) * multiplier)
+}
+
+/**
+ * Collapses whitespace in scraped text; returns null for empty strings.
+ */
+export const normalizeText = (text: string | undefined | null): string | null => {
+  const cleaned = cleanText(text)
+  return cleaned.length > 0 ? cleaned : null
+}
@@ -0,0 +1,92 @@
+import type { RetailerName } from '../../../types/index.js'
+
+export interface FieldSelector {
+  // CSS selector relative to the result item; omit to read the item itself
+  selector?: string
+  // Attribute to read instead of the element text
+  attr?: string
+  // Optional pattern whose first capture group is the value
+  pattern?: RegExp
+}
+
+export type ExtractedField =
+  | 'id'
+  | 'name'
+  | 'brand'
+  | 'price'
+  | 'originalPrice'
+  | 'rating'
+  | 'reviewCount'
+  | 'image'
+  | 'url'
+
+export interface SearchPageSelectors {
+  // Selector matching one product card on the search results page
+  item: string
+  fields: Partial<Record<ExtractedField, FieldSelector>> &
+    Record<'id' | 'name' | 'price' | 'url', FieldSelector>
+}
+
+// Fields a product cannot be built without. Everything else is optional but
+// still reported when its selector stops matching.
+export const REQUIRED_FIELDS: ExtractedField[] = ['id', 'name', 'price', 'url']
+
+// Selector maps for each retailer's search results page. Keep these in sync
+// with the fixtures in __tests__/fixtures when a retailer changes its markup.
+export const searchPageSelectors: Record<RetailerName, SearchPageSelectors> = {
+  amazon: {
+    item: 'div[data-component-type="s-search-result"]',
+    fields: {
+      id: { attr: 'data-asin' },
+      name: { selector: 'h2 span' },
+      brand: { selector: 'h5 span.a-color-base' },
+      price: { selector: '.a-price:not(.a-text-price) .a-offscreen' },
+      originalPrice: { selector: '.a-price.a-text-price .a-offscreen' },
+      rating: { selector: 'i.a-icon-star-small .a-icon-alt, .a-icon-alt' },
+      reviewCount: { selector: 'span.a-size-base.s-underline-text' },
+      image: { selector: 'img.s-image', attr: 'src' },
+      url: { selector: 'h2 a, a.a-link-normal.s-no-outline', attr: 'href' },
+    },
+  },
+  flipkart: {
+    item: 'div[data-id]',
+    fields: {
+      id: { attr: 'data-id' },
+      name: { selector: 'div.KzDlHZ, a.wjcEIp, a.WKTcLC' },
+      brand: { selector: 'div.syl9yP' },
+      price: { selector: 'div.Nx9bqj' },
+      originalPrice: { selector: 'div.yRaY8j' },
+      rating: { selector: 'div.XQDdHH' },
+      reviewCount: { selector: 'span.Wphh3N' },
+      image: { selector: 'img.DByuf4, img._53J4C-', attr: 'src' },
+      url: { selector: 'a.CGtC98, a.wjcEIp, a.rPDeLR', attr: 'href' },
+    },
+  },
+  myntra: {
+    item: 'li.product-base',
+    fields: {
+      id: { attr: 'id' },
+      name: { selector: 'h4.product-product' },
+      brand: { selector: 'h3.product-brand' },
+      price: { selector: 'span.product-discountedPrice, div.product-price > span:only-child' },
+      originalPrice: { selector: 'span.product-strike' },
+      rating: { selector: 'div.product-ratingsContainer > span' },
+      reviewCount: { selector: 'div.product-ratingsCount' },
+      image: { selector: 'img.img-responsive', attr: 'src' },
+      url: { selector: 'a', attr: 'href' },
+    },
+  },
+  meesho: {
+    item: 'div[class*="ProductList__GridCol"]',
+    fields: {
+      id: { selector: 'a', attr: 'href', pattern: /\/p\/([a-z0-9]+)/i },
+      name: { selector: 'p[class*="ProductTitle"]' },
+      price: { selector: 'h5' },
+      originalPrice: { selector: 'p[class*="StrikedPrice"], span[class*="StrikedPrice"]' },
+      rating: { selector: 'span[class*="Rating"] span, span[label]' },
+      reviewCount: { selector: 'span[class*="RatingCount"]' },
+      image: { selector: 'img', attr: 'src' },
+      url: { selector: 'a', attr: 'href' },
+    },
+  },
+}
@@ -0,0 +1,84 @@
+import type {
+  RetailerAdapterMode,
+  RetailerConfig,
+  RetailerFetchMode,
+  RetailerName,
+} from '../../types/index.js'
+
+const DEFAULT_TIMEOUT = 10000 // 10 seconds
+
+const isEnabled = (value: string | undefined): boolean => value !== 'false'
+
+const getFetchMode = (value: string | undefined, fallback: RetailerFetchMode): RetailerFetchMode => {
+  return value === 'http' || value === 'browser' ? value : fallback
+}
+
+const getCacheTtl = (value: string | undefined, fallback: number): number => {
+  const ttl = Number(value)
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : fallback
+}
+
+const getTimeout = (): number => {
+  const timeout = Number(process.env.SCRAPING_TIMEOUT)
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT
+}
+
+// Build the retailer configuration from the environment. Each retailer can be
+// switched off with <RETAILER>_ENABLED=false and its page fetching switched
+// between plain HTTP and a headless browser with <RETAILER>_FETCH_MODE.
+// <RETAILER>_CACHE_TTL (ms) controls how long its search results stay fresh.
+export const getRetailerConfigs = (): RetailerConfig[] => {
+  const timeout = getTimeout()
+
+  return [
+    {
+      name: 'amazon',
+      baseUrl: 'https://www.amazon.in',
+      searchPath: '/s',
+      enabled: isEnabled(process.env.AMAZON_ENABLED),
+      timeout,
+      rateLimit: { requests: 10, window: 60000 },
+      fetchMode: getFetchMode(process.env.AMAZON_FETCH_MODE, 'http'),
+      cacheTtl: getCacheTtl(process.env.AMAZON_CACHE_TTL, 600000),
+    },
+    {
+      name: 'flipkart',
+      baseUrl: 'https://www.flipkart.com',
+      searchPath: '/search',
+      enabled: isEnabled(process.env.FLIPKART_ENABLED),
+      timeout,
+      rateLimit: { requests: 10, window: 60000 },
+      fetchMode: getFetchMode(process.env.FLIPKART_FETCH_MODE, 'http'),
+      cacheTtl: getCacheTtl(process.env.FLIPKART_CACHE_TTL, 600000),
+    },
+    {
+      name: 'myntra',
+      baseUrl: 'https://www.myntra.com',
+      searchPath: '/',
+      enabled: isEnabled(process.env.MYNTRA_ENABLED),
+      timeout,
+      rateLimit: { requests: 5, window: 60000 },
+      // Myntra renders its product grid client-side
+      fetchMode: getFetchMode(process.env.MYNTRA_FETCH_MODE, 'browser'),
+      cacheTtl: getCacheTtl(process.env.MYNTRA_CACHE_TTL, 1800000),
+    },
+    {
+      name: 'meesho',
+      baseUrl: 'https://www.meesho.com',
+      searchPath: '/search',
+      enabled: isEnabled(process.env.MEESHO_ENABLED),
+      timeout,
+      rateLimit: { requests: 5, window: 60000 },
+      fetchMode: getFetchMode(process.env.MEESHO_FETCH_MODE, 'http'),
+      cacheTtl: getCacheTtl(process.env.MEESHO_CACHE_TTL, 1800000),
+    },
+  ]
+}
+
+// Mock adapters are used unless live retailer adapters are explicitly requested,
+// so development and tests never hit retailer sites by accident.
+export const getRetailerAdapterMode = (): RetailerAdapterMode => {
+  return process.env.RETAILER_ADAPTER_MODE === 'live' ? 'live' : 'mock'
+}
+
+export const RETAILER_NAMES: RetailerName[] = ['amazon', 'flipkart', 'myntra', 'meesho']
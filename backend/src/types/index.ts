@@ -5,23 +5,169 @@ export interface ProductQuery {
   pincode: string
   budget?: {
     min: number
-    max: number
+    // Left out for an open-ended budget ("above 10000")
+    max?: number
   }
   filters?: {
     brands?: string[]
     size?: string
     color?: string
     specifications?: Record<string, string>
+    // Brands the shopper ruled out, e.g. "not Nike" in a conversation
+    excludeBrands?: string[]
   }
   confidence: number
+  // Parsed intent for the description, used to rank results when present
+  intent?: ParsedIntent
+  // Used for the landed price; prepaid unless set
+  paymentMethod?: PaymentMethod
+  // Card issuer for bank offers, e.g. 'hdfc'
+  bank?: string
+  // 'effective_price' orders each retailer's products by landed price
+  sortBy?: SearchSortOrder
+  // Only these retailers are searched; the rest are reported as skipped
+  retailers?: RetailerName[]
+  // Taxonomy id, e.g. 'fashion.footwear.running-shoes'
+  category?: string
 }
 
+export type PaymentMethod = 'prepaid' | 'cod'
+
+export type SearchSortOrder = 'relevance' | 'effective_price'
+
 export interface ParsedIntent {
   productType: string
-  budget: { min: number; max: number } | null
+  budget: BudgetRange | null
   features: string[]
   brand?: string
+  // Keys and values follow the category's attribute schema when one matched
   specifications?: Record<string, string>
+  category?: CategoryRef
+}
+
+export interface CategoryRef {
+  id: string
+  name: string
+  // Names from the root down, e.g. ['Fashion', 'Footwear', 'Running Shoes']
+  path: string[]
+}
+
+// select = one of values, size = a number in one of the size systems
+export type CategoryAttributeKind = 'select' | 'size'
+
+export interface CategoryAttribute {
+  key: string
+  label: string
+  kind: CategoryAttributeKind
+  values?: string[]
+  // e.g. { UK: ['3', ..., '12'], EU: [...] }; values are stored as "UK 9"
+  sizeSystems?: Record<string, string[]>
+  // Other names for the key that parsers and clients may use
+  aliases?: string[]
+  // Other spellings of values, e.g. { large: 'L' }
+  valueAliases?: Record<string, string>
+}
+
+export interface CategoryNode {
+  id: string
+  name: string
+  children: CategoryNode[]
+}
+
+export interface CategoryFilters {
+  category: CategoryRef
+  // Own attributes plus those inherited from parent categories
+  filters: CategoryAttribute[]
+}
+
+export interface BudgetRange {
+  min: number
+  // null when only a lower bound was given ("above 10000")
+  max: number | null
+  // Set by the rule-based parser: how sure it is of the budget phrase (0-1)
+  confidence?: number
+}
+
+// model = valid on the first answer, repair = valid after one correction
+// request, fallback = keyword rules because the model could not be used
+export type IntentSource = 'model' | 'repair' | 'fallback'
+
+export interface IntentParseResult {
+  intent: ParsedIntent
+  source: IntentSource
+  // How specific the intent is (0-1); below the threshold, questions are asked
+  confidence: number
+  // Empty when the intent is confident enough to search
+  questions: ClarifyingQuestion[]
+  // True when the intent came from the parse cache and no model was called
+  cached: boolean
+  usage: LlmRequestUsage
+}
+
+export type ClarifyingField = 'category' | 'budget' | 'occasion'
+
+export interface ClarifyingQuestion {
+  field: ClarifyingField
+  question: string
+  options: ClarifyingOption[]
+}
+
+export interface ClarifyingOption {
+  label: string
+  // Text that answers the question when added to the original query
+  value: string
+}
+
+export interface ExtractedEntities {
+  productType: string
+  brand: string | null
+  features: string[]
+  specifications: Record<string, string>
+  budget: BudgetRange | null
+}
+
+export interface EntityExtractionResult {
+  entities: ExtractedEntities
+  // 'fallback' only when the daily spend cap has been reached
+  source: IntentSource
+  usage: LlmRequestUsage
+}
+
+// Tokens and estimated cost (USD) of the model calls made for one request,
+// including a repair attempt
+export interface LlmRequestUsage {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+}
+
+export type LlmOperation = 'parse' | 'entities'
+
+export interface LlmDailyUsage extends LlmRequestUsage {
+  // UTC day, YYYY-MM-DD
+  date: string
+  cacheHits: number
+  // Requests answered by the rule-based fallback because the cap was reached
+  cappedRequests: number
+}
+
+export interface LlmUsageRecord extends LlmRequestUsage {
+  operation: LlmOperation
+  model: string
+  timestamp: string
+}
+
+export interface LlmSpendSummary {
+  today: LlmDailyUsage
+  // null when no cap is configured
+  dailyCap: number | null
+  capReached: boolean
+  pricing: { promptPer1K: number; completionPer1K: number }
+  // Most recent day first
+  days: LlmDailyUsage[]
+  recent: LlmUsageRecord[]
 }
 
 export interface Product {
@@ -36,11 +182,7 @@ export interface Product {
   description: string
   specifications: Record<string, string>
   availability: boolean
-  deliveryInfo: {
-    available: boolean
-    eta: string
-    cost: number
-  }
+  deliveryInfo: DeliveryInfo
   rating: number
   reviewCount: number
   matchScore: number
@@ -51,12 +193,95 @@ export interface Product {
   }>
   retailerUrl: string
   lastUpdated: Date
+  // What the buyer actually pays at the query's pincode
+  landedPrice?: LandedPrice
+}
+
+export interface LandedPrice {
+  itemPrice: number
+  deliveryCost: number
+  codFee: number
+  // Total of all discounts applied, as a positive amount
+  discount: number
+  total: number
+  paymentMethod: PaymentMethod
+  lineItems: PriceLineItem[]
+  // e.g. why cash on delivery was not possible
+  notes: string[]
+}
+
+export interface PriceLineItem {
+  type: 'item' | 'delivery' | 'cod_fee' | 'discount'
+  label: string
+  // Discounts are negative
+  amount: number
+}
+
+export interface DeliveryInfo {
+  available: boolean
+  eta: string
+  cost: number
+  // Expected dates, when the retailer's logistics are known
+  window?: DeliveryWindow
+}
+
+// YYYY-MM-DD in India time, inclusive
+export interface DeliveryWindow {
+  earliest: string
+  latest: string
+}
+
+export type DeliveryOptionType = 'standard' | 'express' | 'same_day'
+
+export interface DeliveryEstimate {
+  // The retailer's name for the option, e.g. "Prime"
+  option: string
+  type: DeliveryOptionType
+  available: boolean
+  // Why the option is not offered at this pincode
+  reason?: string
+  window: DeliveryWindow
+  // Calendar days from today
+  minDays: number
+  maxDays: number
+  // Short form, e.g. "2-3 days" or "Tomorrow"
+  eta: string
+  cost: number
+  // Last moment to order for this window, as an ISO timestamp in India time
+  orderBy: string
+  // Nearest hub and its distance; distanceKm is null when the pincode has no coordinates
+  hub: string
+  distanceKm: number | null
+}
+
+// metro = next-day cities, standard = the rest of the mainland, remote =
+// islands, the high Himalaya and the north-east
+export type ServiceZone = 'metro' | 'standard' | 'remote'
+
+export interface ServiceabilityCheck {
+  serviceable: boolean
+  zone: ServiceZone
+  // Why the retailer cannot deliver; absent when it can
+  reason?: string
 }
 
 export interface SearchResult {
-  status: 'loading' | 'success' | 'error' | 'not_deliverable'
+  // skipped = left out by the query's retailers list
+  // not_deliverable = the retailer does not serve the pincode (or not for
+  // this category); error then carries the reason
+  status: 'loading' | 'success' | 'error' | 'not_deliverable' | 'skipped'
   products: Product[]
   error?: string
+  cache?: SearchCacheInfo
+}
+
+export interface SearchCacheInfo {
+  // true when the products were served from the search cache
+  hit: boolean
+  // Age of the cached result in ms (0 for a live search)
+  ageMs: number
+  // Served past its TTL while a background refresh runs
+  stale: boolean
 }
 
 export interface RetailerSearchResults {
@@ -66,22 +291,244 @@ export interface RetailerSearchResults {
   meesho: SearchResult
 }
 
+// Headline comparisons across every retailer's results
+export interface RetailerInsights {
+  bestPrice: {
+    retailer: RetailerName
+    price: number
+    product: Product
+  } | null
+  fastestDelivery: {
+    retailer: RetailerName
+    eta: string
+    product: Product
+  } | null
+  mostOptions: {
+    retailer: RetailerName
+    count: number
+  } | null
+}
+
+// Events sent by the streaming search endpoint (POST /api/search/products/stream)
+export interface RetailerResultEvent {
+  retailer: RetailerName
+  result: SearchResult
+}
+
+export interface SearchSummaryEvent {
+  results: RetailerSearchResults
+  succeeded: number
+  // Errors and timeouts; retailers left out or not delivering are counted apart
+  failed: number
+  skipped: number
+  notDeliverable: number
+  totalProducts: number
+  durationMs: number
+  insights: RetailerInsights
+}
+
+// The same item sold by several retailers, one offer per retailer
+export interface ProductGroup {
+  id: string
+  title: string
+  brand: string
+  offers: ProductOffer[]
+  // Lowest pairwise match confidence inside the group (1 for a single offer)
+  confidence: number
+  lowestPrice: number
+}
+
+export interface ProductOffer {
+  retailer: RetailerName
+  product: Product
+  // How confidently this offer matches the rest of its group (0-1)
+  confidence: number
+}
+
 export type RetailerName = 'amazon' | 'flipkart' | 'myntra' | 'meesho'
 
+// What a conversation is searching for after every refinement so far
+export interface ConversationState {
+  intent: ParsedIntent | null
+  excludedBrands: string[]
+  // null searches every enabled retailer
+  retailers: RetailerName[] | null
+}
+
+// search = the message started a new search, refine = it changed the previous
+// one, clarify = the message was too vague to search and questions were asked
+export type ConversationTurnKind = 'search' | 'refine' | 'clarify'
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  text: string
+  timestamp: number
+  // Assistant turns carry the merged search they ran and what changed
+  kind?: ConversationTurnKind
+  state?: ConversationState
+  changes?: string[]
+  // Clarify turns: what to ask, with answers to pick from
+  questions?: ClarifyingQuestion[]
+}
+
+export interface ConversationSession {
+  id: string
+  pincode: string
+  createdAt: number
+  updatedAt: number
+  state: ConversationState
+  turns: ConversationTurn[]
+  // Middle price of the latest search, what "cheaper" is measured against;
+  // null until the first search finds anything
+  referencePrice: number | null
+  // A vague query waiting for answers; the next message is read together with it
+  clarifying: { query: string; rounds: number } | null
+}
+
+export interface ConversationReply {
+  session: ConversationSession
+  reply: ConversationTurn
+  // Both null when the reply asked questions instead of searching
+  results: RetailerSearchResults | null
+  insights: RetailerInsights | null
+}
+
 export interface ApiResponse<T> {
   success: boolean
   data?: T
   error?: string
+  // Machine-readable reason for some errors, e.g. 'PROMPT_INJECTION'
+  code?: QueryRejectionCode
   message?: string
 }
 
+// Why shopper text was refused before it reached the model
+export type QueryRejectionCode = 'PROMPT_INJECTION' | 'ABUSIVE_QUERY' | 'OFF_TOPIC_QUERY'
+
+// Personal details removed from shopper text; reported as PII_REDACTED
+export type PiiKind = 'phone' | 'email' | 'aadhaar' | 'pan' | 'card' | 'address'
+
+export type QueryGuardResult =
+  | { ok: true; text: string; redacted: PiiKind[] }
+  | { ok: false; code: QueryRejectionCode; reason: string }
+
 export interface PincodeValidationResult {
   valid: boolean
+  // The district, kept as city for older clients
   city?: string
+  district?: string
   state?: string
+  postOffices?: string[]
+  // false when every post office at the pincode is non-delivery
+  deliverable?: boolean
+  location?: GeoPoint | null
+  // local = the bundled directory; remote = the postal API, for pincodes the
+  // directory does not have
+  source?: 'local' | 'remote'
+  datasetVersion?: string
+  // Result of the optional postal API check; absent when it is turned off
+  crossCheck?: 'match' | 'mismatch' | 'unavailable'
   error?: string
 }
 
+export interface PincodeLocation {
+  city?: string
+  state?: string
+}
+
+// A retailer's delivery to one pincode
+export interface RetailerDelivery {
+  available: boolean
+  zone: ServiceZone
+  // The standard option's latest day, kept for older clients
+  estimatedDays: number
+  window: DeliveryWindow
+  orderBy: string
+  cost: number
+  // Options offered at the pincode
+  options: string[]
+  // Every option, with the reason when one is not offered
+  estimates: DeliveryEstimate[]
+  restrictions: string[]
+}
+
+export interface PincodeDeliveryInfo {
+  pincode: string
+  retailer: RetailerName
+  location: PincodeLocation
+  delivery: RetailerDelivery
+}
+
+// One pincode of a bulk check; retailers is absent when the pincode is invalid
+export interface BulkPincodeDelivery {
+  pincode: string
+  valid: boolean
+  error?: string
+  location?: PincodeLocation
+  retailers?: Partial<Record<RetailerName, RetailerDelivery>>
+}
+
+// Reverse lookup from a place name, or the start of a pincode
+export interface PincodeSuggestion {
+  pincode: string
+  district: string
+  state: string
+  // The post office or district name that matched
+  match: string
+}
+
+export interface PincodeCacheMetrics {
+  hits: number
+  // Hits from this instance's memory, and from Redis
+  localHits: number
+  sharedHits: number
+  // Hits on cached invalid or unknown pincodes
+  negativeHits: number
+  misses: number
+  writes: number
+  hitRate: number
+  // Entries in this instance's memory
+  size: number
+  maxEntries: number
+  store: 'memory' | 'redis'
+  // Most looked-up pincodes on this instance
+  topPincodes: Array<{ pincode: string; lookups: number }>
+}
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+// India Post office types: head, sub and branch office
+export type PostOfficeType = 'HO' | 'SO' | 'BO'
+
+export interface PostOffice {
+  name: string
+  type: PostOfficeType
+  delivery: boolean
+  location: GeoPoint | null
+}
+
+export interface PincodeRecord {
+  pincode: string
+  district: string
+  state: string
+  offices: PostOffice[]
+  // True when at least one office delivers
+  deliverable: boolean
+  // Average of the offices' coordinates; null when none have any
+  location: GeoPoint | null
+}
+
+// The bundled directory file (data/pincodes.json)
+export interface PincodeDataset {
+  version: string
+  source: string
+  generatedAt: string
+  pincodes: Record<string, Omit<PincodeRecord, 'pincode'>>
+}
+
 export interface UserFeedback {
   productId: string
   type: 'relevant' | 'not_relevant'
@@ -99,6 +546,24 @@ export interface RetailerConfig {
     requests: number
     window: number
   }
+  // 'browser' renders pages in headless Chrome for client-rendered listings
+  fetchMode?: RetailerFetchMode
+  // How long successful search results stay fresh in the cache (ms)
+  cacheTtl?: number
+}
+
+export type RetailerFetchMode = 'http' | 'browser'
+
+export type RetailerAdapterMode = 'mock' | 'live'
+
+// Contract every retailer integration implements. The engine only talks to
+// adapters, so a retailer can be backed by scraping, an API or mock data.
+export interface RetailerAdapter {
+  readonly name: RetailerName
+  readonly config: RetailerConfig
+  search(query: ProductQuery): Promise<Product[]>
+  getProduct(productId: string): Promise<Product | null>
+  checkDelivery(pincode: string, productId?: string): Promise<DeliveryInfo>
 }
 
 export interface ScrapingResult {
@@ -0,0 +1,126 @@
+import React, { useState } from 'react'
+import ClarifyingQuestions from './ClarifyingQuestions'
+import type { ConversationState, ConversationTurn } from '../types'
+
+interface ChatThreadProps {
+  turns: ConversationTurn[]
+  isSending?: boolean
+  onSend: (message: string) => void
+}
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+// One chip per part of the merged search: product, budget, colour, brand, exclusions, retailers
+const describeState = (state: ConversationState): string[] => {
+  const chips: string[] = []
+  const intent = state.intent
+
+  if (intent) {
+    chips.push(intent.productType)
+    const { budget } = intent
+    if (budget) {
+      if (budget.max === null) {
+        chips.push(`Above ${formatRupees(budget.min)}`)
+      } else if (budget.min > 0) {
+        chips.push(`${formatRupees(budget.min)}-${formatRupees(budget.max)}`)
+      } else {
+        chips.push(`Under ${formatRupees(budget.max)}`)
+      }
+    }
+    if (intent.specifications?.color) {
+      chips.push(capitalize(intent.specifications.color))
+    }
+    if (intent.brand) {
+      chips.push(intent.brand)
+    }
+    chips.push(...intent.features)
+  }
+
+  chips.push(...state.excludedBrands.map((brand) => `Not ${brand}`))
+  if (state.retailers) {
+    chips.push(`Only ${state.retailers.map(capitalize).join(', ')}`)
+  }
+  return chips
+}
+
+const ChatThread: React.FC<ChatThreadProps> = ({ turns, isSending = false, onSend }) => {
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const text = message.trim()
+    if (!text || isSending) {
+      return
+    }
+    onSend(text)
+    setMessage('')
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <ul className="flex flex-col space-y-3" aria-label="Conversation">
+        {turns.map((turn, index) => (
+          <li
+            key={`${turn.timestamp}-${index}`}
+            className={turn.role === 'user' ? 'self-end max-w-md' : 'self-start max-w-lg'}
+          >
+            <div
+              className={
+                turn.role === 'user'
+                  ? 'bg-primary-600 text-white rounded-lg px-4 py-2'
+                  : 'bg-gray-100 text-gray-900 rounded-lg px-4 py-2'
+              }
+            >
+              {turn.text}
+            </div>
+            {turn.state && (
+              <div className="flex flex-wrap gap-1 mt-2" data-testid="intent-chips">
+                {describeState(turn.state).map((chip) => (
+                  <span
+                    key={chip}
+                    className="text-xs bg-white border border-gray-200 text-gray-700 rounded-full px-2 py-0.5"
+                  >
+                    {chip}
+                  </span>
+                ))}
+              </div>
+            )}
+            {turn.questions && turn.questions.length > 0 && (
+              <ClarifyingQuestions
+                questions={turn.questions}
+                onAnswer={onSend}
+                disabled={isSending || index !== turns.length - 1}
+              />
+            )}
+          </li>
+        ))}
+        {isSending && (
+          <li className="self-start text-sm text-gray-500">Searching...</li>
+        )}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          className="input-field"
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          placeholder={
+            turns.length === 0
+              ? 'Running shoes under ₹3000'
+              : 'Refine: "in black", "cheaper", "not Nike", "only on Amazon"'
+          }
+          aria-label="Message"
+          maxLength={500}
+        />
+        <button type="submit" className="btn-primary" disabled={isSending || !message.trim()}>
+          Send
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default ChatThread
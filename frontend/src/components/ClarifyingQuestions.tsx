@@ -0,0 +1,36 @@
+import React from 'react'
+import type { ClarifyingQuestion } from '../types'
+
+interface ClarifyingQuestionsProps {
+  questions: ClarifyingQuestion[]
+  onAnswer: (value: string) => void
+  // Answers to an older question no longer apply
+  disabled?: boolean
+}
+
+const ClarifyingQuestions: React.FC<ClarifyingQuestionsProps> = ({ questions, onAnswer, disabled = false }) => {
+  return (
+    <div className="mt-2 space-y-2">
+      {questions.map((question) => (
+        <div key={question.field} role="group" aria-label={question.question}>
+          <p className="text-sm text-gray-700 mb-1">{question.question}</p>
+          <div className="flex flex-wrap gap-2">
+            {question.options.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                className="text-sm bg-primary-50 border border-primary-500 text-primary-700 rounded-full px-3 py-1 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => onAnswer(option.value)}
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ClarifyingQuestions
@@ -0,0 +1,61 @@
+import React from 'react'
+import type { CategoryAttribute, CategoryFilters } from '../types'
+
+interface FilterPanelProps {
+  schema: CategoryFilters
+  // Current specifications of the search, keyed like the schema
+  selected: Record<string, string>
+  // A null value clears the filter
+  onChange: (key: string, value: string | null) => void
+  disabled?: boolean
+}
+
+const renderOptions = (attribute: CategoryAttribute) => {
+  if (attribute.kind === 'size') {
+    return Object.entries(attribute.sizeSystems ?? {}).map(([system, sizes]) => (
+      <optgroup key={system} label={system}>
+        {sizes.map((size) => (
+          <option key={size} value={`${system} ${size}`}>
+            {`${system} ${size}`}
+          </option>
+        ))}
+      </optgroup>
+    ))
+  }
+
+  return (attribute.values ?? []).map((value) => (
+    <option key={value} value={value}>
+      {value}
+    </option>
+  ))
+}
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ schema, selected, onChange, disabled = false }) => {
+  if (schema.filters.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="mt-4 border-t border-gray-200 pt-4" aria-label="Filters">
+      <p className="text-sm text-gray-500 mb-2">{schema.category.path.join(' › ')}</p>
+      <div className="flex flex-wrap gap-4">
+        {schema.filters.map((attribute) => (
+          <label key={attribute.key} className="text-sm text-gray-700">
+            <span className="block mb-1">{attribute.label}</span>
+            <select
+              className="input-field"
+              value={selected[attribute.key] ?? ''}
+              onChange={(event) => onChange(attribute.key, event.target.value || null)}
+              disabled={disabled}
+            >
+              <option value="">Any</option>
+              {renderOptions(attribute)}
+            </select>
+          </label>
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export default FilterPanel
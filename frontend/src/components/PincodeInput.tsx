@@ -0,0 +1,55 @@
+import React from 'react'
+import type { PincodeSuggestion } from '../types'
+
+interface PincodeInputProps {
+  value: string
+  onChange: (value: string) => void
+  // Pincodes matching what has been typed so far; none hides the list
+  suggestions: PincodeSuggestion[]
+}
+
+const PincodeInput: React.FC<PincodeInputProps> = ({ value, onChange, suggestions }) => {
+  const open = suggestions.length > 0
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="text"
+        className="input-field"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder="Delivery pincode, city or area"
+        aria-label="Pincode"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={open}
+        aria-controls="pincode-suggestions"
+        autoComplete="off"
+        maxLength={60}
+      />
+      {open && (
+        <ul
+          id="pincode-suggestions"
+          role="listbox"
+          aria-label="Pincode suggestions"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {suggestions.map((suggestion) => (
+            <li
+              key={suggestion.pincode}
+              role="option"
+              aria-selected={false}
+              className="px-3 py-2 text-sm text-gray-700 cursor-pointer hover:bg-gray-100"
+              onClick={() => onChange(suggestion.pincode)}
+            >
+              <span className="font-medium">{suggestion.pincode}</span>
+              {` ${suggestion.match}, ${suggestion.district}, ${suggestion.state}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default PincodeInput
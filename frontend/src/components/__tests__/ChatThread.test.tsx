@@ -0,0 +1,112 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import ChatThread from '../ChatThread'
+import type { ConversationTurn } from '../../types'
+
+const turns: ConversationTurn[] = [
+  { role: 'user', text: 'running shoes under 3000', timestamp: 1 },
+  {
+    role: 'assistant',
+    text: 'Searching for running shoes under ₹3,000. Found 8 products across 4 retailers.',
+    timestamp: 2,
+    kind: 'search',
+    state: {
+      intent: { productType: 'shoes', budget: { min: 0, max: 3000 }, features: ['running'] },
+      excludedBrands: [],
+      retailers: null,
+    },
+  },
+  { role: 'user', text: 'in black, not nike, only on amazon', timestamp: 3 },
+  {
+    role: 'assistant',
+    text: 'Updated your search (Colour: black, Excluding Nike, Only on Amazon). Found 2 products across 1 retailers.',
+    timestamp: 4,
+    kind: 'refine',
+    state: {
+      intent: {
+        productType: 'shoes',
+        budget: { min: 0, max: 3000 },
+        features: ['running'],
+        specifications: { color: 'black' },
+      },
+      excludedBrands: ['Nike'],
+      retailers: ['amazon'],
+    },
+    changes: ['Colour: black', 'Excluding Nike', 'Only on Amazon'],
+  },
+]
+
+describe('ChatThread Component', () => {
+  it('renders every turn', () => {
+    render(<ChatThread turns={turns} onSend={jest.fn()} />)
+
+    expect(screen.getByText('running shoes under 3000')).toBeInTheDocument()
+    expect(screen.getByText('in black, not nike, only on amazon')).toBeInTheDocument()
+    expect(screen.getAllByRole('listitem')).toHaveLength(4)
+  })
+
+  it('shows the merged intent after each assistant turn', () => {
+    render(<ChatThread turns={turns} onSend={jest.fn()} />)
+
+    const chips = screen.getAllByTestId('intent-chips')
+    expect(chips).toHaveLength(2)
+    expect(chips[1]).toHaveTextContent('Black')
+    expect(chips[1]).toHaveTextContent('Not Nike')
+    expect(chips[1]).toHaveTextContent('Only Amazon')
+  })
+
+  it('sends the trimmed message and clears the input', () => {
+    const onSend = jest.fn()
+    render(<ChatThread turns={turns} onSend={onSend} />)
+
+    const input = screen.getByLabelText('Message')
+    fireEvent.change(input, { target: { value: '  cheaper ones ' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }))
+
+    expect(onSend).toHaveBeenCalledWith('cheaper ones')
+    expect(input).toHaveValue('')
+  })
+
+  it('does not send while a reply is pending', () => {
+    const onSend = jest.fn()
+    render(<ChatThread turns={turns} isSending onSend={onSend} />)
+
+    fireEvent.change(screen.getByLabelText('Message'), { target: { value: 'cheaper' } })
+
+    expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled()
+    expect(screen.getByText('Searching...')).toBeInTheDocument()
+  })
+
+  it('offers answers only for the latest clarifying question', () => {
+    const clarify = (timestamp: number): ConversationTurn => ({
+      role: 'assistant',
+      text: 'Could you tell me a little more so I can find the right products?',
+      timestamp,
+      kind: 'clarify',
+      questions: [{ field: 'category', question: 'What kind of product are you looking for?', options: [{ label: 'Watch', value: 'watch' }] }],
+    })
+    const onSend = jest.fn()
+    render(<ChatThread turns={[clarify(1), { role: 'user', text: 'under 1000', timestamp: 2 }, clarify(3)]} onSend={onSend} />)
+
+    const [stale, latest] = screen.getAllByRole('button', { name: 'Watch' })
+    expect(stale).toBeDisabled()
+    fireEvent.click(latest)
+
+    expect(onSend).toHaveBeenCalledWith('watch')
+  })
+
+  it('describes a lower-bound budget', () => {
+    const lowerBound: ConversationTurn = {
+      role: 'assistant',
+      text: 'Searching for tv above ₹10,000.',
+      timestamp: 5,
+      state: {
+        intent: { productType: 'tv', budget: { min: 10000, max: null }, features: [] },
+        excludedBrands: [],
+        retailers: null,
+      },
+    }
+    render(<ChatThread turns={[lowerBound]} onSend={jest.fn()} />)
+
+    expect(screen.getByTestId('intent-chips')).toHaveTextContent('Above ₹10,000')
+  })
+})
@@ -0,0 +1,51 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import ClarifyingQuestions from '../ClarifyingQuestions'
+import type { ClarifyingQuestion } from '../../types'
+
+const questions: ClarifyingQuestion[] = [
+  {
+    field: 'category',
+    question: 'What kind of product are you looking for?',
+    options: [
+      { label: 'Watch', value: 'watch' },
+      { label: 'Wallet', value: 'wallet' },
+    ],
+  },
+  {
+    field: 'budget',
+    question: 'What is your budget?',
+    options: [
+      { label: 'Under ₹1,000', value: 'under 1000' },
+      { label: 'Above ₹10,000', value: 'above 10000' },
+    ],
+  },
+]
+
+describe('ClarifyingQuestions Component', () => {
+  it('renders each question with its answers as chips', () => {
+    render(<ClarifyingQuestions questions={questions} onAnswer={jest.fn()} />)
+
+    expect(screen.getByRole('group', { name: 'What kind of product are you looking for?' })).toBeInTheDocument()
+    expect(screen.getByRole('group', { name: 'What is your budget?' })).toBeInTheDocument()
+    expect(screen.getAllByRole('button')).toHaveLength(4)
+  })
+
+  it('answers with the option value', () => {
+    const onAnswer = jest.fn()
+    render(<ClarifyingQuestions questions={questions} onAnswer={onAnswer} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Under ₹1,000' }))
+
+    expect(onAnswer).toHaveBeenCalledWith('under 1000')
+  })
+
+  it('disables the chips for an answered question', () => {
+    const onAnswer = jest.fn()
+    render(<ClarifyingQuestions questions={questions} onAnswer={onAnswer} disabled />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Watch' }))
+
+    expect(onAnswer).not.toHaveBeenCalled()
+    expect(screen.getByRole('button', { name: 'Watch' })).toBeDisabled()
+  })
+})
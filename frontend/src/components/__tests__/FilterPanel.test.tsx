@@ -0,0 +1,52 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import FilterPanel from '../FilterPanel'
+import type { CategoryFilters } from '../../types'
+
+const schema: CategoryFilters = {
+  category: {
+    id: 'fashion.footwear.running-shoes',
+    name: 'Running Shoes',
+    path: ['Fashion', 'Footwear', 'Running Shoes'],
+  },
+  filters: [
+    { key: 'color', label: 'Colour', kind: 'select', values: ['black', 'white'] },
+    { key: 'size', label: 'Shoe size', kind: 'size', sizeSystems: { UK: ['8', '9'], EU: ['42'] } },
+  ],
+}
+
+describe('FilterPanel Component', () => {
+  it('builds one filter per attribute in the schema', () => {
+    render(<FilterPanel schema={schema} selected={{}} onChange={jest.fn()} />)
+
+    expect(screen.getByText('Fashion › Footwear › Running Shoes')).toBeInTheDocument()
+    expect(screen.getByRole('combobox', { name: 'Colour' })).toHaveValue('')
+    expect(screen.getByRole('option', { name: 'white' })).toBeInTheDocument()
+    expect(screen.getByRole('group', { name: 'EU' })).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: 'UK 9' })).toHaveValue('UK 9')
+  })
+
+  it('shows the current specifications as selected', () => {
+    render(<FilterPanel schema={schema} selected={{ size: 'UK 9' }} onChange={jest.fn()} />)
+
+    expect(screen.getByRole('combobox', { name: 'Shoe size' })).toHaveValue('UK 9')
+  })
+
+  it('reports a new value, and null when set back to any', () => {
+    const onChange = jest.fn()
+    render(<FilterPanel schema={schema} selected={{ color: 'black' }} onChange={onChange} />)
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Shoe size' }), { target: { value: 'EU 42' } })
+    fireEvent.change(screen.getByRole('combobox', { name: 'Colour' }), { target: { value: '' } })
+
+    expect(onChange).toHaveBeenNthCalledWith(1, 'size', 'EU 42')
+    expect(onChange).toHaveBeenNthCalledWith(2, 'color', null)
+  })
+
+  it('renders nothing for a category without filters', () => {
+    const { container } = render(
+      <FilterPanel schema={{ ...schema, filters: [] }} selected={{}} onChange={jest.fn()} />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
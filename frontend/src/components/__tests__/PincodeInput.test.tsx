@@ -0,0 +1,37 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import PincodeInput from '../PincodeInput'
+import type { PincodeSuggestion } from '../../types'
+
+const suggestions: PincodeSuggestion[] = [
+  { pincode: '400053', district: 'Mumbai', state: 'Maharashtra', match: 'Andheri' },
+  { pincode: '400069', district: 'Mumbai', state: 'Maharashtra', match: 'Andheri East' },
+]
+
+describe('PincodeInput Component', () => {
+  it('lists the suggested pincodes with the place that matched', () => {
+    render(<PincodeInput value="andheri" onChange={jest.fn()} suggestions={suggestions} />)
+
+    expect(screen.getByRole('combobox', { name: 'Pincode' })).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getAllByRole('option')).toHaveLength(2)
+    expect(screen.getByRole('option', { name: '400069 Andheri East, Mumbai, Maharashtra' })).toBeInTheDocument()
+  })
+
+  it('fills in the pincode of the chosen suggestion', () => {
+    const onChange = jest.fn()
+    render(<PincodeInput value="andheri" onChange={onChange} suggestions={suggestions} />)
+
+    fireEvent.click(screen.getByRole('option', { name: /400053/ }))
+
+    expect(onChange).toHaveBeenCalledWith('400053')
+  })
+
+  it('reports what is typed and hides the list without suggestions', () => {
+    const onChange = jest.fn()
+    render(<PincodeInput value="" onChange={onChange} suggestions={[]} />)
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Pincode' }), { target: { value: 'pune' } })
+
+    expect(onChange).toHaveBeenCalledWith('pune')
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+  })
+})
@@ -1,6 +1,102 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import ChatThread from '../components/ChatThread'
+import FilterPanel from '../components/FilterPanel'
+import PincodeInput from '../components/PincodeInput'
+import { apiService } from '../services/api'
+import { setConversationError } from '../store/slices/conversationSlice'
+import { validatePincode } from '../utils/validation'
+import type { AppDispatch, RootState } from '../store'
+import type { CategoryFilters, PincodeSuggestion } from '../types'
+
+// Wait for a pause in typing before looking up place names
+const SUGGESTION_DELAY_MS = 250
 
 const HomePage: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>()
+  const conversation = useSelector((state: RootState) => state.conversation)
+  const [pincode, setPincode] = useState('')
+  const [suggestions, setSuggestions] = useState<PincodeSuggestion[]>([])
+  const [filterSchema, setFilterSchema] = useState<CategoryFilters | null>(null)
+  const intent = conversation.state?.intent
+  const categoryId = intent?.category?.id
+
+  // Suggest pincodes for a place name or a partly typed pincode
+  useEffect(() => {
+    const text = pincode.trim()
+    if (text.length < 2 || validatePincode(text)) {
+      setSuggestions([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(() => {
+      apiService.searchPincodes(text, 8)
+        .then((found) => {
+          if (!cancelled) {
+            setSuggestions(found)
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setSuggestions([])
+          }
+        })
+    }, SUGGESTION_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [pincode])
+
+  // The filter panel follows the category of the current search
+  useEffect(() => {
+    if (!categoryId) {
+      setFilterSchema(null)
+      return
+    }
+    let cancelled = false
+    apiService.getCategoryFilters(categoryId)
+      .then((schema) => {
+        if (!cancelled) {
+          setFilterSchema(schema)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFilterSchema(null)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [categoryId])
+
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!validatePincode(pincode)) {
+      dispatch(setConversationError('Please enter a valid 6-digit pincode'))
+      return
+    }
+    try {
+      await apiService.startConversation(pincode.trim(), dispatch)
+    } catch (error) {
+      dispatch(setConversationError(error instanceof Error ? error.message : 'Failed to start conversation'))
+    }
+  }
+
+  const handleSend = (message: string) => {
+    if (conversation.sessionId) {
+      // Failures are recorded in the conversation state by the api service
+      apiService.sendConversationMessage(conversation.sessionId, message, dispatch).catch(() => undefined)
+    }
+  }
+
+  const handleFilterChange = (key: string, value: string | null) => {
+    if (conversation.sessionId) {
+      apiService.applyConversationFilters(conversation.sessionId, { [key]: value }, dispatch).catch(() => undefined)
+    }
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="text-center mb-8">
@@ -12,16 +108,40 @@ const HomePage: React.FC = () => {
           from Amazon, Flipkart, Myntra, and Meesho.
         </p>
       </div>
-      
+
       <div className="card">
-        <div className="text-center py-12">
-          <p className="text-gray-500">
-            Search interface will be implemented in the next task.
+        {conversation.sessionId ? (
+          <>
+            <ChatThread
+              turns={conversation.turns}
+              isSending={conversation.isSending}
+              onSend={handleSend}
+            />
+            {filterSchema && (
+              <FilterPanel
+                schema={filterSchema}
+                selected={intent?.specifications ?? {}}
+                onChange={handleFilterChange}
+                disabled={conversation.isSending}
+              />
+            )}
+          </>
+        ) : (
+          <form onSubmit={handleStart} className="flex space-x-2">
+            <PincodeInput value={pincode} onChange={setPincode} suggestions={suggestions} />
+            <button type="submit" className="btn-primary">
+              Start
+            </button>
+          </form>
+        )}
+        {conversation.error && (
+          <p className="text-sm text-red-600 mt-2" role="alert">
+            {conversation.error}
           </p>
-        </div>
+        )}
       </div>
     </div>
   )
 }
 
-export default HomePage
\ No newline at end of file
+export default HomePage
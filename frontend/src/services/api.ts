@@ -1,12 +1,38 @@
 import axios from 'axios'
 import type {
   ProductQuery,
-  ParsedIntent,
+  IntentParseResult,
   RetailerSearchResults,
   ApiResponse,
   PincodeValidationResult,
+  PincodeDeliveryInfo,
+  BulkPincodeDelivery,
+  PincodeSuggestion,
+  RetailerName,
   UserFeedback,
+  RetailerResultEvent,
+  SearchSummaryEvent,
+  ConversationSession,
+  ConversationReply,
+  CategoryFilters,
 } from '../types'
+import type { AppDispatch } from '../store'
+import {
+  startSearch,
+  setRetailerResult,
+  setInsights,
+  setParsedIntent,
+  completeSearch,
+  setError,
+} from '../store/slices/searchSlice'
+import {
+  conversationStarted,
+  messageSent,
+  filtersSent,
+  replyReceived,
+  setConversationError,
+} from '../store/slices/conversationSlice'
+import { createSseParser } from '../utils/sse'
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001'
 
@@ -46,14 +72,35 @@ api.interceptors.response.use(
     if (error.code === 'ECONNABORTED') {
       throw new Error('Request timeout. Please try again.')
     }
+    // Refused queries carry a reason the shopper can act on
+    if (error.response?.data?.code && error.response.data.error) {
+      throw new Error(error.response.data.error)
+    }
     return Promise.reject(error)
   }
 )
 
+// The reply's merged intent and results go to the conversation and search
+// state; clarify replies have no insights and leave the previous results
+const dispatchConversationReply = ({ session, results, insights }: ConversationReply, dispatch: AppDispatch) => {
+  dispatch(replyReceived(session))
+  if (session.state.intent) {
+    dispatch(setParsedIntent(session.state.intent))
+  }
+  if (results && insights) {
+    const retailers = Object.keys(results) as Array<keyof RetailerSearchResults>
+    retailers.forEach((retailer) => {
+      dispatch(setRetailerResult({ retailer, result: results[retailer] }))
+    })
+    dispatch(setInsights(insights))
+    dispatch(completeSearch())
+  }
+}
+
 export const apiService = {
   // Intent parsing
-  parseIntent: async (query: string): Promise<ParsedIntent> => {
-    const response = await api.post<ApiResponse<ParsedIntent>>('/intent/parse', {
+  parseIntent: async (query: string): Promise<IntentParseResult> => {
+    const response = await api.post<ApiResponse<IntentParseResult>>('/intent/parse', {
       query,
     })
     if (!response.data.success || !response.data.data) {
@@ -74,6 +121,42 @@ export const apiService = {
     return response.data.data
   },
 
+  // Delivery dates, cost and options for one retailer at a pincode
+  getDeliveryInfo: async (pincode: string, retailer: RetailerName): Promise<PincodeDeliveryInfo> => {
+    const response = await api.post<ApiResponse<PincodeDeliveryInfo>>('/pincode/delivery', { pincode, retailer })
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get delivery information')
+    }
+    return response.data.data
+  },
+
+  // Delivery to several pincodes at once, e.g. gift addresses
+  checkDeliveryBulk: async (
+    pincodes: string[],
+    retailers?: RetailerName[],
+    category?: string
+  ): Promise<BulkPincodeDelivery[]> => {
+    const response = await api.post<ApiResponse<BulkPincodeDelivery[]>>(
+      '/pincode/delivery/bulk',
+      { pincodes, retailers, category }
+    )
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to check delivery')
+    }
+    return response.data.data
+  },
+
+  // Pincodes for a city, locality or the start of a pincode
+  searchPincodes: async (query: string, limit?: number): Promise<PincodeSuggestion[]> => {
+    const response = await api.get<ApiResponse<PincodeSuggestion[]>>('/pincode/search', {
+      params: { q: query, limit },
+    })
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to look up pincodes')
+    }
+    return response.data.data
+  },
+
   // Product search
   searchProducts: async (query: ProductQuery): Promise<RetailerSearchResults> => {
     const response = await api.post<ApiResponse<RetailerSearchResults>>(
@@ -86,6 +169,149 @@ export const apiService = {
     return response.data.data
   },
 
+  // Streaming product search: each retailer's result is dispatched as soon as
+  // it arrives, and the final summary is returned once every retailer is done
+  streamSearchProducts: async (
+    query: ProductQuery,
+    dispatch: AppDispatch
+  ): Promise<SearchSummaryEvent> => {
+    dispatch(startSearch())
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/search/products/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(query),
+      })
+
+      if (response.status === 429) {
+        throw new Error('Too many requests. Please try again later.')
+      }
+      if (!response.ok || !response.body) {
+        const body: ApiResponse<never> | null = await response.json().catch(() => null)
+        throw new Error(body?.error || 'Failed to search products')
+      }
+
+      const stream: { summary?: SearchSummaryEvent; error?: string } = {}
+      const parse = createSseParser(({ event, data }) => {
+        if (event === 'retailer') {
+          const { retailer, result } = JSON.parse(data) as RetailerResultEvent
+          dispatch(setRetailerResult({ retailer, result }))
+        } else if (event === 'summary') {
+          stream.summary = JSON.parse(data) as SearchSummaryEvent
+        } else if (event === 'error') {
+          stream.error = JSON.parse(data).error
+        }
+      })
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        parse(decoder.decode(value, { stream: true }))
+      }
+      parse(decoder.decode())
+
+      if (!stream.summary) {
+        throw new Error(stream.error || 'Search ended before all retailers responded')
+      }
+
+      // The summary carries highlights assigned across all retailers
+      const { results, insights } = stream.summary
+      const retailers = Object.keys(results) as Array<keyof RetailerSearchResults>
+      retailers.forEach((retailer) => {
+        dispatch(setRetailerResult({ retailer, result: results[retailer] }))
+      })
+      dispatch(setInsights(insights))
+      dispatch(completeSearch())
+      return stream.summary
+    } catch (error) {
+      dispatch(setError(error instanceof Error ? error.message : 'Failed to search products'))
+      throw error
+    }
+  },
+
+  // Conversational search: start a session for a pincode
+  startConversation: async (pincode: string, dispatch: AppDispatch): Promise<ConversationSession> => {
+    const response = await api.post<ApiResponse<ConversationSession>>('/conversation', { pincode })
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to start conversation')
+    }
+    dispatch(conversationStarted(response.data.data))
+    return response.data.data
+  },
+
+  // Send a message; the reply's merged intent and results are dispatched to
+  // the conversation and search state. Clarify replies ask questions and
+  // leave the previous results in place.
+  sendConversationMessage: async (
+    sessionId: string,
+    message: string,
+    dispatch: AppDispatch
+  ): Promise<ConversationReply> => {
+    dispatch(messageSent(message))
+
+    try {
+      const response = await api.post<ApiResponse<ConversationReply>>(
+        `/conversation/${sessionId}/messages`,
+        { message }
+      )
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error || 'Failed to send message')
+      }
+
+      dispatchConversationReply(response.data.data, dispatch)
+      return response.data.data
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Failed to send message'
+      dispatch(setConversationError(reason))
+      throw error
+    }
+  },
+
+  // Set or clear (null) filters from the category schema on the conversation's search
+  applyConversationFilters: async (
+    sessionId: string,
+    filters: Record<string, string | null>,
+    dispatch: AppDispatch
+  ): Promise<ConversationReply> => {
+    dispatch(filtersSent())
+
+    try {
+      const response = await api.post<ApiResponse<ConversationReply>>(
+        `/conversation/${sessionId}/filters`,
+        { filters }
+      )
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error || 'Failed to apply filters')
+      }
+
+      dispatchConversationReply(response.data.data, dispatch)
+      return response.data.data
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Failed to apply filters'
+      dispatch(setConversationError(reason))
+      throw error
+    }
+  },
+
+  // Category schema the filter panel is built from
+  getCategoryFilters: async (categoryId: string): Promise<CategoryFilters> => {
+    const response = await api.get<ApiResponse<CategoryFilters>>(
+      `/categories/${encodeURIComponent(categoryId)}/filters`
+    )
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to load filters')
+    }
+    return response.data.data
+  },
+
   // User feedback
   submitFeedback: async (feedback: UserFeedback): Promise<void> => {
     const response = await api.post<ApiResponse<void>>('/feedback', feedback)
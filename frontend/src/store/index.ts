@@ -1,11 +1,13 @@
 import { configureStore } from '@reduxjs/toolkit'
 import searchReducer from './slices/searchSlice'
 import uiReducer from './slices/uiSlice'
+import conversationReducer from './slices/conversationSlice'
 
 export const store = configureStore({
   reducer: {
     search: searchReducer,
     ui: uiReducer,
+    conversation: conversationReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
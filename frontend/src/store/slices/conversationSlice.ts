@@ -0,0 +1,66 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import type { ConversationSession, ConversationState, ConversationTurn } from '../../types'
+
+interface ConversationSliceState {
+  sessionId: string | null
+  pincode: string | null
+  turns: ConversationTurn[]
+  // The merged search after the latest reply
+  state: ConversationState | null
+  isSending: boolean
+  error: string | null
+}
+
+const initialState: ConversationSliceState = {
+  sessionId: null,
+  pincode: null,
+  turns: [],
+  state: null,
+  isSending: false,
+  error: null,
+}
+
+const conversationSlice = createSlice({
+  name: 'conversation',
+  initialState,
+  reducers: {
+    conversationStarted: (state, action: PayloadAction<ConversationSession>) => {
+      state.sessionId = action.payload.id
+      state.pincode = action.payload.pincode
+      state.turns = action.payload.turns
+      state.state = action.payload.state
+      state.error = null
+    },
+    messageSent: (state, action: PayloadAction<string>) => {
+      // Shown right away; replaced by the server's copy when the reply arrives
+      state.turns.push({ role: 'user', text: action.payload, timestamp: Date.now() })
+      state.isSending = true
+      state.error = null
+    },
+    filtersSent: (state) => {
+      state.isSending = true
+      state.error = null
+    },
+    replyReceived: (state, action: PayloadAction<ConversationSession>) => {
+      state.turns = action.payload.turns
+      state.state = action.payload.state
+      state.isSending = false
+    },
+    setConversationError: (state, action: PayloadAction<string>) => {
+      state.error = action.payload
+      state.isSending = false
+    },
+    resetConversation: () => initialState,
+  },
+})
+
+export const {
+  conversationStarted,
+  messageSent,
+  filtersSent,
+  replyReceived,
+  setConversationError,
+  resetConversation,
+} = conversationSlice.actions
+
+export default conversationSlice.reducer
@@ -1,27 +1,49 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import type { LandedPrice, RetailerInsights } from '../../types'
 
 export interface ProductQuery {
   description: string
   pincode: string
   budget?: {
     min: number
-    max: number
+    // Left out for an open-ended budget ("above 10000")
+    max?: number
   }
   filters?: {
     brands?: string[]
     size?: string
     color?: string
     specifications?: Record<string, string>
+    excludeBrands?: string[]
   }
   confidence: number
+  // Sent along so the server can rank results against the parsed intent
+  intent?: ParsedIntent
+  paymentMethod?: 'prepaid' | 'cod'
+  bank?: string
+  // 'effective_price' orders each retailer's products by landed price
+  sortBy?: 'relevance' | 'effective_price'
+  // Only these retailers are searched; the rest come back as 'skipped'
+  retailers?: Array<'amazon' | 'flipkart' | 'myntra' | 'meesho'>
+  // Category id from /api/categories; specifications are checked against its schema
+  category?: string
 }
 
 export interface ParsedIntent {
   productType: string
-  budget: { min: number; max: number } | null
+  // max is null for lower bounds ("above 10000"); confidence is set by the
+  // server's rule-based parser
+  budget: { min: number; max: number | null; confidence?: number } | null
   features: string[]
   brand?: string
+  // Keys follow the category's attribute schema when the server matched one
   specifications?: Record<string, string>
+  category?: {
+    id: string
+    name: string
+    // e.g. ['Fashion', 'Footwear', 'Running Shoes']
+    path: string[]
+  }
 }
 
 export interface Product {
@@ -40,6 +62,8 @@ export interface Product {
     available: boolean
     eta: string
     cost: number
+    // Expected delivery dates (YYYY-MM-DD, India time), when the server can work them out
+    window?: { earliest: string; latest: string }
   }
   rating: number
   reviewCount: number
@@ -51,12 +75,20 @@ export interface Product {
   }>
   retailerUrl: string
   lastUpdated: Date
+  // Item price plus delivery to the searched pincode, fees and offers
+  landedPrice?: LandedPrice
 }
 
 export interface SearchResult {
-  status: 'loading' | 'success' | 'error' | 'not_deliverable'
+  status: 'loading' | 'success' | 'error' | 'not_deliverable' | 'skipped'
   products: Product[]
   error?: string
+  // Whether the result came from the server's search cache, and its age
+  cache?: {
+    hit: boolean
+    ageMs: number
+    stale: boolean
+  }
 }
 
 export interface RetailerSearchResults {
@@ -70,6 +102,7 @@ interface SearchState {
   currentQuery: ProductQuery | null
   parsedIntent: ParsedIntent | null
   results: RetailerSearchResults
+  insights: RetailerInsights | null
   isSearching: boolean
   error: string | null
 }
@@ -83,6 +116,7 @@ const initialState: SearchState = {
     myntra: { status: 'loading', products: [] },
     meesho: { status: 'loading', products: [] },
   },
+  insights: null,
   isSearching: false,
   error: null,
 }
@@ -100,6 +134,7 @@ const searchSlice = createSlice({
     startSearch: (state) => {
       state.isSearching = true
       state.error = null
+      state.insights = null
       // Reset all retailer results to loading
       Object.keys(state.results).forEach((retailer) => {
         state.results[retailer as keyof RetailerSearchResults] = {
@@ -117,6 +152,9 @@ const searchSlice = createSlice({
     ) => {
       state.results[action.payload.retailer] = action.payload.result
     },
+    setInsights: (state, action: PayloadAction<RetailerInsights>) => {
+      state.insights = action.payload
+    },
     completeSearch: (state) => {
       state.isSearching = false
     },
@@ -126,6 +164,7 @@ const searchSlice = createSlice({
     },
     clearResults: (state) => {
       state.results = initialState.results
+      state.insights = null
       state.currentQuery = null
       state.parsedIntent = null
       state.error = null
@@ -138,6 +177,7 @@ export const {
   setParsedIntent,
   startSearch,
   setRetailerResult,
+  setInsights,
   completeSearch,
   setError,
   clearResults,
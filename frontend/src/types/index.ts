@@ -1,3 +1,5 @@
+import type { ParsedIntent, Product, SearchResult, RetailerSearchResults } from '../store/slices/searchSlice'
+
 // Re-export types from store slices for convenience
 export type {
   ProductQuery,
@@ -10,18 +12,130 @@ export type {
 // Additional types for the application
 export type RetailerName = 'amazon' | 'flipkart' | 'myntra' | 'meesho'
 
+// model = first answer was valid, repair = valid after a correction request,
+// fallback = the server's keyword rules
+export interface IntentParseResult {
+  intent: ParsedIntent
+  source: 'model' | 'repair' | 'fallback'
+  // How specific the intent is (0-1); questions are empty when it is enough to search
+  confidence: number
+  questions: ClarifyingQuestion[]
+  // True when the server answered from its parse cache without calling the model
+  cached: boolean
+  // Model calls, tokens and estimated cost (USD) of this parse
+  usage: {
+    calls: number
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+    cost: number
+  }
+}
+
+// Asked when a query is too vague to search; each option's value is text
+// that answers the question when sent as the next message
+export interface ClarifyingQuestion {
+  field: 'category' | 'budget' | 'occasion'
+  question: string
+  options: Array<{
+    label: string
+    value: string
+  }>
+}
+
+export type CategoryRef = NonNullable<ParsedIntent['category']>
+
+// One filter of a category's schema. Size attributes list their values per
+// size system and are sent as e.g. "UK 9".
+export interface CategoryAttribute {
+  key: string
+  label: string
+  kind: 'select' | 'size'
+  values?: string[]
+  sizeSystems?: Record<string, string[]>
+}
+
+export interface CategoryFilters {
+  category: CategoryRef
+  filters: CategoryAttribute[]
+}
+
 export interface ApiResponse<T> {
   success: boolean
   data?: T
   error?: string
+  // Set when the server refused the text of a query
+  code?: 'PROMPT_INJECTION' | 'ABUSIVE_QUERY' | 'OFF_TOPIC_QUERY'
   message?: string
 }
 
 export interface PincodeValidationResult {
   valid: boolean
   city?: string
+  district?: string
   state?: string
+  postOffices?: string[]
+  // false when no post office at the pincode delivers
+  deliverable?: boolean
+  location?: { lat: number; lng: number } | null
+  source?: 'local' | 'remote'
+  datasetVersion?: string
+  crossCheck?: 'match' | 'mismatch' | 'unavailable'
+  error?: string
+}
+
+export interface DeliveryEstimate {
+  // The retailer's name for the option, e.g. "Prime"
+  option: string
+  type: 'standard' | 'express' | 'same_day'
+  available: boolean
+  reason?: string
+  // YYYY-MM-DD in India time, inclusive
+  window: { earliest: string; latest: string }
+  minDays: number
+  maxDays: number
+  eta: string
+  cost: number
+  orderBy: string
+  hub: string
+  distanceKm: number | null
+}
+
+export interface RetailerDelivery {
+  available: boolean
+  zone: 'metro' | 'standard' | 'remote'
+  estimatedDays: number
+  window: { earliest: string; latest: string }
+  orderBy: string
+  cost: number
+  options: string[]
+  estimates: DeliveryEstimate[]
+  restrictions: string[]
+}
+
+export interface PincodeDeliveryInfo {
+  pincode: string
+  retailer: RetailerName
+  location: { city?: string; state?: string }
+  delivery: RetailerDelivery
+}
+
+// One pincode of a bulk delivery check; retailers is absent when it is invalid
+export interface BulkPincodeDelivery {
+  pincode: string
+  valid: boolean
   error?: string
+  location?: { city?: string; state?: string }
+  retailers?: Partial<Record<RetailerName, RetailerDelivery>>
+}
+
+// A pincode found from a place name, for the pincode input's suggestions
+export interface PincodeSuggestion {
+  pincode: string
+  district: string
+  state: string
+  // The post office or district name that matched
+  match: string
 }
 
 export interface VoiceRecognitionResult {
@@ -30,6 +144,8 @@ export interface VoiceRecognitionResult {
   isFinal: boolean
 }
 
+// Computed by the server from the merged results of every retailer, alongside
+// the top_pick / best_value / fastest_delivery highlights
 export interface RetailerInsights {
   bestPrice: {
     retailer: RetailerName
@@ -47,6 +163,81 @@ export interface RetailerInsights {
   } | null
 }
 
+// What the buyer pays at the searched pincode, with one line per charge or
+// offer (discount lines are negative)
+export interface LandedPrice {
+  itemPrice: number
+  deliveryCost: number
+  codFee: number
+  discount: number
+  total: number
+  paymentMethod: 'prepaid' | 'cod'
+  lineItems: Array<{
+    type: 'item' | 'delivery' | 'cod_fee' | 'discount'
+    label: string
+    amount: number
+  }>
+  notes: string[]
+}
+
+// Events sent by the streaming search endpoint
+export interface RetailerResultEvent {
+  retailer: RetailerName
+  result: SearchResult
+}
+
+export interface SearchSummaryEvent {
+  results: RetailerSearchResults
+  succeeded: number
+  // Errors and timeouts; retailers left out or not delivering are counted apart
+  failed: number
+  skipped: number
+  notDeliverable: number
+  totalProducts: number
+  durationMs: number
+  insights: RetailerInsights
+}
+
+// What a conversation is searching for after every refinement so far
+export interface ConversationState {
+  intent: ParsedIntent | null
+  excludedBrands: string[]
+  // null searches every retailer
+  retailers: RetailerName[] | null
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  text: string
+  timestamp: number
+  // Assistant turns carry the merged search they ran and what changed
+  kind?: 'search' | 'refine' | 'clarify'
+  state?: ConversationState
+  changes?: string[]
+  questions?: ClarifyingQuestion[]
+}
+
+export interface ConversationSession {
+  id: string
+  pincode: string
+  createdAt: number
+  updatedAt: number
+  state: ConversationState
+  turns: ConversationTurn[]
+  // Middle price of the latest search, what "cheaper" is measured against
+  referencePrice: number | null
+  // Set while the server waits for answers to a clarify turn
+  clarifying: { query: string; rounds: number } | null
+}
+
+export interface ConversationReply {
+  session: ConversationSession
+  reply: ConversationTurn
+  // Both null when the reply asked questions instead of searching
+  results: RetailerSearchResults | null
+  insights: RetailerInsights | null
+}
+
 export interface UserFeedback {
   productId: string
   type: 'relevant' | 'not_relevant'
@@ -0,0 +1,58 @@
+import { createSseParser, ServerSentEvent } from '../sse'
+
+const collect = () => {
+  const events: ServerSentEvent[] = []
+  const parse = createSseParser((event) => events.push(event))
+  return { events, parse }
+}
+
+describe('createSseParser', () => {
+  it('parses named events with JSON data', () => {
+    const { events, parse } = collect()
+
+    parse('event: retailer\ndata: {"retailer":"amazon"}\n\nevent: summary\ndata: {}\n\n')
+
+    expect(events).toEqual([
+      { event: 'retailer', data: '{"retailer":"amazon"}' },
+      { event: 'summary', data: '{}' },
+    ])
+  })
+
+  it('buffers events split across chunks', () => {
+    const { events, parse } = collect()
+
+    parse('event: retai')
+    parse('ler\ndata: {"retailer":')
+    expect(events).toHaveLength(0)
+
+    parse('"flipkart"}\n')
+    parse('\n')
+    expect(events).toEqual([{ event: 'retailer', data: '{"retailer":"flipkart"}' }])
+  })
+
+  it('defaults the event name and joins multi-line data', () => {
+    const { events, parse } = collect()
+
+    parse('data: first\ndata: second\n\n')
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }])
+  })
+
+  it('ignores comments and handles CRLF line endings', () => {
+    const { events, parse } = collect()
+
+    parse(': keep-alive\r\n\r\nevent: summary\r\ndata: done\r\n\r\n')
+
+    expect(events).toEqual([{ event: 'summary', data: 'done' }])
+  })
+
+  it('handles a CRLF split across chunks', () => {
+    const { events, parse } = collect()
+
+    parse('event: summary\r')
+    parse('\ndata: done\r\n\r')
+    parse('\n')
+
+    expect(events).toEqual([{ event: 'summary', data: 'done' }])
+  })
+})
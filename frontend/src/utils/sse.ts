@@ -0,0 +1,52 @@
+// Minimal Server-Sent Events parser for streams read with fetch(). EventSource
+// only supports GET, so POST endpoints have to be parsed by hand.
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// Returns a function that accepts text chunks as they arrive and calls
+// onEvent for every complete event. Chunks may split events (or lines) anywhere.
+export const createSseParser = (onEvent: (event: ServerSentEvent) => void) => {
+  let buffer = ''
+  // A chunk ending in '\r' may end halfway through a '\r\n', so that '\r'
+  // waits for the next chunk before line endings are normalised
+  let pending = ''
+
+  return (chunk: string) => {
+    const text = pending + chunk
+    pending = text.endsWith('\r') ? '\r' : ''
+    buffer += text.slice(0, text.length - pending.length).replace(/\r\n?/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      const data: string[] = []
+
+      block.split('\n').forEach((line) => {
+        // Lines starting with ':' are comments (e.g. keep-alives)
+        if (!line || line.startsWith(':')) {
+          return
+        }
+        const separator = line.indexOf(':')
+        const field = separator === -1 ? line : line.slice(0, separator)
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+        if (field === 'event') {
+          event = value
+        } else if (field === 'data') {
+          data.push(value)
+        }
+      })
+
+      if (data.length > 0) {
+        onEvent({ event, data: data.join('\n') })
+      }
+    }
+  }
+}